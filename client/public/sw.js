@@ -0,0 +1,194 @@
+// Service worker: keeps the app usable without a connection.
+//
+// - App shell: the page and its hashed assets, precached on install from
+//   the built index.html and refreshed in the background on later visits
+// - Map tiles: cache first, keeping the most recently fetched ones; tiles
+//   older than TILE_MAX_AGE are still shown but refetched in the background
+// - Landmark searches and details: network first, falling back to the last
+//   response seen for the same URL
+//
+// Pages are told whether API responses came from the network or the cache
+// with a { type: "network-status", offline } message.
+
+const VERSION = "v2";
+const SHELL_CACHE = `landmarks-shell-${VERSION}`;
+const TILE_CACHE = `landmarks-tiles-${VERSION}`;
+const API_CACHE = `landmarks-api-${VERSION}`;
+
+// Entries kept per runtime cache; the oldest go first
+const MAX_TILES = 2000;
+const MAX_API_RESPONSES = 300;
+// Same as the server's default tile cache age
+const TILE_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/icon.svg", "/icon-192.png"];
+
+// Map tiles come through the server's tile proxy
+const TILE_PATH = /^\/tiles\//;
+// The web font stylesheet and fonts the page loads from Google Fonts
+const SHELL_HOSTS = ["fonts.googleapis.com", "fonts.gstatic.com"];
+
+// Searches (by radius and by map bounds), batch summaries, single article
+// details and the base map catalogue; not geocoding, lookups or anything
+// per user
+const CACHED_API = /^\/api\/(landmarks\/(search|bbox|details|\d+)|tile-sources)$/;
+
+// Script and stylesheet URLs referenced by the built page
+function assetUrls(html) {
+  return Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), (match) => match[1]);
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.addAll(SHELL_URLS);
+      const page = await cache.match("/");
+      if (page) {
+        await cache.addAll(assetUrls(await page.text()));
+      }
+      await self.skipWaiting();
+    })(),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  const current = [SHELL_CACHE, TILE_CACHE, API_CACHE];
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter((name) => name.startsWith("landmarks-") && !current.includes(name))
+          .map((name) => caches.delete(name)),
+      );
+      await self.clients.claim();
+    })(),
+  );
+});
+
+// Drop the oldest entries beyond the limit; keys come back in insertion order
+async function trimCache(name, limit) {
+  const cache = await caches.open(name);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - limit)).map((key) => cache.delete(key)));
+}
+
+async function notify(clientId, offline) {
+  const targets = clientId
+    ? [await self.clients.get(clientId)]
+    : await self.clients.matchAll({ type: "window" });
+  for (const client of targets) {
+    client?.postMessage({ type: "network-status", offline });
+  }
+}
+
+// Age of a cached response from its Date header; unknown counts as expired
+function age(response) {
+  const date = Date.parse(response.headers.get("Date") ?? "");
+  return Number.isNaN(date) ? Infinity : Date.now() - date;
+}
+
+async function tile(event) {
+  const cache = await caches.open(TILE_CACHE);
+  const cached = await cache.match(event.request);
+  const refresh = async () => {
+    const response = await fetch(event.request);
+    if (response.ok) {
+      await cache.put(event.request, response.clone());
+      trimCache(TILE_CACHE, MAX_TILES);
+    }
+    return response;
+  };
+
+  if (!cached) {
+    return refresh();
+  }
+  // Expired tiles are shown while the new copy loads; offline they stay
+  if (age(cached) > TILE_MAX_AGE) {
+    event.waitUntil(refresh().catch(() => undefined));
+  }
+  return cached;
+}
+
+async function networkFirst(event, cacheName, limit) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(event.request);
+    if (response.ok) {
+      await cache.put(event.request, response.clone());
+      trimCache(cacheName, limit);
+    }
+    notify(event.clientId, false);
+    return response;
+  } catch (error) {
+    const cached = await cache.match(event.request);
+    if (!cached) {
+      throw error;
+    }
+    notify(event.clientId, true);
+    return cached;
+  }
+}
+
+// The page itself: network first so deploys show up, the cached shell when
+// offline whatever the path (the client routes)
+async function navigation(event) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(event.request);
+    if (response.ok) {
+      await cache.put("/", response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match("/");
+    if (!cached) {
+      throw error;
+    }
+    notify(event.resultingClientId, true);
+    return cached;
+  }
+}
+
+// Assets: the cached copy right away, refreshed in the background
+async function staleWhileRevalidate(event) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(event.request);
+  const network = fetch(event.request)
+    .then(async (response) => {
+      if (response.ok || response.type === "opaque") {
+        await cache.put(event.request, response.clone());
+      }
+      return response;
+    })
+    .catch(() => undefined);
+
+  if (cached) {
+    event.waitUntil(network);
+    return cached;
+  }
+  return (await network) ?? Response.error();
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") {
+    return;
+  }
+
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin && TILE_PATH.test(url.pathname)) {
+    event.respondWith(tile(event));
+  } else if (url.origin === self.location.origin && CACHED_API.test(url.pathname)) {
+    event.respondWith(networkFirst(event, API_CACHE, MAX_API_RESPONSES));
+  } else if (request.mode === "navigate" && url.origin === self.location.origin) {
+    event.respondWith(navigation(event));
+  } else if (
+    (url.origin === self.location.origin && url.pathname.startsWith("/assets/")) ||
+    SHELL_HOSTS.includes(url.hostname)
+  ) {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
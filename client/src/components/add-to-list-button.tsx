@@ -0,0 +1,68 @@
+import { ListPlus } from "lucide-react";
+import type { LandmarkList } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { NewListForm } from "@/components/new-list-form";
+import { useAuth } from "@/hooks/use-auth";
+import { useLists } from "@/hooks/use-lists";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/queryClient";
+
+interface AddToListButtonProps {
+  pageid: number;
+  lang: string;
+}
+
+export function AddToListButton({ pageid, lang }: AddToListButtonProps) {
+  const { user } = useAuth();
+  const { lists, addItemMutation } = useLists();
+  const { toast } = useToast();
+
+  // Signed-out users get the sign-in prompt from the save button instead
+  if (!user) {
+    return null;
+  }
+
+  const addTo = (list: LandmarkList) =>
+    addItemMutation.mutate(
+      { listId: list.id, pageid, lang },
+      {
+        onSuccess: () => toast({ title: `Added to "${list.name}"` }),
+        onError: (error) =>
+          toast({
+            title: `Couldn't add to "${list.name}"`,
+            description: getApiErrorMessage(error),
+            variant: "destructive",
+          }),
+      }
+    );
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="w-full gap-2" data-testid="button-add-to-list">
+          <ListPlus className="h-4 w-4" />
+          Add to list
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="z-[1100] w-72 space-y-2 p-2" align="start">
+        {lists.length > 0 && (
+          <div className="max-h-48 overflow-y-auto">
+            {lists.map((list) => (
+              <button
+                key={list.id}
+                onClick={() => addTo(list)}
+                disabled={addItemMutation.isPending}
+                className="w-full truncate rounded-sm px-2 py-1.5 text-left text-sm hover-elevate"
+                data-testid={`button-add-to-list-${list.id}`}
+              >
+                {list.name}
+              </button>
+            ))}
+          </div>
+        )}
+        <NewListForm onCreated={addTo} />
+      </PopoverContent>
+    </Popover>
+  );
+}
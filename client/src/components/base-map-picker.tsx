@@ -0,0 +1,46 @@
+import { Layers } from "lucide-react";
+import type { TileSource } from "@shared/schema";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AUTO_BASE_MAP } from "@/hooks/use-base-map";
+
+interface BaseMapPickerProps {
+  sources: TileSource[];
+  // A source id, or AUTO_BASE_MAP
+  value: string;
+  onChange: (value: string) => void;
+}
+
+export function BaseMapPicker({ sources, value, onChange }: BaseMapPickerProps) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger
+        className="h-8 w-auto gap-2"
+        aria-label="Base map"
+        data-testid="select-base-map"
+      >
+        <Layers className="h-4 w-4 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="z-[1100]">
+        <SelectItem value={AUTO_BASE_MAP} data-testid="option-base-map-auto">
+          Automatic
+        </SelectItem>
+        {sources.map((source) => (
+          <SelectItem
+            key={source.id}
+            value={source.id}
+            data-testid={`option-base-map-${source.id}`}
+          >
+            {source.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,55 @@
+import { LANDMARK_CATEGORIES, type LandmarkCategory } from "@shared/schema";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { CATEGORY_META } from "@/lib/categories";
+
+interface CategoryFilterProps {
+  counts: Partial<Record<LandmarkCategory, number>>;
+  hidden: LandmarkCategory[];
+  onChange: (hidden: LandmarkCategory[]) => void;
+}
+
+// Toggle chips for each category present in the results, with counts.
+// Doubles as the marker legend since each chip shows the marker icon.
+export function CategoryFilter({ counts, hidden, onChange }: CategoryFilterProps) {
+  const present = LANDMARK_CATEGORIES.filter((category) => counts[category]);
+  const visible = present.filter((category) => !hidden.includes(category));
+
+  if (present.length === 0) return null;
+
+  return (
+    <ToggleGroup
+      type="multiple"
+      value={visible}
+      onValueChange={(value: string[]) =>
+        onChange([
+          // Keep categories that aren't in the current results hidden too
+          ...hidden.filter((category) => !present.includes(category)),
+          ...present.filter((category) => !value.includes(category)),
+        ])
+      }
+      className="flex-wrap justify-start"
+      aria-label="Filter landmarks by category"
+      data-testid="filter-categories"
+    >
+      {present.map((category) => (
+        <ToggleGroupItem
+          key={category}
+          value={category}
+          size="sm"
+          variant="outline"
+          className="h-7 gap-1 px-2 text-xs data-[state=off]:opacity-50"
+          aria-label={CATEGORY_META[category].label}
+          data-testid={`toggle-category-${category}`}
+        >
+          <img
+            src={CATEGORY_META[category].iconUrl}
+            alt=""
+            className="h-4 w-3"
+          />
+          {CATEGORY_META[category].label}
+          <span className="text-muted-foreground">{counts[category]}</span>
+        </ToggleGroupItem>
+      ))}
+    </ToggleGroup>
+  );
+}
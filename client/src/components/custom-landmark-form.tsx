@@ -0,0 +1,196 @@
+import { useEffect } from "react";
+import { useMapEvents } from "react-leaflet";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, X } from "lucide-react";
+import {
+  LANDMARK_CATEGORIES,
+  customLandmarkRequestSchema,
+  type CustomLandmark,
+  type CustomLandmarkRequest,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { CATEGORY_META } from "@/lib/categories";
+import { invalidateCustomLandmarks } from "@/lib/landmarks";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+
+interface CustomLandmarkFormProps {
+  position: { lat: number; lon: number };
+  onCancel: () => void;
+  onCreated: (landmark: CustomLandmark) => void;
+}
+
+// Details for a pin the user just dropped on the map
+export function CustomLandmarkForm({
+  position,
+  onCancel,
+  onCreated,
+}: CustomLandmarkFormProps) {
+  const { toast } = useToast();
+  const form = useForm<CustomLandmarkRequest>({
+    resolver: zodResolver(customLandmarkRequestSchema),
+    defaultValues: { title: "", description: "", category: "other", ...position },
+  });
+
+  // The pin can be moved while the form is open
+  useEffect(() => {
+    form.setValue("lat", position.lat);
+    form.setValue("lon", position.lon);
+  }, [form, position.lat, position.lon]);
+
+  const createMutation = useMutation({
+    mutationFn: async (request: CustomLandmarkRequest) => {
+      const res = await apiRequest("POST", "/api/custom-landmarks", request);
+      return (await res.json()) as CustomLandmark;
+    },
+    onSuccess: (landmark) => {
+      invalidateCustomLandmarks();
+      onCreated(landmark);
+    },
+    onError: (error) =>
+      toast({
+        title: "Couldn't add place",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      }),
+  });
+
+  return (
+    <Card className="shadow-xl">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
+        <CardTitle className="text-base">Add a place</CardTitle>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-8 w-8 rounded-full"
+          onClick={onCancel}
+          aria-label="Cancel adding place"
+          data-testid="button-cancel-custom-landmark"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((values) => createMutation.mutate(values))}
+            className="space-y-3"
+          >
+            <p className="text-xs text-muted-foreground">
+              {position.lat.toFixed(5)}, {position.lon.toFixed(5)} - click the
+              map to move the pin
+            </p>
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title</FormLabel>
+                  <FormControl>
+                    <Input autoFocus data-testid="input-custom-title" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      rows={3}
+                      data-testid="input-custom-description"
+                      {...field}
+                      value={field.value ?? ""}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="category"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Category</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-custom-category">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="z-[1100]">
+                      {LANDMARK_CATEGORIES.map((category) => (
+                        <SelectItem key={category} value={category}>
+                          {CATEGORY_META[category].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={createMutation.isPending}
+              data-testid="button-save-custom-landmark"
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add place
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface PinDropControllerProps {
+  active: boolean;
+  onDrop: (position: { lat: number; lon: number }) => void;
+}
+
+// While active, a click on the map drops (or moves) the draft pin
+export function PinDropController({ active, onDrop }: PinDropControllerProps) {
+  const map = useMapEvents({
+    click: (event) => {
+      if (active) {
+        onDrop({ lat: event.latlng.lat, lon: event.latlng.lng });
+      }
+    },
+  });
+
+  useEffect(() => {
+    const container = map.getContainer();
+    container.classList.toggle("landmark-placing", active);
+    return () => container.classList.remove("landmark-placing");
+  }, [map, active]);
+
+  return null;
+}
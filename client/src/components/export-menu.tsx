@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import type { ExportFormat, ExportLandmark, ExportRequest } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  geojson: "GeoJSON",
+  gpx: "GPX",
+  kml: "KML (Google Earth)",
+  csv: "CSV (spreadsheet)",
+};
+
+// What the sidebar's current tab would export
+export interface ExportSource {
+  name: string;
+  landmarks: ExportLandmark[];
+  // In visiting order, e.g. a tour
+  route?: boolean;
+}
+
+// Filename from the server's Content-Disposition header
+function attachmentFilename(res: Response, fallback: string): string {
+  const match = /filename="([^"]+)"/.exec(res.headers.get("Content-Disposition") ?? "");
+  return match?.[1] ?? fallback;
+}
+
+export function ExportMenu({ source }: { source: ExportSource | null }) {
+  const { toast } = useToast();
+  const [pending, setPending] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!source) return;
+    setPending(format);
+    try {
+      const request: ExportRequest = {
+        format,
+        name: source.name,
+        landmarks: source.landmarks,
+        route: source.route ?? false,
+      };
+      const res = await apiRequest("POST", "/api/export", request);
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = attachmentFilename(res, `landmarks.${format}`);
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (error) {
+      toast({
+        title: "Couldn't export landmarks",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const count = source?.landmarks.length ?? 0;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 gap-1 px-2 text-xs"
+          disabled={count === 0 || pending !== null}
+          data-testid="button-export"
+        >
+          {pending ? (
+            <Loader2 className="h-3 w-3 animate-spin" />
+          ) : (
+            <Download className="h-3 w-3" />
+          )}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="z-[1100]">
+        <DropdownMenuLabel className="font-normal text-xs text-muted-foreground">
+          {source?.name} ({count})
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((format) => (
+          <DropdownMenuItem
+            key={format}
+            onSelect={() => handleExport(format)}
+            data-testid={`button-export-${format}`}
+          >
+            {FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
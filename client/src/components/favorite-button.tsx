@@ -0,0 +1,62 @@
+import { Link } from "wouter";
+import { Loader2, Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { useFavorites } from "@/hooks/use-favorites";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/queryClient";
+
+interface FavoriteButtonProps {
+  pageid: number;
+  lang: string;
+}
+
+export function FavoriteButton({ pageid, lang }: FavoriteButtonProps) {
+  const { user } = useAuth();
+  const { isSaved, saveMutation, unsaveMutation } = useFavorites();
+  const { toast } = useToast();
+
+  if (!user) {
+    return (
+      <Button variant="outline" className="w-full gap-2" asChild data-testid="button-save-sign-in">
+        <Link href="/login">
+          <Star className="h-4 w-4" />
+          Sign in to save
+        </Link>
+      </Button>
+    );
+  }
+
+  const saved = isSaved(pageid, lang);
+  const mutation = saved ? unsaveMutation : saveMutation;
+
+  return (
+    <Button
+      variant={saved ? "secondary" : "outline"}
+      className="w-full gap-2"
+      disabled={mutation.isPending}
+      aria-pressed={saved}
+      onClick={() => {
+        const onError = (error: Error) =>
+          toast({
+            title: saved ? "Couldn't remove landmark" : "Couldn't save landmark",
+            description: getApiErrorMessage(error),
+            variant: "destructive",
+          });
+        if (saved) {
+          unsaveMutation.mutate({ pageid, lang }, { onError });
+        } else {
+          saveMutation.mutate({ pageid, lang }, { onError });
+        }
+      }}
+      data-testid="button-toggle-favorite"
+    >
+      {mutation.isPending ? (
+        <Loader2 className="h-4 w-4 animate-spin" />
+      ) : (
+        <Star className={`h-4 w-4 ${saved ? "fill-amber-400 text-amber-500" : ""}`} />
+      )}
+      {saved ? "Saved" : "Save"}
+    </Button>
+  );
+}
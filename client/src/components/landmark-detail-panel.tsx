@@ -0,0 +1,281 @@
+import {
+  X,
+  Loader2,
+  ExternalLink,
+  AlertCircle,
+  Languages,
+  Trash2,
+} from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge, badgeVariants } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AddToListButton } from "@/components/add-to-list-button";
+import { FavoriteButton } from "@/components/favorite-button";
+import { NoteSection } from "@/components/note-section";
+import { VisitSection } from "@/components/visit-section";
+import { useToast } from "@/hooks/use-toast";
+import { getLanguageName } from "@/lib/languages";
+import { invalidateCustomLandmarks } from "@/lib/landmarks";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { getPackDetail } from "@/lib/region-packs";
+import {
+  DEFAULT_LANGUAGE,
+  type LandmarkDetail,
+  type LandmarkSource,
+} from "@shared/schema";
+
+// Page IDs are only unique within one Wikipedia language edition
+export interface SelectedLandmark {
+  pageid: number;
+  lang: string;
+  source?: LandmarkSource;
+}
+
+interface LandmarkDetailPanelProps {
+  selected: SelectedLandmark | null;
+  preferredLang: string;
+  onClose: () => void;
+}
+
+export function LandmarkDetailPanel({
+  selected,
+  preferredLang,
+  onClose,
+}: LandmarkDetailPanelProps) {
+  const pageid = selected?.pageid ?? null;
+  const lang = selected?.lang ?? DEFAULT_LANGUAGE;
+  const isCustom = selected?.source === "custom";
+  const { toast } = useToast();
+  const {
+    data: landmarkDetail,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery<LandmarkDetail>({
+    queryKey: ["/api/landmarks/detail", pageid, lang, selected?.source],
+    queryFn: async () => {
+      if (!pageid) throw new Error("No page ID");
+      let response: Response;
+      try {
+        response = await fetch(
+          isCustom
+            ? `/api/custom-landmarks/${pageid}`
+            : `/api/landmarks/${pageid}?lang=${lang}`
+        );
+      } catch (fetchError) {
+        // Offline: the summary from a region pack, if one has it
+        const packed = isCustom ? undefined : await getPackDetail(pageid, lang);
+        if (packed) return packed;
+        throw fetchError;
+      }
+      if (!response.ok) {
+        throw new Error(
+          `Failed to fetch landmark details: ${response.statusText}`
+        );
+      }
+      return response.json();
+    },
+    enabled: !!pageid,
+    retry: 2,
+    staleTime: 5 * 60 * 1000, // Cache for 5 minutes
+  });
+
+  const deleteCustomMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/custom-landmarks/${id}`);
+    },
+    onSuccess: () => {
+      invalidateCustomLandmarks();
+      onClose();
+    },
+    onError: (deleteError) =>
+      toast({
+        title: "Couldn't delete place",
+        description: getApiErrorMessage(deleteError),
+        variant: "destructive",
+      }),
+  });
+
+  if (!pageid) return null;
+
+  // Shown when the article isn't in the language picked in the header
+  const isOtherLanguage =
+    !!landmarkDetail && !isCustom && lang !== preferredLang;
+  const preferredLink = landmarkDetail?.languages?.find(
+    (link) => link.lang === preferredLang
+  );
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-[1000] lg:right-0 lg:left-auto lg:top-0 lg:bottom-0 lg:w-96 transition-transform duration-200 ease-in-out">
+      <Card className="h-80 lg:h-full rounded-t-2xl lg:rounded-none border-t lg:border-l shadow-2xl overflow-hidden">
+        <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-4">
+          <CardTitle
+            className="text-2xl font-semibold line-clamp-2"
+            data-testid="text-landmark-title"
+          >
+            {isLoading ? "Loading..." : landmarkDetail?.title || "Landmark"}
+          </CardTitle>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={onClose}
+            className="rounded-full shrink-0"
+            aria-label="Close landmark details"
+            data-testid="button-close-detail"
+          >
+            <X className="h-5 w-5" />
+          </Button>
+        </CardHeader>
+        <ScrollArea className="h-[calc(100%-5rem)]">
+          <CardContent className="space-y-4">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+              </div>
+            ) : error ? (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription className="flex items-center justify-between gap-2">
+                  <span>Failed to load landmark details</span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => refetch()}
+                    data-testid="button-retry-detail"
+                  >
+                    Retry
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            ) : landmarkDetail ? (
+              <>
+                {landmarkDetail.thumbnail && (
+                  <div className="relative w-full h-48 rounded-lg overflow-hidden">
+                    <img
+                      src={landmarkDetail.thumbnail.source}
+                      alt={landmarkDetail.title}
+                      className="w-full h-full object-cover"
+                      data-testid="img-landmark-thumbnail"
+                    />
+                  </div>
+                )}
+
+                {landmarkDetail.extract && (
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-medium">About</h3>
+                    <p
+                      className="text-sm text-foreground leading-relaxed"
+                      data-testid="text-landmark-extract"
+                    >
+                      {landmarkDetail.extract}
+                    </p>
+                  </div>
+                )}
+
+                {!isCustom && (
+                  <NoteSection pageid={landmarkDetail.pageid} lang={lang} />
+                )}
+
+                {isOtherLanguage && (
+                  <Alert data-testid="alert-language-fallback">
+                    <Languages className="h-4 w-4" />
+                    <AlertDescription className="space-y-2">
+                      {preferredLink ? (
+                        <a
+                          href={preferredLink.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-sm underline"
+                          data-testid="link-preferred-language"
+                        >
+                          Read "{preferredLink.title}" in{" "}
+                          {getLanguageName(preferredLang)}
+                        </a>
+                      ) : (
+                        <p className="text-sm">
+                          No {getLanguageName(preferredLang)} article, showing{" "}
+                          {getLanguageName(lang)}.
+                        </p>
+                      )}
+                      {!preferredLink &&
+                        landmarkDetail.languages &&
+                        landmarkDetail.languages.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {landmarkDetail.languages.map((link) => (
+                              <a
+                                key={link.lang}
+                                href={link.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                title={link.title}
+                                className={badgeVariants({ variant: "outline" })}
+                                data-testid={`link-language-${link.lang}`}
+                              >
+                                {link.name || link.lang}
+                              </a>
+                            ))}
+                          </div>
+                        )}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {isCustom ? (
+                  <>
+                    <Badge variant="secondary" data-testid="badge-custom-landmark">
+                      Your place
+                    </Badge>
+                    <Button
+                      variant="outline"
+                      className="w-full gap-2"
+                      disabled={deleteCustomMutation.isPending}
+                      onClick={() => {
+                        if (window.confirm(`Delete "${landmarkDetail.title}"?`)) {
+                          deleteCustomMutation.mutate(landmarkDetail.pageid);
+                        }
+                      }}
+                      data-testid="button-delete-custom-landmark"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      Delete place
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-2 gap-2">
+                      <FavoriteButton pageid={landmarkDetail.pageid} lang={lang} />
+                      <AddToListButton pageid={landmarkDetail.pageid} lang={lang} />
+                    </div>
+
+                    <VisitSection pageid={landmarkDetail.pageid} lang={lang} />
+
+                    <Button
+                      className="w-full gap-2"
+                      asChild
+                      data-testid="button-view-wikipedia"
+                    >
+                      <a
+                        href={
+                          landmarkDetail.url ||
+                          `https://${lang}.wikipedia.org/?curid=${landmarkDetail.pageid}`
+                        }
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      >
+                        <ExternalLink className="h-4 w-4" />
+                        Read more on Wikipedia
+                      </a>
+                    </Button>
+                  </>
+                )}
+              </>
+            ) : null}
+          </CardContent>
+        </ScrollArea>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,415 @@
+import { Link } from "wouter";
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  Copy,
+  Link2,
+  Link2Off,
+  List,
+  Loader2,
+  Trash2,
+} from "lucide-react";
+import type { LandmarkListItem, SharedLandmarkList } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { NewListForm } from "@/components/new-list-form";
+import { useAuth } from "@/hooks/use-auth";
+import { useList, useLists, useSharedList } from "@/hooks/use-lists";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/queryClient";
+
+export function getShareUrl(token: string): string {
+  return `${window.location.origin}/lists/${token}`;
+}
+
+interface ListItemRowsProps {
+  items: LandmarkListItem[];
+  onSelect: (item: LandmarkListItem) => void;
+  // Editing controls are only shown when these are given
+  onMove?: (index: number, offset: -1 | 1) => void;
+  onRemove?: (item: LandmarkListItem) => void;
+}
+
+function ListItemRows({ items, onSelect, onMove, onRemove }: ListItemRowsProps) {
+  if (items.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8 px-4">
+        {onRemove
+          ? "Add landmarks from their detail panel"
+          : "This list is empty"}
+      </p>
+    );
+  }
+
+  return (
+    <>
+      {items.map((item, index) => (
+        <div
+          key={item.id}
+          className="flex items-center gap-1 rounded-lg border bg-card"
+          data-testid={`row-list-item-${item.id}`}
+        >
+          <button
+            onClick={() => onSelect(item)}
+            className="flex-1 min-w-0 flex items-center gap-2 p-3 text-left rounded-lg hover-elevate"
+          >
+            <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-primary text-xs font-medium text-primary-foreground">
+              {index + 1}
+            </span>
+            <span className="font-medium text-sm line-clamp-2">{item.title}</span>
+          </button>
+          {onMove && (
+            <div className="flex flex-col">
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-6 w-6"
+                disabled={index === 0}
+                onClick={() => onMove(index, -1)}
+                aria-label={`Move ${item.title} up`}
+              >
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-6 w-6"
+                disabled={index === items.length - 1}
+                onClick={() => onMove(index, 1)}
+                aria-label={`Move ${item.title} down`}
+              >
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+          {onRemove && (
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8 mr-1"
+              onClick={() => onRemove(item)}
+              aria-label={`Remove ${item.title}`}
+              data-testid={`button-remove-list-item-${item.id}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      ))}
+    </>
+  );
+}
+
+interface ListsOverviewProps {
+  onOpenList: (listId: string) => void;
+}
+
+// The "Lists" sidebar tab when no list is open
+export function ListsOverview({ onOpenList }: ListsOverviewProps) {
+  const { user } = useAuth();
+  const { lists, isLoading } = useLists();
+
+  if (!user) {
+    return (
+      <div className="text-center py-8 px-4 space-y-3">
+        <List className="h-12 w-12 mx-auto text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">
+          Sign in to build and share lists of landmarks
+        </p>
+        <Button asChild size="sm" variant="outline">
+          <Link href="/login">Sign in</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <NewListForm onCreated={(list) => onOpenList(list.id)} />
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : lists.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8 px-4">
+          Create a list to collect landmarks around a theme
+        </p>
+      ) : (
+        lists.map((list) => (
+          <button
+            key={list.id}
+            onClick={() => onOpenList(list.id)}
+            className="w-full text-left p-3 rounded-lg hover-elevate active-elevate-2 border bg-card transition-all"
+            data-testid={`button-list-${list.id}`}
+          >
+            <h3 className="font-medium text-sm flex items-center gap-2">
+              <span className="truncate">{list.name}</span>
+              {list.shareToken && (
+                <Link2 className="h-3 w-3 shrink-0 text-muted-foreground" aria-label="Shared" />
+              )}
+            </h3>
+            {list.description && (
+              <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
+                {list.description}
+              </p>
+            )}
+          </button>
+        ))
+      )}
+    </>
+  );
+}
+
+interface OwnedListViewProps {
+  listId: string;
+  onBack: () => void;
+  onSelectItem: (item: LandmarkListItem) => void;
+}
+
+// An open list the user can reorder, prune, share and delete
+export function OwnedListView({ listId, onBack, onSelectItem }: OwnedListViewProps) {
+  const {
+    data,
+    isLoading,
+    error,
+    deleteMutation,
+    removeItemMutation,
+    reorderMutation,
+    shareMutation,
+  } = useList(listId);
+  const { toast } = useToast();
+
+  const onError = (title: string) => (mutationError: Error) =>
+    toast({
+      title,
+      description: getApiErrorMessage(mutationError),
+      variant: "destructive",
+    });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="space-y-3 py-4 text-center">
+        <p className="text-sm text-muted-foreground">This list couldn't be loaded</p>
+        <Button size="sm" variant="outline" onClick={onBack}>
+          Back to lists
+        </Button>
+      </div>
+    );
+  }
+
+  const { list, items } = data;
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const ids = items.map((item) => item.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderMutation.mutate(ids, { onError: onError("Couldn't reorder list") });
+  };
+
+  const copyShareLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(token));
+      toast({ title: "Share link copied" });
+    } catch {
+      toast({ title: "Share link", description: getShareUrl(token) });
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-start gap-2">
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-8 w-8 shrink-0"
+          onClick={onBack}
+          aria-label="Back to lists"
+          data-testid="button-back-to-lists"
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold line-clamp-2" data-testid="text-list-name">
+            {list.name}
+          </h3>
+          {list.description && (
+            <p className="text-xs text-muted-foreground mt-1">{list.description}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        {list.shareToken ? (
+          <>
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex-1 gap-2"
+              onClick={() => copyShareLink(list.shareToken!)}
+              data-testid="button-copy-share-link"
+            >
+              <Copy className="h-4 w-4" />
+              Copy link
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="gap-2"
+              disabled={shareMutation.isPending}
+              onClick={() =>
+                shareMutation.mutate(false, { onError: onError("Couldn't stop sharing") })
+              }
+              aria-label="Stop sharing"
+              data-testid="button-unshare-list"
+            >
+              <Link2Off className="h-4 w-4" />
+            </Button>
+          </>
+        ) : (
+          <Button
+            size="sm"
+            variant="outline"
+            className="flex-1 gap-2"
+            disabled={shareMutation.isPending}
+            onClick={() =>
+              shareMutation.mutate(true, {
+                onSuccess: (shared) => shared.shareToken && copyShareLink(shared.shareToken),
+                onError: onError("Couldn't share list"),
+              })
+            }
+            data-testid="button-share-list"
+          >
+            <Link2 className="h-4 w-4" />
+            Share
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={deleteMutation.isPending}
+          onClick={() => {
+            if (window.confirm(`Delete "${list.name}"?`)) {
+              deleteMutation.mutate(undefined, {
+                onSuccess: onBack,
+                onError: onError("Couldn't delete list"),
+              });
+            }
+          }}
+          aria-label="Delete list"
+          data-testid="button-delete-list"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <ListItemRows
+        items={items}
+        onSelect={onSelectItem}
+        onMove={handleMove}
+        onRemove={(item) =>
+          removeItemMutation.mutate(item.id, { onError: onError("Couldn't remove landmark") })
+        }
+      />
+    </>
+  );
+}
+
+interface SharedListViewProps {
+  shared: SharedLandmarkList;
+  onExit: () => void;
+  onSelectItem: (item: LandmarkListItem) => void;
+}
+
+// A list opened through its share link, read-only
+export function SharedListView({ shared, onExit, onSelectItem }: SharedListViewProps) {
+  return (
+    <>
+      <div className="flex items-start gap-2">
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-8 w-8 shrink-0"
+          onClick={onExit}
+          aria-label="Close shared list"
+          data-testid="button-close-shared-list"
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold line-clamp-2" data-testid="text-list-name">
+            {shared.list.name}
+          </h3>
+          {shared.list.description && (
+            <p className="text-xs text-muted-foreground mt-1">{shared.list.description}</p>
+          )}
+          <p className="text-xs text-muted-foreground mt-1">Shared list (read-only)</p>
+        </div>
+      </div>
+      <ListItemRows items={shared.items} onSelect={onSelectItem} />
+    </>
+  );
+}
+
+interface ListsPanelProps {
+  // Set while a share link is open, which takes over the tab
+  shareToken?: string;
+  openListId: string | null;
+  onOpenList: (listId: string | null) => void;
+  onExitShared: () => void;
+  onSelectItem: (item: LandmarkListItem) => void;
+}
+
+// The "Lists" sidebar tab: the user's lists, the open one, or a shared list
+export function ListsPanel({
+  shareToken,
+  openListId,
+  onOpenList,
+  onExitShared,
+  onSelectItem,
+}: ListsPanelProps) {
+  const { data: shared, error } = useSharedList(shareToken);
+
+  if (shareToken) {
+    if (shared) {
+      return (
+        <SharedListView shared={shared} onExit={onExitShared} onSelectItem={onSelectItem} />
+      );
+    }
+    if (error) {
+      return (
+        <div className="space-y-3 py-4 text-center">
+          <p className="text-sm text-muted-foreground">
+            This list doesn't exist or is no longer shared
+          </p>
+          <Button size="sm" variant="outline" onClick={onExitShared}>
+            Back to the map
+          </Button>
+        </div>
+      );
+    }
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (openListId) {
+    return (
+      <OwnedListView
+        listId={openListId}
+        onBack={() => onOpenList(null)}
+        onSelectItem={onSelectItem}
+      />
+    );
+  }
+
+  return <ListsOverview onOpenList={onOpenList} />;
+}
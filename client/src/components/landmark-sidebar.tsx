@@ -0,0 +1,345 @@
+import type { ReactNode } from "react";
+import { MapPin, Loader2, Info, AlertCircle } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CategoryFilter } from "@/components/category-filter";
+import { ExportMenu, type ExportSource } from "@/components/export-menu";
+import { NoteSearch } from "@/components/note-search";
+import { SavedLandmarkList } from "@/components/saved-landmark-list";
+import { TagFilter } from "@/components/tag-filter";
+import type { TagCount } from "@/hooks/use-notes";
+import { CATEGORY_META, getCategory } from "@/lib/categories";
+import { isCustomLandmark, landmarkKey } from "@/lib/landmarks";
+import { getPackDetails } from "@/lib/region-packs";
+import {
+  MAX_DETAILS_BATCH,
+  type Landmark,
+  type LandmarkCategory,
+  type LandmarkDetail,
+  type LandmarkNote,
+  type SavedLandmark,
+} from "@shared/schema";
+
+export type SidebarTab = "nearby" | "saved" | "lists" | "tour" | "layers";
+
+interface LandmarkListSidebarProps {
+  tab: SidebarTab;
+  onTabChange: (tab: SidebarTab) => void;
+  // Lists overview, or the open (or shared) list
+  listsPanel: ReactNode;
+  tourPanel: ReactNode;
+  overlayPanel: ReactNode;
+  // Landmarks the Export menu saves for the current tab
+  exportSource: ExportSource | null;
+  landmarks: Landmark[];
+  complete: boolean;
+  lang: string;
+  categoryCounts: Partial<Record<LandmarkCategory, number>>;
+  hiddenCategories: LandmarkCategory[];
+  onHiddenCategoriesChange: (hidden: LandmarkCategory[]) => void;
+  tags: TagCount[];
+  selectedTags: string[];
+  onSelectedTagsChange: (tags: string[]) => void;
+  onSelectLandmark: (landmark: Landmark) => void;
+  onSelectSaved: (saved: SavedLandmark) => void;
+  onSelectNote: (note: LandmarkNote) => void;
+  isLoading: boolean;
+  error: Error | null;
+  onRetry: () => void;
+}
+
+interface NearbyLandmarkListProps {
+  landmarks: Landmark[];
+  lang: string;
+  // Shown when no landmarks are left to list
+  emptyMessage: string;
+  onSelect: (landmark: Landmark) => void;
+  isLoading: boolean;
+  error: Error | null;
+  onRetry: () => void;
+}
+
+// The "Nearby" sidebar tab: the landmarks in view, nearest first
+function NearbyLandmarkList({
+  landmarks,
+  lang,
+  emptyMessage,
+  onSelect,
+  isLoading,
+  error,
+  onRetry,
+}: NearbyLandmarkListProps) {
+  // Thumbnails and first sentences for the nearest landmarks in one request
+  const summaryIds = landmarks
+    .filter((landmark) => !isCustomLandmark(landmark))
+    .slice(0, MAX_DETAILS_BATCH)
+    .map((landmark) => landmark.pageid);
+  const summaryLang = landmarks[0]?.lang ?? lang;
+  const { data: summaries } = useQuery<LandmarkDetail[]>({
+    queryKey: ["/api/landmarks/details", summaryIds, summaryLang],
+    queryFn: async () => {
+      let response: Response;
+      try {
+        response = await fetch(
+          `/api/landmarks/details?ids=${summaryIds.join("|")}&lang=${summaryLang}`
+        );
+      } catch {
+        return getPackDetails(summaryIds, summaryLang);
+      }
+      if (!response.ok) {
+        throw new Error(
+          `Failed to fetch landmark summaries: ${response.statusText}`
+        );
+      }
+      return response.json();
+    },
+    enabled: summaryIds.length > 0,
+    staleTime: 5 * 60 * 1000, // Cache for 5 minutes
+  });
+  const summaryById = new Map(
+    (summaries || []).map((summary) => [summary.pageid, summary])
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription className="space-y-2">
+          <p>Failed to load landmarks</p>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={onRetry}
+            className="w-full"
+            data-testid="button-retry-landmarks"
+          >
+            Retry
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (landmarks.length === 0) {
+    return (
+      <div className="text-center py-8 px-4">
+        <Info className="h-12 w-12 mx-auto mb-3 text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">{emptyMessage}</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {landmarks.map((landmark) => {
+        const isCustom = isCustomLandmark(landmark);
+        const summary = isCustom
+          ? undefined
+          : summaryById.get(landmark.pageid);
+        return (
+          <button
+            key={landmarkKey(landmark)}
+            onClick={() => onSelect(landmark)}
+            className="w-full text-left p-3 rounded-lg hover-elevate active-elevate-2 border bg-card transition-all"
+            data-testid={`button-landmark-${landmark.pageid}`}
+          >
+            <div className="flex items-start gap-2">
+              {summary?.thumbnail ? (
+                <img
+                  src={summary.thumbnail.source}
+                  alt=""
+                  loading="lazy"
+                  className="h-12 w-12 rounded-md object-cover shrink-0"
+                  data-testid={`img-landmark-thumbnail-${landmark.pageid}`}
+                />
+              ) : (
+                <img
+                  src={CATEGORY_META[getCategory(landmark)].iconUrl}
+                  alt=""
+                  className="h-5 w-4 mt-0.5 shrink-0"
+                />
+              )}
+              <div className="flex-1 min-w-0">
+                <h3 className="font-medium text-sm line-clamp-2">
+                  {landmark.title}
+                </h3>
+                {isCustom && (
+                  <Badge variant="secondary" className="mt-1 text-[10px]">
+                    Your place
+                  </Badge>
+                )}
+                {summary?.extract && (
+                  <p
+                    className="text-xs text-muted-foreground mt-1 line-clamp-2"
+                    data-testid={`text-landmark-summary-${landmark.pageid}`}
+                  >
+                    {summary.extract}
+                  </p>
+                )}
+                {landmark.dist !== undefined && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {landmark.dist < 1000
+                      ? `${Math.round(landmark.dist)}m away`
+                      : `${(landmark.dist / 1000).toFixed(1)}km away`}
+                  </p>
+                )}
+              </div>
+            </div>
+          </button>
+        );
+      })}
+    </>
+  );
+}
+
+export function LandmarkListSidebar({
+  tab,
+  onTabChange,
+  listsPanel,
+  tourPanel,
+  overlayPanel,
+  exportSource,
+  landmarks,
+  complete,
+  lang,
+  categoryCounts,
+  hiddenCategories,
+  onHiddenCategoriesChange,
+  tags,
+  selectedTags,
+  onSelectedTagsChange,
+  onSelectLandmark,
+  onSelectSaved,
+  onSelectNote,
+  isLoading,
+  error,
+  onRetry,
+}: LandmarkListSidebarProps) {
+  return (
+    <div className="hidden lg:block fixed left-0 top-0 bottom-0 w-80 z-[1000]">
+      <Tabs
+        value={tab}
+        onValueChange={(value) => onTabChange(value as SidebarTab)}
+        className="h-full"
+      >
+        <Card className="h-full rounded-none border-r">
+          <CardHeader className="border-b">
+            <CardTitle className="text-xl font-semibold flex items-center gap-2">
+              <MapPin className="h-5 w-5 text-primary" />
+              Local Landmarks
+            </CardTitle>
+            <div className="flex items-center">
+              <a
+                href="https://getmihir.vercel.app/"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="italic underline ml-6 text-xs"
+                aria-label="Created by - Mihir Das (opens in new tab)"
+              >
+                Created by - Mihir Das
+              </a>
+              <div className="ml-auto">
+                <ExportMenu source={exportSource} />
+              </div>
+            </div>
+
+            <TabsList className="grid w-full grid-cols-5">
+              <TabsTrigger value="nearby" className="px-1 text-xs" data-testid="tab-nearby">
+                Nearby
+              </TabsTrigger>
+              <TabsTrigger value="saved" className="px-1 text-xs" data-testid="tab-saved">
+                Saved
+              </TabsTrigger>
+              <TabsTrigger value="lists" className="px-1 text-xs" data-testid="tab-lists">
+                Lists
+              </TabsTrigger>
+              <TabsTrigger value="tour" className="px-1 text-xs" data-testid="tab-tour">
+                Tour
+              </TabsTrigger>
+              <TabsTrigger value="layers" className="px-1 text-xs" data-testid="tab-layers">
+                Layers
+              </TabsTrigger>
+            </TabsList>
+
+            {tab === "nearby" && (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  {isLoading
+                    ? "Loading..."
+                    : error
+                    ? "Error loading landmarks"
+                    : `${landmarks.length} landmarks visible`}
+                </p>
+                {!isLoading && !error && !complete && (
+                  <p
+                    className="text-xs text-muted-foreground"
+                    data-testid="text-results-truncated"
+                  >
+                    This area has more landmarks than can be loaded at once. Zoom
+                    in to see them all.
+                  </p>
+                )}
+                <CategoryFilter
+                  counts={categoryCounts}
+                  hidden={hiddenCategories}
+                  onChange={onHiddenCategoriesChange}
+                />
+                <TagFilter
+                  tags={tags}
+                  selected={selectedTags}
+                  onChange={onSelectedTagsChange}
+                />
+              </>
+            )}
+          </CardHeader>
+          <ScrollArea className="h-[calc(100%-5rem)]">
+            <TabsContent value="saved" className="mt-0 p-4 space-y-2">
+              <NoteSearch onSelect={onSelectNote}>
+                <SavedLandmarkList onSelect={onSelectSaved} />
+              </NoteSearch>
+            </TabsContent>
+            <TabsContent value="lists" className="mt-0 p-4 space-y-2">
+              {listsPanel}
+            </TabsContent>
+            <TabsContent value="tour" className="mt-0 p-4 space-y-2">
+              {tourPanel}
+            </TabsContent>
+            <TabsContent value="layers" className="mt-0 p-4 space-y-2">
+              {overlayPanel}
+            </TabsContent>
+            <TabsContent value="nearby" className="mt-0 p-4 space-y-2">
+              <NearbyLandmarkList
+                landmarks={landmarks}
+                lang={lang}
+                emptyMessage={
+                  selectedTags.length > 0
+                    ? "None of your tagged landmarks are here"
+                    : Object.keys(categoryCounts).length > 0
+                    ? "All landmarks here are hidden by the category filter"
+                    : "Move the map to discover landmarks in different areas"
+                }
+                onSelect={onSelectLandmark}
+                isLoading={isLoading}
+                error={error}
+                onRetry={onRetry}
+              />
+            </TabsContent>
+          </ScrollArea>
+        </Card>
+      </Tabs>
+    </div>
+  );
+}
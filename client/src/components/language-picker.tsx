@@ -0,0 +1,40 @@
+import { Languages } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LANGUAGES } from "@/lib/languages";
+
+interface LanguagePickerProps {
+  value: string;
+  onChange: (lang: string) => void;
+}
+
+export function LanguagePicker({ value, onChange }: LanguagePickerProps) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger
+        className="h-8 w-auto gap-2"
+        aria-label="Wikipedia language"
+        data-testid="select-language"
+      >
+        <Languages className="h-4 w-4 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="z-[1100]">
+        {LANGUAGES.map((language) => (
+          <SelectItem
+            key={language.code}
+            value={language.code}
+            data-testid={`option-language-${language.code}`}
+          >
+            {language.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,50 @@
+import { useState } from "react";
+import { ChevronDown, ChevronUp, Layers } from "lucide-react";
+import type { LandmarkCategory } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { CategoryFilter } from "@/components/category-filter";
+
+interface MapLegendProps {
+  counts: Partial<Record<LandmarkCategory, number>>;
+  hidden: LandmarkCategory[];
+  onChange: (hidden: LandmarkCategory[]) => void;
+}
+
+// Collapsible marker legend floating over the map. Used on small screens
+// where the sidebar with its category filter is hidden.
+export function MapLegend({ counts, hidden, onChange }: MapLegendProps) {
+  const [open, setOpen] = useState(false);
+
+  if (Object.keys(counts).length === 0) return null;
+
+  return (
+    <div className="absolute bottom-28 left-4 z-[1000] max-w-[calc(100%-6rem)] lg:hidden">
+      <Card className="shadow-lg">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setOpen(!open)}
+          className="w-full justify-between gap-2"
+          aria-expanded={open}
+          data-testid="button-toggle-legend"
+        >
+          <span className="flex items-center gap-2">
+            <Layers className="h-4 w-4" />
+            Legend
+          </span>
+          {open ? (
+            <ChevronDown className="h-4 w-4" />
+          ) : (
+            <ChevronUp className="h-4 w-4" />
+          )}
+        </Button>
+        {open && (
+          <div className="p-2 pt-0">
+            <CategoryFilter counts={counts} hidden={hidden} onChange={onChange} />
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
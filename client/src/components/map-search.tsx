@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, Navigation } from "lucide-react";
+import type { Landmark, Place } from "@shared/schema";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { getCategory, getMarkerIcon } from "@/lib/categories";
+
+const MIN_QUERY_LENGTH = 2;
+
+interface MapSearchProps {
+  lang: string;
+  onSelectPlace: (place: Place) => void;
+  onSelectLandmark: (landmark: Landmark) => void;
+}
+
+// Header search box: "Go to place" geocoding results and geotagged
+// landmarks matching the name, in one list
+export function MapSearch({
+  lang,
+  onSelectPlace,
+  onSelectLandmark,
+}: MapSearchProps) {
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const debouncedQuery = useDebouncedValue(query.trim(), 300);
+  const enabled = debouncedQuery.length >= MIN_QUERY_LENGTH;
+
+  const placesQuery = useQuery<{ places: Place[] }>({
+    queryKey: ["/api/geocode", debouncedQuery, lang],
+    queryFn: async () => {
+      const response = await fetch(
+        `/api/geocode?q=${encodeURIComponent(debouncedQuery)}&lang=${lang}`
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to find places: ${response.statusText}`);
+      }
+      return response.json();
+    },
+    enabled,
+    staleTime: 5 * 60 * 1000, // Cache for 5 minutes
+  });
+
+  const landmarksQuery = useQuery<{ landmarks: Landmark[] }>({
+    queryKey: ["/api/landmarks/lookup", debouncedQuery, lang],
+    queryFn: async () => {
+      const response = await fetch(
+        `/api/landmarks/lookup?q=${encodeURIComponent(debouncedQuery)}&lang=${lang}`
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to look up landmarks: ${response.statusText}`);
+      }
+      return response.json();
+    },
+    enabled,
+    staleTime: 5 * 60 * 1000, // Cache for 5 minutes
+  });
+
+  const places = placesQuery.data?.places || [];
+  const landmarks = landmarksQuery.data?.landmarks || [];
+  const isFetching = placesQuery.isFetching || landmarksQuery.isFetching;
+  const failed = !!placesQuery.error && !!landmarksQuery.error;
+
+  const close = () => {
+    setQuery("");
+    setOpen(false);
+  };
+
+  return (
+    <Command
+      shouldFilter={false}
+      className="relative h-auto overflow-visible rounded-md border bg-background"
+    >
+      <CommandInput
+        value={query}
+        onValueChange={(value) => {
+          setQuery(value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        placeholder="Go to a place or landmark..."
+        className="h-9 py-2"
+        data-testid="input-map-search"
+      />
+      {open && enabled && (
+        <CommandList
+          // Keep focus in the input so clicking a result doesn't close the list first
+          onMouseDown={(event) => event.preventDefault()}
+          className="absolute left-0 right-0 top-full z-[1100] mt-1 rounded-md border bg-popover shadow-md"
+        >
+          {isFetching && places.length === 0 && landmarks.length === 0 ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <CommandEmpty>
+              {failed ? "Search failed, try again" : "No places or landmarks found"}
+            </CommandEmpty>
+          )}
+          {places.length > 0 && (
+            <CommandGroup heading="Places">
+              {places.map((place, index) => (
+                <CommandItem
+                  key={`place-${index}`}
+                  value={`place-${index}`}
+                  onSelect={() => {
+                    onSelectPlace(place);
+                    close();
+                  }}
+                  data-testid={`option-place-${index}`}
+                >
+                  <Navigation className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <span className="line-clamp-1" title={place.displayName}>
+                    {place.displayName}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+          {landmarks.length > 0 && (
+            <CommandGroup heading="Landmarks">
+              {landmarks.map((landmark) => (
+                <CommandItem
+                  key={landmark.pageid}
+                  value={`landmark-${landmark.pageid}`}
+                  onSelect={() => {
+                    onSelectLandmark(landmark);
+                    close();
+                  }}
+                  data-testid={`option-landmark-${landmark.pageid}`}
+                >
+                  <img
+                    src={getMarkerIcon(getCategory(landmark)).options.iconUrl}
+                    alt=""
+                    className="h-5 w-4 shrink-0"
+                  />
+                  <span className="line-clamp-1">{landmark.title}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+        </CommandList>
+      )}
+    </Command>
+  );
+}
@@ -0,0 +1,193 @@
+import type { ReactNode } from "react";
+import { cn } from "@/lib/utils";
+
+// A small Markdown subset for user notes: headings, paragraphs, lists,
+// quotes, code, emphasis and links. Everything is rendered as React
+// elements rather than HTML, so notes can't inject markup or scripts.
+
+const INLINE_PATTERN =
+  /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|\*(.+?)\*|(?<!\w)_(.+?)_(?!\w)|\[([^\]]+)\]\(([^)\s]+)\)/;
+
+// Only links that can't run script when clicked
+function safeHref(url: string): string | undefined {
+  try {
+    const parsed = new URL(url);
+    return ["http:", "https:", "mailto:"].includes(parsed.protocol) ? parsed.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function renderInline(text: string, keyPrefix: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let rest = text;
+  let index = 0;
+
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest);
+    if (!match) {
+      nodes.push(rest);
+      break;
+    }
+    if (match.index > 0) {
+      nodes.push(rest.slice(0, match.index));
+    }
+
+    const key = `${keyPrefix}-${index++}`;
+    const [, code, strong, strongAlt, em, emAlt, linkText, linkUrl] = match;
+    if (code !== undefined) {
+      nodes.push(
+        <code key={key} className="rounded bg-muted px-1 py-0.5 font-mono text-xs">
+          {code}
+        </code>
+      );
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push(<strong key={key}>{renderInline(strong ?? strongAlt, key)}</strong>);
+    } else if (em !== undefined || emAlt !== undefined) {
+      nodes.push(<em key={key}>{renderInline(em ?? emAlt, key)}</em>);
+    } else {
+      const href = safeHref(linkUrl);
+      nodes.push(
+        href ? (
+          <a
+            key={key}
+            href={href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="underline"
+          >
+            {renderInline(linkText, key)}
+          </a>
+        ) : (
+          linkText
+        )
+      );
+    }
+
+    rest = rest.slice(match.index + match[0].length);
+  }
+
+  return nodes;
+}
+
+// Lines within a paragraph keep their breaks, as notes are usually jotted
+// down line by line
+function renderLines(lines: string[], keyPrefix: string): ReactNode[] {
+  return lines.flatMap((line, index) => [
+    ...(index > 0 ? [<br key={`${keyPrefix}-br-${index}`} />] : []),
+    ...renderInline(line, `${keyPrefix}-${index}`),
+  ]);
+}
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const UNORDERED_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const FENCE = /^```/;
+const RULE = /^(?:-{3,}|\*{3,}|_{3,})\s*$/;
+
+function renderBlocks(source: string): ReactNode[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: ReactNode[] = [];
+  let i = 0;
+
+  const collect = (pattern: RegExp) => {
+    const items: string[] = [];
+    while (i < lines.length) {
+      const match = pattern.exec(lines[i]);
+      if (!match) break;
+      items.push(match[1]);
+      i++;
+    }
+    return items;
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = `block-${i}`;
+
+    if (!line.trim()) {
+      i++;
+    } else if (FENCE.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) {
+        code.push(lines[i++]);
+      }
+      i++;
+      blocks.push(
+        <pre key={key} className="overflow-x-auto rounded-md bg-muted p-2 font-mono text-xs">
+          {code.join("\n")}
+        </pre>
+      );
+    } else if (HEADING.test(line)) {
+      const [, hashes, text] = HEADING.exec(line)!;
+      blocks.push(
+        <p
+          key={key}
+          role="heading"
+          aria-level={hashes.length + 2}
+          className={cn("font-semibold", hashes.length === 1 && "text-base")}
+        >
+          {renderInline(text, key)}
+        </p>
+      );
+      i++;
+    } else if (RULE.test(line)) {
+      blocks.push(<hr key={key} className="border-border" />);
+      i++;
+    } else if (UNORDERED_ITEM.test(line)) {
+      const items = collect(UNORDERED_ITEM);
+      blocks.push(
+        <ul key={key} className="list-disc space-y-1 pl-5">
+          {items.map((item, index) => (
+            <li key={index}>{renderInline(item, `${key}-${index}`)}</li>
+          ))}
+        </ul>
+      );
+    } else if (ORDERED_ITEM.test(line)) {
+      const items = collect(ORDERED_ITEM);
+      blocks.push(
+        <ol key={key} className="list-decimal space-y-1 pl-5">
+          {items.map((item, index) => (
+            <li key={index}>{renderInline(item, `${key}-${index}`)}</li>
+          ))}
+        </ol>
+      );
+    } else if (QUOTE.test(line)) {
+      const quoted = collect(QUOTE);
+      blocks.push(
+        <blockquote key={key} className="border-l-2 pl-3 text-muted-foreground">
+          {renderLines(quoted, key)}
+        </blockquote>
+      );
+    } else {
+      const paragraph: string[] = [];
+      while (
+        i < lines.length &&
+        lines[i].trim() &&
+        ![FENCE, HEADING, RULE, UNORDERED_ITEM, ORDERED_ITEM, QUOTE].some((pattern) =>
+          pattern.test(lines[i])
+        )
+      ) {
+        paragraph.push(lines[i++]);
+      }
+      blocks.push(<p key={key}>{renderLines(paragraph, key)}</p>);
+    }
+  }
+
+  return blocks;
+}
+
+interface MarkdownProps {
+  source: string;
+  className?: string;
+}
+
+export function Markdown({ source, className }: MarkdownProps) {
+  return (
+    <div className={cn("space-y-2 text-sm leading-relaxed break-words", className)}>
+      {renderBlocks(source)}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState, type FormEvent } from "react";
+import { Loader2, Plus } from "lucide-react";
+import type { LandmarkList } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useLists } from "@/hooks/use-lists";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/queryClient";
+
+interface NewListFormProps {
+  onCreated?: (list: LandmarkList) => void;
+}
+
+export function NewListForm({ onCreated }: NewListFormProps) {
+  const [name, setName] = useState("");
+  const { createMutation } = useLists();
+  const { toast } = useToast();
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+    createMutation.mutate(
+      { name: name.trim() },
+      {
+        onSuccess: (list) => {
+          setName("");
+          onCreated?.(list);
+        },
+        onError: (error) =>
+          toast({
+            title: "Couldn't create list",
+            description: getApiErrorMessage(error),
+            variant: "destructive",
+          }),
+      }
+    );
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex gap-2">
+      <Input
+        value={name}
+        onChange={(event) => setName(event.target.value)}
+        placeholder="New list name"
+        maxLength={100}
+        className="h-8"
+        aria-label="New list name"
+        data-testid="input-new-list"
+      />
+      <Button
+        type="submit"
+        size="sm"
+        className="h-8 shrink-0"
+        disabled={!name.trim() || createMutation.isPending}
+        aria-label="Create list"
+        data-testid="button-create-list"
+      >
+        {createMutation.isPending ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <Plus className="h-4 w-4" />
+        )}
+      </Button>
+    </form>
+  );
+}
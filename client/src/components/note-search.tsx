@@ -0,0 +1,69 @@
+import { useState, type ReactNode } from "react";
+import { Loader2, Search } from "lucide-react";
+import type { LandmarkNote } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/use-auth";
+import { useNoteSearch } from "@/hooks/use-notes";
+
+interface NoteSearchProps {
+  onSelect: (note: LandmarkNote) => void;
+  // Shown while the search box is empty
+  children: ReactNode;
+}
+
+// Search box over the user's notes; results replace the children
+export function NoteSearch({ onSelect, children }: NoteSearchProps) {
+  const { user } = useAuth();
+  const [query, setQuery] = useState("");
+  const { data: results = [], isLoading } = useNoteSearch(query);
+
+  if (!user) {
+    return <>{children}</>;
+  }
+
+  return (
+    <>
+      <div className="relative">
+        <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          type="search"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Search your notes"
+          className="pl-8"
+          data-testid="input-note-search"
+        />
+      </div>
+      {!query.trim() ? (
+        children
+      ) : isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : results.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          No notes match "{query.trim()}"
+        </p>
+      ) : (
+        results.map((note) => (
+          <button
+            key={note.id}
+            onClick={() => onSelect(note)}
+            className="w-full text-left p-3 rounded-lg hover-elevate active-elevate-2 border bg-card transition-all"
+            data-testid={`button-note-${note.pageid}`}
+          >
+            <h3 className="font-medium text-sm line-clamp-2">{note.title}</h3>
+            {note.body && (
+              <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{note.body}</p>
+            )}
+            {note.tags.length > 0 && (
+              <p className="text-xs text-muted-foreground mt-1">
+                {note.tags.map((tag) => `#${tag}`).join(" ")}
+              </p>
+            )}
+          </button>
+        ))
+      )}
+    </>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { Loader2, NotebookPen, Pencil, Tag } from "lucide-react";
+import { MAX_NOTE_TAGS } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Markdown } from "@/components/markdown";
+import { useAuth } from "@/hooks/use-auth";
+import { useNotes } from "@/hooks/use-notes";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/queryClient";
+
+interface NoteSectionProps {
+  pageid: number;
+  lang: string;
+}
+
+// Tags are typed comma-separated; the server lowercases and dedups them
+function parseTags(input: string): string[] {
+  return input
+    .split(",")
+    .map((tag) => tag.trim().replace(/^#/, ""))
+    .filter(Boolean);
+}
+
+// The signed-in user's private note and tags on this landmark
+export function NoteSection({ pageid, lang }: NoteSectionProps) {
+  const { user } = useAuth();
+  const { noteFor, saveMutation } = useNotes();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState(false);
+  const [body, setBody] = useState("");
+  const [tagInput, setTagInput] = useState("");
+
+  if (!user) {
+    return null;
+  }
+
+  const note = noteFor(pageid, lang);
+
+  const startEditing = () => {
+    setBody(note?.body ?? "");
+    setTagInput(note?.tags.join(", ") ?? "");
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      await saveMutation.mutateAsync({ pageid, lang, body, tags: parseTags(tagInput) });
+      setEditing(false);
+    } catch (error) {
+      toast({
+        title: "Couldn't save note",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (editing) {
+    return (
+      <div className="space-y-2" data-testid="form-note">
+        <h3 className="text-sm font-medium">Your note</h3>
+        <Textarea
+          value={body}
+          onChange={(event) => setBody(event.target.value)}
+          placeholder="Write a private note. Markdown is supported."
+          maxLength={10000}
+          rows={6}
+          autoFocus
+          data-testid="input-note-body"
+        />
+        <div className="relative">
+          <Tag className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={tagInput}
+            onChange={(event) => setTagInput(event.target.value)}
+            placeholder={`Tags, comma separated (up to ${MAX_NOTE_TAGS})`}
+            className="pl-8"
+            data-testid="input-note-tags"
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Only you can see notes. Clear both fields to remove the note.
+        </p>
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setEditing(false)}
+            data-testid="button-cancel-note"
+          >
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            className="gap-2"
+            onClick={handleSave}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-note"
+          >
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+            Save note
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!note) {
+    return (
+      <Button
+        variant="outline"
+        className="w-full gap-2"
+        onClick={startEditing}
+        data-testid="button-add-note"
+      >
+        <NotebookPen className="h-4 w-4" />
+        Add a note
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-2" data-testid="section-note">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-medium">Your note</h3>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-6 w-6"
+          onClick={startEditing}
+          aria-label="Edit note"
+          data-testid="button-edit-note"
+        >
+          <Pencil className="h-3 w-3" />
+        </Button>
+      </div>
+      {note.body.trim() && <Markdown source={note.body} />}
+      {note.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1" data-testid="list-note-tags">
+          {note.tags.map((tag) => (
+            <Badge key={tag} variant="secondary" className="text-xs">
+              #{tag}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import { useRef } from "react";
+import { GeoJSON } from "react-leaflet";
+import { CloudUpload, Eye, EyeOff, FileUp, Layers, Loader2, Trash2, X } from "lucide-react";
+import type { FeatureCollection } from "geojson";
+import type { OverlayFeature } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  OVERLAY_FILE_TYPES,
+  getFeatureLabel,
+  getOverlayColor,
+  type MapOverlay,
+} from "@/lib/overlays";
+import L from "leaflet";
+
+// Features listed per layer in the sidebar; all of them are drawn
+const MAX_LISTED_FEATURES = 100;
+
+// Name and description as text; descriptions come from arbitrary files
+function featurePopup(feature: OverlayFeature): HTMLElement {
+  const content = document.createElement("div");
+  content.className = "text-sm";
+  const title = document.createElement("h3");
+  title.className = "font-semibold mb-1";
+  title.textContent = getFeatureLabel(feature);
+  content.append(title);
+  if (feature.properties.description) {
+    const description = document.createElement("p");
+    description.className = "text-xs text-muted-foreground whitespace-pre-line line-clamp-6";
+    description.textContent = feature.properties.description;
+    content.append(description);
+  }
+  return content;
+}
+
+interface OverlayLayerProps {
+  overlay: MapOverlay;
+  color: string;
+}
+
+// An imported overlay drawn on the map: points as dots, lines and areas in
+// the layer's colour. Rendered inside MapContainer.
+export function OverlayLayer({ overlay, color }: OverlayLayerProps) {
+  const data: FeatureCollection = { type: "FeatureCollection", features: overlay.features };
+
+  return (
+    <GeoJSON
+      // Leaflet doesn't restyle existing layers, so remount on changes
+      key={`${overlay.id}:${color}`}
+      data={data}
+      style={{ color, weight: 3, opacity: 0.9, fillOpacity: 0.15 }}
+      pointToLayer={(_feature, latlng) =>
+        L.circleMarker(latlng, {
+          radius: 6,
+          color: "#fff",
+          weight: 2,
+          fillColor: color,
+          fillOpacity: 1,
+        })
+      }
+      onEachFeature={(feature, layer) =>
+        layer.bindPopup(featurePopup(feature as OverlayFeature))
+      }
+    />
+  );
+}
+
+interface OverlayPanelProps {
+  overlays: MapOverlay[];
+  hidden: string[];
+  onHiddenChange: (hidden: string[]) => void;
+  // Signed in, so imported layers can be saved to the account
+  canSave: boolean;
+  savingId: string | null;
+  isImporting: boolean;
+  onImport: (files: File[]) => void;
+  onSave: (overlay: MapOverlay) => void;
+  onRemove: (overlay: MapOverlay) => void;
+  onSelectFeature: (feature: OverlayFeature) => void;
+}
+
+// The sidebar "Layers" tab: imported files and the features in them
+export function OverlayPanel({
+  overlays,
+  hidden,
+  onHiddenChange,
+  canSave,
+  savingId,
+  isImporting,
+  onImport,
+  onSave,
+  onRemove,
+  onSelectFeature,
+}: OverlayPanelProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const importButton = (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={OVERLAY_FILE_TYPES}
+        multiple
+        className="hidden"
+        onChange={(event) => {
+          onImport(Array.from(event.target.files ?? []));
+          event.target.value = "";
+        }}
+        data-testid="input-import-overlay"
+      />
+      <Button
+        variant="outline"
+        className="w-full gap-2"
+        disabled={isImporting}
+        onClick={() => inputRef.current?.click()}
+        data-testid="button-import-overlay"
+      >
+        {isImporting ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <FileUp className="h-4 w-4" />
+        )}
+        Import files
+      </Button>
+    </>
+  );
+
+  if (overlays.length === 0) {
+    return (
+      <div className="space-y-3 py-4">
+        <div className="text-center px-2">
+          <Layers className="h-12 w-12 mx-auto mb-3 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">
+            Drop GeoJSON, GPX or KML files on the map to show your own points,
+            routes and areas next to the landmarks
+          </p>
+        </div>
+        {importButton}
+      </div>
+    );
+  }
+
+  const toggleHidden = (id: string) =>
+    onHiddenChange(
+      hidden.includes(id) ? hidden.filter((other) => other !== id) : [...hidden, id]
+    );
+
+  return (
+    <div className="space-y-4" data-testid="panel-overlays">
+      {importButton}
+      {!canSave && overlays.some((overlay) => !overlay.saved) && (
+        <p className="text-xs text-muted-foreground">
+          Imported layers last until you leave the page. Sign in to keep them.
+        </p>
+      )}
+
+      {overlays.map((overlay, index) => {
+        const isHidden = hidden.includes(overlay.id);
+        return (
+          <div
+            key={overlay.id}
+            className="space-y-1"
+            data-testid={`overlay-${overlay.id}`}
+          >
+            <div className="flex items-center gap-2">
+              <span
+                className="h-3 w-3 rounded-full shrink-0"
+                style={{ backgroundColor: getOverlayColor(index) }}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-sm truncate">{overlay.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {overlay.features.length}{" "}
+                  {overlay.features.length === 1 ? "feature" : "features"} ·{" "}
+                  {overlay.format.toUpperCase()}
+                  {overlay.saved && " · saved"}
+                </p>
+              </div>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7 shrink-0"
+                onClick={() => toggleHidden(overlay.id)}
+                aria-label={isHidden ? `Show ${overlay.name}` : `Hide ${overlay.name}`}
+                aria-pressed={!isHidden}
+                data-testid={`button-toggle-overlay-${overlay.id}`}
+              >
+                {isHidden ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+              </Button>
+              {!overlay.saved && canSave && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7 shrink-0"
+                  disabled={savingId !== null}
+                  onClick={() => onSave(overlay)}
+                  aria-label={`Save ${overlay.name} to your account`}
+                  data-testid={`button-save-overlay-${overlay.id}`}
+                >
+                  {savingId === overlay.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <CloudUpload className="h-4 w-4" />
+                  )}
+                </Button>
+              )}
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7 shrink-0"
+                onClick={() => onRemove(overlay)}
+                aria-label={overlay.saved ? `Delete ${overlay.name}` : `Remove ${overlay.name}`}
+                data-testid={`button-remove-overlay-${overlay.id}`}
+              >
+                {overlay.saved ? <Trash2 className="h-4 w-4" /> : <X className="h-4 w-4" />}
+              </Button>
+            </div>
+
+            {!isHidden && (
+              <ul className="pl-5 space-y-0.5">
+                {overlay.features.slice(0, MAX_LISTED_FEATURES).map((feature, featureIndex) => (
+                  <li key={featureIndex}>
+                    <button
+                      onClick={() => onSelectFeature(feature)}
+                      className="w-full text-left text-xs px-2 py-1 rounded-md hover-elevate truncate"
+                      data-testid={`button-overlay-feature-${overlay.id}-${featureIndex}`}
+                    >
+                      {getFeatureLabel(feature)}
+                    </button>
+                  </li>
+                ))}
+                {overlay.features.length > MAX_LISTED_FEATURES && (
+                  <li className="text-xs text-muted-foreground px-2 py-1">
+                    and {overlay.features.length - MAX_LISTED_FEATURES} more on the map
+                  </li>
+                )}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
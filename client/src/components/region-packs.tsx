@@ -0,0 +1,475 @@
+import { useEffect, useRef, useState } from "react";
+import { Link } from "wouter";
+import { Rectangle, TileLayer, useMap, useMapEvents, type TileLayerProps } from "react-leaflet";
+import {
+  HardDriveDownload,
+  Loader2,
+  MapPinned,
+  RefreshCw,
+  SquareDashed,
+  Trash2,
+} from "lucide-react";
+import {
+  MAX_PACK_TILES,
+  MAX_PACK_ZOOM,
+  type RegionPackRequest,
+  type RegionPackStage,
+  type TileSource,
+} from "@shared/schema";
+import { countTiles } from "@shared/tiles";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useRegionPacks } from "@/hooks/use-region-packs";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/queryClient";
+import { getPackTile, type PackProgress, type RegionPack } from "@/lib/region-packs";
+import L from "leaflet";
+
+export interface PackArea {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+const STAGE_LABELS: Record<RegionPackStage | "download", string> = {
+  landmarks: "Finding landmarks",
+  details: "Fetching summaries",
+  thumbnails: "Fetching photos",
+  tiles: "Fetching map tiles",
+  download: "Saving to this device",
+};
+
+const ZOOM_LEVELS = Array.from({ length: MAX_PACK_ZOOM + 1 }, (_, zoom) => zoom);
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024
+    ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function clampZoom(zoom: number): number {
+  return Math.max(0, Math.min(MAX_PACK_ZOOM, Math.round(zoom)));
+}
+
+// The base map, falling back to tiles from region packs on this device
+// when a tile can't be loaded. Rendered inside MapContainer.
+export function PackTileLayer({ layer, ...props }: TileLayerProps & { layer: string }) {
+  return (
+    <TileLayer
+      {...props}
+      eventHandlers={{
+        tileerror: async ({ tile, coords }: L.TileErrorEvent) => {
+          // Once per tile, in case the stored copy fails too
+          if (tile.dataset.fromPack) return;
+          tile.dataset.fromPack = "true";
+          const blob = await getPackTile(coords, layer).catch(() => undefined);
+          if (!blob) return;
+          const url = URL.createObjectURL(blob);
+          tile.addEventListener("load", () => URL.revokeObjectURL(url), { once: true });
+          tile.src = url;
+        },
+      }}
+    />
+  );
+}
+
+interface AreaDrawControllerProps {
+  active: boolean;
+  // Shown on the map until cleared
+  area: PackArea | null;
+  onDraw: (area: PackArea) => void;
+}
+
+// While active, dragging on the map draws the area for a region pack
+// instead of panning. Rendered inside MapContainer.
+export function AreaDrawController({ active, area, onDraw }: AreaDrawControllerProps) {
+  const map = useMap();
+  const startRef = useRef<L.LatLng | null>(null);
+  const [draft, setDraft] = useState<L.LatLngBounds | null>(null);
+
+  useMapEvents({
+    mousedown: (event) => {
+      if (!active) return;
+      startRef.current = event.latlng;
+      setDraft(L.latLngBounds(event.latlng, event.latlng));
+    },
+    mousemove: (event) => {
+      if (!startRef.current) return;
+      setDraft(L.latLngBounds(startRef.current, event.latlng));
+    },
+    mouseup: (event) => {
+      if (!startRef.current) return;
+      const bounds = L.latLngBounds(startRef.current, event.latlng);
+      startRef.current = null;
+      setDraft(null);
+      // A click rather than a drag
+      if (bounds.getNorth() === bounds.getSouth() || bounds.getEast() === bounds.getWest()) {
+        return;
+      }
+      onDraw({
+        south: Math.max(-90, bounds.getSouth()),
+        west: Math.max(-180, bounds.getWest()),
+        north: Math.min(90, bounds.getNorth()),
+        east: Math.min(180, bounds.getEast()),
+      });
+    },
+  });
+
+  useEffect(() => {
+    if (!active) return;
+    map.dragging.disable();
+    const container = map.getContainer();
+    container.classList.add("landmark-placing");
+    return () => {
+      map.dragging.enable();
+      container.classList.remove("landmark-placing");
+      startRef.current = null;
+      setDraft(null);
+    };
+  }, [map, active]);
+
+  const shown = draft ?? (area && L.latLngBounds([area.south, area.west], [area.north, area.east]));
+  if (!shown) return null;
+  return (
+    <Rectangle
+      bounds={shown}
+      pathOptions={{ color: "hsl(217, 91%, 60%)", weight: 2, dashArray: "6 6", fillOpacity: 0.08 }}
+      interactive={false}
+    />
+  );
+}
+
+function ProgressView({
+  progress,
+  onCancel,
+}: {
+  progress: PackProgress | null;
+  onCancel: () => void;
+}) {
+  const percent = progress && progress.total > 0 ? (progress.done / progress.total) * 100 : 0;
+  return (
+    <div className="space-y-2" data-testid="region-pack-progress">
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className="flex items-center gap-2">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          {progress ? STAGE_LABELS[progress.stage] : "Starting"}
+        </span>
+        {progress && progress.total > 1 && (
+          <span className="text-muted-foreground">
+            {progress.done} / {progress.total}
+          </span>
+        )}
+      </div>
+      <Progress value={percent} className="h-2" />
+      <Button
+        size="sm"
+        variant="outline"
+        className="w-full"
+        onClick={onCancel}
+        data-testid="button-cancel-region-pack"
+      >
+        Cancel
+      </Button>
+    </div>
+  );
+}
+
+interface RegionPacksMenuProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The area in view, and one drawn on the map, if any
+  viewArea: PackArea | null;
+  drawnArea: PackArea | null;
+  zoom: number;
+  lang: string;
+  // The base map in view, whose tiles new packs get if it allows
+  baseMap: TileSource;
+  onDrawArea: () => void;
+  onClearArea: () => void;
+  onShowPack: (pack: RegionPack) => void;
+}
+
+// Header menu for region packs: download the area in view or a drawn one
+// for offline use, and list, update or delete the packs on this device
+export function RegionPacksMenu({
+  open,
+  onOpenChange,
+  viewArea,
+  drawnArea,
+  zoom,
+  lang,
+  baseMap,
+  onDrawArea,
+  onClearArea,
+  onShowPack,
+}: RegionPacksMenuProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { packs, progress, downloadMutation, deleteMutation, cancelDownload } =
+    useRegionPacks();
+  const [name, setName] = useState("");
+  const [minZoom, setMinZoom] = useState(() => clampZoom(zoom - 2));
+  const [maxZoom, setMaxZoom] = useState(() => clampZoom(zoom + 2));
+
+  // Start from the current zoom each time the menu opens
+  useEffect(() => {
+    if (!open) return;
+    setMinZoom(clampZoom(zoom - 2));
+    setMaxZoom(clampZoom(zoom + 2));
+  }, [open]);
+
+  const area = drawnArea ?? viewArea;
+  // Base maps that forbid bulk downloads give packs no tiles, so the zoom
+  // range is moot; the current zoom alone keeps the request within bounds
+  const zoomRange = baseMap.allowBulk
+    ? { minZoom, maxZoom: Math.max(minZoom, maxZoom) }
+    : { minZoom: clampZoom(zoom), maxZoom: clampZoom(zoom) };
+  const tileCount = area && baseMap.allowBulk
+    ? countTiles(area, zoomRange.minZoom, zoomRange.maxZoom)
+    : 0;
+  const tooLarge = tileCount > MAX_PACK_TILES;
+  const busy = downloadMutation.isPending;
+
+  const download = (request: RegionPackRequest, id?: string) =>
+    downloadMutation.mutate(
+      { request, id },
+      {
+        onSuccess: (pack) => {
+          setName("");
+          onClearArea();
+          toast({
+            title: id ? "Region pack updated" : "Region pack saved",
+            description: `${pack.name}: ${pack.landmarkCount} landmarks, ${formatSize(pack.size)}`,
+          });
+        },
+        onError: (error) => {
+          if (error instanceof DOMException && error.name === "AbortError") return;
+          toast({
+            title: "Couldn't download region pack",
+            description: getApiErrorMessage(error),
+            variant: "destructive",
+          });
+        },
+      },
+    );
+
+  const handleDownload = () => {
+    if (!area) return;
+    download({
+      name: name.trim() || `Region pack ${packs.length + 1}`,
+      ...area,
+      ...zoomRange,
+      lang,
+      layer: baseMap.id,
+    });
+  };
+
+  const handleDelete = (pack: RegionPack) => {
+    if (!window.confirm(`Delete "${pack.name}" from this device?`)) return;
+    deleteMutation.mutate(pack.id, {
+      onError: (error) =>
+        toast({
+          title: "Couldn't delete region pack",
+          description: getApiErrorMessage(error),
+          variant: "destructive",
+        }),
+    });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={onOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          size="icon"
+          variant="outline"
+          className="h-8 w-8 shrink-0"
+          aria-label="Region packs for offline use"
+          data-testid="button-region-packs"
+        >
+          {busy ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <HardDriveDownload className="h-4 w-4" />
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="z-[1100] w-80 space-y-4">
+        <div>
+          <h3 className="font-semibold text-sm">Region packs</h3>
+          <p className="text-xs text-muted-foreground">
+            Landmarks, summaries, photos and map tiles for an area, kept on
+            this device for use without a connection
+          </p>
+        </div>
+
+        {!user ? (
+          <p className="text-xs text-muted-foreground">
+            <Link href="/login" className="underline">
+              Sign in
+            </Link>{" "}
+            to download region packs
+          </p>
+        ) : busy ? (
+          <ProgressView progress={progress} onCancel={cancelDownload} />
+        ) : (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant={drawnArea ? "outline" : "secondary"}
+                className="flex-1"
+                onClick={onClearArea}
+                data-testid="button-region-pack-view"
+              >
+                Area in view
+              </Button>
+              <Button
+                size="sm"
+                variant={drawnArea ? "secondary" : "outline"}
+                className="flex-1 gap-1"
+                onClick={onDrawArea}
+                data-testid="button-region-pack-draw"
+              >
+                <SquareDashed className="h-4 w-4" />
+                Draw area
+              </Button>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="region-pack-name" className="text-xs">
+                Name
+              </Label>
+              <Input
+                id="region-pack-name"
+                value={name}
+                maxLength={100}
+                placeholder={`Region pack ${packs.length + 1}`}
+                onChange={(event) => setName(event.target.value)}
+                className="h-8"
+                data-testid="input-region-pack-name"
+              />
+            </div>
+            <div className="flex items-end gap-2">
+              {(
+                [
+                  ["Zoom from", minZoom, setMinZoom],
+                  ["to", maxZoom, setMaxZoom],
+                ] as const
+              ).map(([label, value, onChange]) => (
+                <div key={label} className="flex-1 space-y-1">
+                  <Label className="text-xs">{label}</Label>
+                  <Select
+                    value={String(value)}
+                    onValueChange={(zoomLevel) => onChange(Number(zoomLevel))}
+                    disabled={!baseMap.allowBulk}
+                  >
+                    <SelectTrigger
+                      className="h-8"
+                      aria-label={label === "to" ? "Highest zoom" : "Lowest zoom"}
+                      data-testid={`select-region-pack-${label === "to" ? "max" : "min"}-zoom`}
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="z-[1100]">
+                      {ZOOM_LEVELS.map((zoomLevel) => (
+                        <SelectItem key={zoomLevel} value={String(zoomLevel)}>
+                          {zoomLevel}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <p
+              className={`text-xs ${tooLarge ? "text-destructive" : "text-muted-foreground"}`}
+              data-testid="text-region-pack-estimate"
+            >
+              {!area
+                ? "Move the map to load an area first"
+                : tooLarge
+                ? `${tileCount} map tiles; at most ${MAX_PACK_TILES}. Pick a smaller area or fewer zoom levels.`
+                : !baseMap.allowBulk
+                ? `The ${baseMap.name} base map doesn't allow bulk downloads; the pack will have landmarks only`
+                : `${tileCount} map tiles`}
+            </p>
+            <Button
+              className="w-full gap-2"
+              disabled={!area || tooLarge}
+              onClick={handleDownload}
+              data-testid="button-download-region-pack"
+            >
+              <HardDriveDownload className="h-4 w-4" />
+              Download
+            </Button>
+          </div>
+        )}
+
+        {packs.length > 0 && (
+          <ul className="space-y-2 border-t pt-3" data-testid="list-region-packs">
+            {packs.map((pack) => (
+              <li
+                key={pack.id}
+                className="flex items-center gap-2"
+                data-testid={`region-pack-${pack.id}`}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{pack.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {pack.landmarkCount} landmarks · {formatSize(pack.size)} ·{" "}
+                    {new Date(pack.updatedAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7 shrink-0"
+                  onClick={() => onShowPack(pack)}
+                  aria-label={`Show ${pack.name} on the map`}
+                  data-testid={`button-show-region-pack-${pack.id}`}
+                >
+                  <MapPinned className="h-4 w-4" />
+                </Button>
+                {user && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 shrink-0"
+                    disabled={busy}
+                    onClick={() => download({ ...pack.request, name: pack.name }, pack.id)}
+                    aria-label={`Update ${pack.name}`}
+                    data-testid={`button-update-region-pack-${pack.id}`}
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7 shrink-0"
+                  disabled={busy}
+                  onClick={() => handleDelete(pack)}
+                  aria-label={`Delete ${pack.name}`}
+                  data-testid={`button-delete-region-pack-${pack.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,89 @@
+import { Link } from "wouter";
+import { Loader2, Star } from "lucide-react";
+import type { SavedLandmark } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { useFavorites } from "@/hooks/use-favorites";
+import { CATEGORY_META, getCategory } from "@/lib/categories";
+
+interface SavedLandmarkListProps {
+  onSelect: (saved: SavedLandmark) => void;
+}
+
+// The "Saved" sidebar tab, rendered from the detail snapshots stored with
+// each favorite so it works anywhere on the map
+export function SavedLandmarkList({ onSelect }: SavedLandmarkListProps) {
+  const { user } = useAuth();
+  const { favorites, isLoading } = useFavorites();
+
+  if (!user) {
+    return (
+      <div className="text-center py-8 px-4 space-y-3">
+        <Star className="h-12 w-12 mx-auto text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">
+          Sign in to save landmarks and find them here later
+        </p>
+        <Button asChild size="sm" variant="outline" data-testid="button-saved-sign-in">
+          <Link href="/login">Sign in</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (favorites.length === 0) {
+    return (
+      <div className="text-center py-8 px-4">
+        <Star className="h-12 w-12 mx-auto mb-3 text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">
+          Landmarks you save appear here
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {favorites.map((saved) => (
+        <button
+          key={saved.id}
+          onClick={() => onSelect(saved)}
+          className="w-full text-left p-3 rounded-lg hover-elevate active-elevate-2 border bg-card transition-all"
+          data-testid={`button-saved-${saved.pageid}`}
+        >
+          <div className="flex items-start gap-2">
+            {saved.detail?.thumbnail ? (
+              <img
+                src={saved.detail.thumbnail.source}
+                alt=""
+                loading="lazy"
+                className="h-12 w-12 rounded-md object-cover shrink-0"
+              />
+            ) : (
+              <img
+                src={CATEGORY_META[saved.detail ? getCategory(saved.detail) : "other"].iconUrl}
+                alt=""
+                className="h-5 w-4 mt-0.5 shrink-0"
+              />
+            )}
+            <div className="flex-1 min-w-0">
+              <h3 className="font-medium text-sm line-clamp-2">{saved.title}</h3>
+              {saved.detail?.extract && (
+                <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
+                  {saved.detail.extract}
+                </p>
+              )}
+            </div>
+          </div>
+        </button>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,40 @@
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { TagCount } from "@/hooks/use-notes";
+
+interface TagFilterProps {
+  tags: TagCount[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+// Chips for the tags on the user's notes. Unlike categories nothing is
+// filtered until a tag is picked; then only landmarks whose note has one of
+// the picked tags are shown.
+export function TagFilter({ tags, selected, onChange }: TagFilterProps) {
+  if (tags.length === 0) return null;
+
+  return (
+    <ToggleGroup
+      type="multiple"
+      value={selected}
+      onValueChange={onChange}
+      className="flex-wrap justify-start"
+      aria-label="Filter landmarks by note tag"
+      data-testid="filter-tags"
+    >
+      {tags.map(({ tag, count }) => (
+        <ToggleGroupItem
+          key={tag}
+          value={tag}
+          size="sm"
+          variant="outline"
+          className="h-7 gap-1 px-2 text-xs"
+          data-testid={`toggle-tag-${tag}`}
+        >
+          #{tag}
+          <span className="text-muted-foreground">{count}</span>
+        </ToggleGroupItem>
+      ))}
+    </ToggleGroup>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { CheckCircle2, Footprints, Loader2, MapPinCheck, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { useVisits } from "@/hooks/use-visits";
+import { getCurrentPosition } from "@/lib/geolocation";
+import { getApiErrorMessage } from "@/lib/queryClient";
+
+interface VisitSectionProps {
+  pageid: number;
+  lang: string;
+}
+
+// "Mark visited" action and this landmark's entries from the visit log
+export function VisitSection({ pageid, lang }: VisitSectionProps) {
+  const { user } = useAuth();
+  const { policy, visitsFor, checkInMutation, deleteMutation } = useVisits();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [note, setNote] = useState("");
+  const [shareLocation, setShareLocation] = useState(false);
+  const [locating, setLocating] = useState(false);
+
+  if (!user) {
+    return null;
+  }
+
+  const requirePosition = policy?.requirePosition ?? false;
+  const withPosition = requirePosition || shareLocation;
+  const landmarkVisits = visitsFor(pageid, lang);
+
+  const handleCheckIn = async () => {
+    try {
+      let position;
+      if (withPosition) {
+        setLocating(true);
+        position = await getCurrentPosition().finally(() => setLocating(false));
+      }
+      await checkInMutation.mutateAsync({ pageid, lang, note: note || null, position });
+      setNote("");
+      setOpen(false);
+      toast({ title: "Marked as visited" });
+    } catch (error) {
+      toast({
+        title: "Couldn't check in",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const isPending = locating || checkInMutation.isPending;
+
+  return (
+    <div className="space-y-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className="w-full gap-2" data-testid="button-mark-visited">
+            <Footprints className="h-4 w-4" />
+            Mark visited
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="z-[1100] w-72 space-y-3" align="start">
+          <Textarea
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder="Add a note (optional)"
+            maxLength={1000}
+            rows={3}
+            data-testid="input-visit-note"
+          />
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="visit-use-location"
+              checked={withPosition}
+              disabled={requirePosition}
+              onCheckedChange={(checked) => setShareLocation(checked === true)}
+              data-testid="checkbox-visit-location"
+            />
+            <Label htmlFor="visit-use-location" className="text-sm font-normal">
+              {requirePosition
+                ? `Check in with my location (within ${policy?.maxDistance}m)`
+                : "Check in with my location"}
+            </Label>
+          </div>
+          <Button
+            className="w-full gap-2"
+            onClick={handleCheckIn}
+            disabled={isPending}
+            data-testid="button-confirm-visit"
+          >
+            {isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <MapPinCheck className="h-4 w-4" />
+            )}
+            {locating ? "Finding you..." : "Check in"}
+          </Button>
+        </PopoverContent>
+      </Popover>
+
+      {landmarkVisits.length > 0 && (
+        <div className="space-y-2" data-testid="list-visits">
+          <h3 className="text-sm font-medium">
+            Visited {landmarkVisits.length === 1 ? "once" : `${landmarkVisits.length} times`}
+          </h3>
+          {landmarkVisits.map((visit) => (
+            <div key={visit.id} className="flex items-start gap-2 text-sm">
+              <CheckCircle2
+                className={`h-4 w-4 mt-0.5 shrink-0 ${
+                  visit.verified ? "text-green-600" : "text-muted-foreground"
+                }`}
+                aria-label={visit.verified ? "Checked in on site" : "Marked visited"}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-xs text-muted-foreground">
+                  {new Date(visit.visitedAt).toLocaleString()}
+                  {visit.verified && " - checked in on site"}
+                </p>
+                {visit.note && <p className="whitespace-pre-wrap">{visit.note}</p>}
+              </div>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-6 w-6 shrink-0"
+                disabled={deleteMutation.isPending}
+                onClick={() => deleteMutation.mutate(visit.id)}
+                aria-label="Delete visit"
+                data-testid={`button-delete-visit-${visit.id}`}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import { CircleMarker, Marker, Polyline, Popup } from "react-leaflet";
+import { Clock, Footprints, Loader2, Locate, Route, X } from "lucide-react";
+import { MAX_TOUR_STOPS, type TourStop, type WalkingTour } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { landmarkKey } from "@/lib/landmarks";
+import {
+  TOUR_DWELL_MINUTES,
+  formatDistance,
+  formatDuration,
+  getTourStopIcon,
+  isTourPlan,
+} from "@/lib/tours";
+
+// Time budgets offered for planned itineraries, in minutes
+const TOUR_BUDGETS = [60, 120, 180, 240, 360];
+
+interface TourLayerProps {
+  tour: WalkingTour;
+  onSelectStop: (stop: TourStop) => void;
+}
+
+// The tour drawn on the map: the route as a line and a numbered marker per
+// stop. Rendered inside MapContainer.
+export function TourLayer({ tour, onSelectStop }: TourLayerProps) {
+  const path: [number, number][] = [
+    ...(tour.start ? [[tour.start.lat, tour.start.lon] as [number, number]] : []),
+    ...tour.stops.map((stop): [number, number] => [stop.lat, stop.lon]),
+  ];
+  if (isTourPlan(tour)) {
+    path.push([tour.end.lat, tour.end.lon]);
+  } else if (tour.returnLeg && path.length > 0) {
+    path.push(path[0]);
+  }
+
+  return (
+    <>
+      <Polyline
+        positions={path}
+        pathOptions={{ color: "hsl(217, 91%, 60%)", weight: 4, opacity: 0.8, dashArray: "8 8" }}
+      />
+      {tour.start && (
+        <CircleMarker
+          center={[tour.start.lat, tour.start.lon]}
+          radius={8}
+          pathOptions={{ color: "#fff", weight: 2, fillColor: "#16a34a", fillOpacity: 1 }}
+        >
+          <Popup>Start</Popup>
+        </CircleMarker>
+      )}
+      {tour.stops.map((stop, index) => (
+        <Marker
+          key={landmarkKey(stop)}
+          position={[stop.lat, stop.lon]}
+          icon={getTourStopIcon(index + 1)}
+          title={stop.title}
+          eventHandlers={{ click: () => onSelectStop(stop) }}
+        />
+      ))}
+    </>
+  );
+}
+
+interface TourPanelProps {
+  tour: WalkingTour | undefined;
+  // Landmarks a new tour would visit
+  candidateCount: number;
+  hasLocation: boolean;
+  roundTrip: boolean;
+  onRoundTripChange: (roundTrip: boolean) => void;
+  // Minutes available, or null to visit every landmark
+  budget: number | null;
+  onBudgetChange: (budget: number | null) => void;
+  isPending: boolean;
+  onPlan: () => void;
+  onLocate: () => void;
+  onClear: () => void;
+  onRemoveStop: (stop: TourStop) => void;
+  onSelectStop: (stop: TourStop) => void;
+}
+
+// The sidebar "Tour" tab: plan a walk through the landmarks in view and
+// follow it step by step
+export function TourPanel({
+  tour,
+  candidateCount,
+  hasLocation,
+  roundTrip,
+  onRoundTripChange,
+  budget,
+  onBudgetChange,
+  isPending,
+  onPlan,
+  onLocate,
+  onClear,
+  onRemoveStop,
+  onSelectStop,
+}: TourPanelProps) {
+  if (!tour) {
+    return (
+      <div className="space-y-3 py-4">
+        <div className="text-center px-2">
+          <Footprints className="h-12 w-12 mx-auto mb-3 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">
+            {candidateCount === 0
+              ? "Move the map to an area with landmarks to plan a walk"
+              : budget
+              ? "Plan the best walk through the landmarks in view that fits your time, favoring saved ones"
+              : `Plan a walking tour through the ${Math.min(candidateCount, MAX_TOUR_STOPS)} ${
+                  hasLocation ? "closest landmarks" : "landmarks in view"
+                }`}
+          </p>
+        </div>
+        <Select
+          value={budget ? String(budget) : "none"}
+          onValueChange={(value) => onBudgetChange(value === "none" ? null : Number(value))}
+        >
+          <SelectTrigger className="gap-2" aria-label="Time available" data-testid="select-tour-budget">
+            <Clock className="h-4 w-4 text-muted-foreground" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="z-[1100]">
+            <SelectItem value="none">Visit every landmark</SelectItem>
+            {TOUR_BUDGETS.map((minutes) => (
+              <SelectItem key={minutes} value={String(minutes)}>
+                {formatDuration(minutes * 60)} available
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {budget ? (
+          <p className="text-xs text-muted-foreground">
+            Allows {TOUR_DWELL_MINUTES} min at each stop and ends back at the start
+          </p>
+        ) : (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="tour-round-trip"
+              checked={roundTrip}
+              onCheckedChange={(checked) => onRoundTripChange(checked === true)}
+              data-testid="checkbox-tour-round-trip"
+            />
+            <Label htmlFor="tour-round-trip" className="text-sm font-normal">
+              Return to the start
+            </Label>
+          </div>
+        )}
+        <Button
+          className="w-full gap-2"
+          disabled={candidateCount === 0 || isPending}
+          onClick={onPlan}
+          data-testid="button-plan-tour"
+        >
+          {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Route className="h-4 w-4" />}
+          Plan walking tour
+        </Button>
+        {!hasLocation && (
+          <Button
+            variant="outline"
+            className="w-full gap-2"
+            onClick={onLocate}
+            data-testid="button-tour-locate"
+          >
+            <Locate className="h-4 w-4" />
+            Start from my location
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  const plan = isTourPlan(tour) ? tour : null;
+
+  return (
+    <div className="space-y-3" data-testid="panel-tour">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="font-medium text-sm" data-testid="text-tour-summary">
+            {tour.stops.length} stops · {formatDistance(tour.distance)} ·{" "}
+            {formatDuration(tour.duration)}
+            {plan && ` of ${formatDuration(plan.budget)}`}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {plan
+              ? `${formatDuration(plan.walkingDuration)} walking in straight lines${
+                  plan.skipped.length > 0
+                    ? `; ${plan.skipped.length} landmarks didn't fit`
+                    : ""
+                }`
+              : "Walking time in straight lines, without time at the stops"}
+          </p>
+        </div>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7 shrink-0"
+          onClick={onClear}
+          aria-label="Clear tour"
+          data-testid="button-clear-tour"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <ol className="space-y-2" data-testid="list-tour-steps">
+        {tour.start && (
+          <li className="flex items-center gap-2 text-sm text-muted-foreground">
+            <span className="flex h-6 w-6 items-center justify-center rounded-full bg-green-600 text-white text-xs shrink-0">
+              <Locate className="h-3 w-3" />
+            </span>
+            Start
+          </li>
+        )}
+        {tour.stops.map((stop, index) => (
+          <li key={landmarkKey(stop)} className="flex items-start gap-2">
+            <span className="flex h-6 w-6 items-center justify-center rounded-full bg-primary text-primary-foreground text-xs font-semibold shrink-0">
+              {index + 1}
+            </span>
+            <button
+              onClick={() => onSelectStop(stop)}
+              className="flex-1 min-w-0 text-left"
+              data-testid={`button-tour-stop-${stop.pageid}`}
+            >
+              <span className="block font-medium text-sm line-clamp-2">{stop.title}</span>
+              {(index > 0 || tour.start) && (
+                <span className="block text-xs text-muted-foreground">
+                  {formatDistance(stop.legDistance)} · {formatDuration(stop.legDuration)} walk
+                  {plan && ` · arrive after ${formatDuration(plan.stops[index].arrival)}`}
+                </span>
+              )}
+            </button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6 shrink-0"
+              disabled={isPending || tour.stops.length === 1}
+              onClick={() => onRemoveStop(stop)}
+              aria-label={`Remove ${stop.title} from the tour`}
+              data-testid={`button-remove-tour-stop-${stop.pageid}`}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </li>
+        ))}
+        {tour.returnLeg && (
+          <li className="text-xs text-muted-foreground pl-8">
+            {plan && (plan.end.lat !== plan.start.lat || plan.end.lon !== plan.start.lon)
+              ? "To the end"
+              : "Back to the start"}
+            : {formatDistance(tour.returnLeg.distance)} ·{" "}
+            {formatDuration(tour.returnLeg.duration)}
+          </li>
+        )}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_TILE_SOURCE, type TileSource } from "@shared/schema";
+import { useDarkTheme } from "@/hooks/use-dark-theme";
+import { useLocalStorage } from "@/hooks/use-local-storage";
+import { apiRequest } from "@/lib/queryClient";
+
+// Follow the app theme: the catalogue's first dark base map in the dark
+// theme, the default one otherwise
+export const AUTO_BASE_MAP = "auto";
+
+// Used until the catalogue loads, or when it can't be
+const FALLBACK_SOURCES: TileSource[] = [
+  {
+    id: DEFAULT_TILE_SOURCE,
+    name: "Standard",
+    url: `/tiles/${DEFAULT_TILE_SOURCE}/{z}/{x}/{y}.png`,
+    attribution:
+      '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    maxZoom: 19,
+    dark: false,
+    allowBulk: false,
+  },
+];
+
+function resolveBaseMap(sources: TileSource[], choice: string, dark: boolean): TileSource {
+  const chosen = sources.find((source) => source.id === choice);
+  if (chosen) {
+    return chosen;
+  }
+  const light =
+    sources.find((source) => source.id === DEFAULT_TILE_SOURCE) ??
+    sources.find((source) => !source.dark) ??
+    sources[0];
+  return (dark && sources.find((source) => source.dark)) || light;
+}
+
+// The server's base maps and the one to draw. The choice is kept on this
+// device; one the server no longer offers falls back to automatic.
+export function useBaseMap() {
+  const dark = useDarkTheme();
+  const [choice, setChoice] = useLocalStorage<string>("landmarks-base-map", AUTO_BASE_MAP);
+
+  const { data } = useQuery<TileSource[]>({
+    queryKey: ["/api/tile-sources"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/tile-sources");
+      return res.json();
+    },
+  });
+  const sources = data && data.length > 0 ? data : FALLBACK_SOURCES;
+
+  return {
+    sources,
+    choice: sources.some((source) => source.id === choice) ? choice : AUTO_BASE_MAP,
+    setChoice,
+    baseMap: resolveBaseMap(sources, choice, dark),
+  };
+}
@@ -0,0 +1,22 @@
+import { useEffect, useState } from "react";
+
+function isDark(): boolean {
+  return document.documentElement.classList.contains("dark");
+}
+
+// Whether the app is in its dark theme, which Tailwind keys off a `dark`
+// class on the root element; follows the class as it is toggled
+export function useDarkTheme(): boolean {
+  const [dark, setDark] = useState(isDark);
+
+  useEffect(() => {
+    const observer = new MutationObserver(() => setDark(isDark()));
+    observer.observe(document.documentElement, {
+      attributes: true,
+      attributeFilter: ["class"],
+    });
+    return () => observer.disconnect();
+  }, []);
+
+  return dark;
+}
@@ -0,0 +1,50 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { FavoriteRequest, SavedLandmark } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { landmarkKey } from "@/lib/landmarks";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// The signed-in user's saved landmarks; empty when signed out
+export function useFavorites() {
+  const { user } = useAuth();
+
+  const { data: favorites = [], isLoading } = useQuery<SavedLandmark[]>({
+    queryKey: ["/api/favorites", user?.id],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/favorites");
+      return res.json();
+    },
+    enabled: !!user,
+  });
+
+  const savedKeys = new Set(
+    favorites.map((favorite) => landmarkKey(favorite))
+  );
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: ["/api/favorites"] });
+
+  const saveMutation = useMutation({
+    mutationFn: async (request: FavoriteRequest) => {
+      const res = await apiRequest("POST", "/api/favorites", request);
+      return (await res.json()) as SavedLandmark;
+    },
+    onSuccess: invalidate,
+  });
+
+  const unsaveMutation = useMutation({
+    mutationFn: async ({ pageid, lang }: FavoriteRequest) => {
+      await apiRequest("DELETE", `/api/favorites/${pageid}?lang=${lang}`);
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    favorites: user ? favorites : [],
+    isLoading: !!user && isLoading,
+    isSaved: (pageid: number, lang: string) =>
+      !!user && savedKeys.has(landmarkKey({ pageid, lang })),
+    saveMutation,
+    unsaveMutation,
+  };
+}
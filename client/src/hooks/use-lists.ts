@@ -0,0 +1,138 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type {
+  LandmarkList,
+  LandmarkListItem,
+  LandmarkListWithItems,
+  ListItemRequest,
+  ListRequest,
+  ListUpdateRequest,
+  SharedLandmarkList,
+} from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// Every list query lives under this prefix so one invalidation covers the
+// overview and the open list
+const invalidateLists = () =>
+  queryClient.invalidateQueries({ queryKey: ["/api/lists"] });
+
+// The signed-in user's lists, most recently updated first
+export function useLists() {
+  const { user } = useAuth();
+
+  const { data: lists = [], isLoading } = useQuery<LandmarkList[]>({
+    queryKey: ["/api/lists", "all", user?.id],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/lists");
+      return res.json();
+    },
+    enabled: !!user,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (request: ListRequest) => {
+      const res = await apiRequest("POST", "/api/lists", request);
+      return (await res.json()) as LandmarkList;
+    },
+    onSuccess: invalidateLists,
+  });
+
+  const addItemMutation = useMutation({
+    mutationFn: async ({ listId, ...request }: ListItemRequest & { listId: string }) => {
+      const res = await apiRequest("POST", `/api/lists/${listId}/items`, request);
+      return (await res.json()) as LandmarkListItem;
+    },
+    onSuccess: invalidateLists,
+  });
+
+  return {
+    lists: user ? lists : [],
+    isLoading: !!user && isLoading,
+    createMutation,
+    addItemMutation,
+  };
+}
+
+// One of the user's lists with its items, plus the edits an owner can make
+export function useList(listId: string | null) {
+  const { user } = useAuth();
+
+  const query = useQuery<LandmarkListWithItems>({
+    queryKey: ["/api/lists", listId],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/lists/${listId}`);
+      return res.json();
+    },
+    enabled: !!user && !!listId,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (changes: ListUpdateRequest) => {
+      const res = await apiRequest("PATCH", `/api/lists/${listId}`, changes);
+      return (await res.json()) as LandmarkList;
+    },
+    onSuccess: invalidateLists,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/lists/${listId}`);
+    },
+    onSuccess: invalidateLists,
+  });
+
+  const removeItemMutation = useMutation({
+    mutationFn: async (itemId: string) => {
+      await apiRequest("DELETE", `/api/lists/${listId}/items/${itemId}`);
+    },
+    onSuccess: invalidateLists,
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (itemIds: string[]) => {
+      const res = await apiRequest("PUT", `/api/lists/${listId}/order`, { itemIds });
+      return (await res.json()) as LandmarkListItem[];
+    },
+    // Show the new order straight away rather than after the refetch
+    onMutate: (itemIds) => {
+      queryClient.setQueryData<LandmarkListWithItems>(["/api/lists", listId], (current) =>
+        current && {
+          ...current,
+          items: itemIds
+            .map((id) => current.items.find((item) => item.id === id))
+            .filter((item): item is LandmarkListItem => !!item),
+        }
+      );
+    },
+    onSettled: invalidateLists,
+  });
+
+  const shareMutation = useMutation({
+    mutationFn: async (shared: boolean) => {
+      const res = await apiRequest(shared ? "POST" : "DELETE", `/api/lists/${listId}/share`);
+      return (await res.json()) as LandmarkList;
+    },
+    onSuccess: invalidateLists,
+  });
+
+  return {
+    ...query,
+    updateMutation,
+    deleteMutation,
+    removeItemMutation,
+    reorderMutation,
+    shareMutation,
+  };
+}
+
+// A list opened through its share link; works without an account
+export function useSharedList(token: string | undefined) {
+  return useQuery<SharedLandmarkList>({
+    queryKey: ["/api/shared", token],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/shared/${token}`);
+      return res.json();
+    },
+    enabled: !!token,
+  });
+}
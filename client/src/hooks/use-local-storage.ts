@@ -0,0 +1,33 @@
+import { useCallback, useState } from "react";
+
+// useState that survives reloads by mirroring the value into localStorage
+export function useLocalStorage<T>(
+  key: string,
+  initialValue: T | (() => T)
+): [T, (value: T) => void] {
+  const [value, setValue] = useState<T>(() => {
+    try {
+      const stored = window.localStorage.getItem(key);
+      if (stored !== null) {
+        return JSON.parse(stored) as T;
+      }
+    } catch {
+      // Ignore unavailable storage or malformed values
+    }
+    return initialValue instanceof Function ? initialValue() : initialValue;
+  });
+
+  const setStoredValue = useCallback(
+    (newValue: T) => {
+      setValue(newValue);
+      try {
+        window.localStorage.setItem(key, JSON.stringify(newValue));
+      } catch {
+        // Private browsing or quota exceeded - keep the in-memory value
+      }
+    },
+    [key]
+  );
+
+  return [value, setStoredValue];
+}
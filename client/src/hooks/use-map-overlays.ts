@@ -0,0 +1,163 @@
+import { useCallback, useRef, useState, type DragEvent } from "react";
+import { MAX_OVERLAY_UPLOAD_SIZE } from "@shared/schema";
+import { useOverlays } from "@/hooks/use-overlays";
+import { useToast } from "@/hooks/use-toast";
+import { parseOverlayFile, savedToMapOverlay, type MapOverlay } from "@/lib/overlays";
+import { getApiErrorMessage } from "@/lib/queryClient";
+
+// Overlays from GeoJSON, GPX or KML files, dropped on the map or picked
+// in the Layers tab. They stay on this page unless saved to the account.
+// onImported is called with the overlays each import adds.
+export function useMapOverlays(onImported: (overlays: MapOverlay[]) => void) {
+  const { toast } = useToast();
+  const {
+    overlays: savedOverlays,
+    uploadMutation: overlayUploadMutation,
+    deleteMutation: overlayDeleteMutation,
+  } = useOverlays();
+  const [importedOverlays, setImportedOverlays] = useState<MapOverlay[]>([]);
+  const [hiddenOverlays, setHiddenOverlays] = useState<string[]>([]);
+  const [importingOverlays, setImportingOverlays] = useState(false);
+  const [savingOverlayId, setSavingOverlayId] = useState<string | null>(null);
+  const [draggingFiles, setDraggingFiles] = useState(false);
+  const dragDepthRef = useRef(0);
+  const mapOverlays = [...importedOverlays, ...savedOverlays.map(savedToMapOverlay)];
+
+  const handleImportFiles = useCallback(
+    async (files: File[]) => {
+      if (files.length === 0) return;
+      setImportingOverlays(true);
+      const results = await Promise.allSettled(files.map(parseOverlayFile));
+      setImportingOverlays(false);
+
+      const imported: MapOverlay[] = [];
+      for (const result of results) {
+        if (result.status === "fulfilled") {
+          imported.push(result.value);
+        } else {
+          toast({
+            title: "Couldn't import file",
+            description: getApiErrorMessage(result.reason),
+            variant: "destructive",
+          });
+        }
+      }
+      if (imported.length === 0) return;
+
+      setImportedOverlays((current) => [...imported, ...current]);
+      onImported(imported);
+    },
+    [toast, onImported]
+  );
+
+  const handleSaveOverlay = useCallback(
+    (overlay: MapOverlay) => {
+      const { name, format, features } = overlay;
+      // The server's body limit, checked here for a clearer message
+      if (new Blob([JSON.stringify({ name, format, features })]).size > MAX_OVERLAY_UPLOAD_SIZE) {
+        toast({
+          title: "Couldn't save layer",
+          description: `${name} is too large to save to your account`,
+          variant: "destructive",
+        });
+        return;
+      }
+      setSavingOverlayId(overlay.id);
+      overlayUploadMutation.mutate(
+        { name, format, features },
+        {
+          onSettled: () => setSavingOverlayId(null),
+          onSuccess: (saved) => {
+            setImportedOverlays((current) =>
+              current.filter((other) => other.id !== overlay.id)
+            );
+            setHiddenOverlays((current) =>
+              current.includes(overlay.id) ? [...current, saved.id] : current
+            );
+          },
+          onError: (saveError) =>
+            toast({
+              title: "Couldn't save layer",
+              description: getApiErrorMessage(saveError),
+              variant: "destructive",
+            }),
+        }
+      );
+    },
+    [overlayUploadMutation.mutate, toast]
+  );
+
+  const handleRemoveOverlay = useCallback(
+    (overlay: MapOverlay) => {
+      if (!overlay.saved) {
+        setImportedOverlays((current) =>
+          current.filter((other) => other.id !== overlay.id)
+        );
+        return;
+      }
+      if (!window.confirm(`Delete "${overlay.name}" from your account?`)) return;
+      overlayDeleteMutation.mutate(overlay.id, {
+        onError: (deleteError) =>
+          toast({
+            title: "Couldn't delete layer",
+            description: getApiErrorMessage(deleteError),
+            variant: "destructive",
+          }),
+      });
+    },
+    [overlayDeleteMutation.mutate, toast]
+  );
+
+  // Only drags that carry files; text and links dragged on the page don't
+  // open the drop target
+  const isFileDrag = (event: DragEvent) =>
+    Array.from(event.dataTransfer.types).includes("Files");
+
+  const handleDragEnter = (event: DragEvent) => {
+    if (!isFileDrag(event)) return;
+    event.preventDefault();
+    dragDepthRef.current++;
+    setDraggingFiles(true);
+  };
+
+  const handleDragOver = (event: DragEvent) => {
+    if (!isFileDrag(event)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "copy";
+  };
+
+  // Entering a child element leaves its parent, so count the depth
+  const handleDragLeave = (event: DragEvent) => {
+    if (!isFileDrag(event)) return;
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) {
+      setDraggingFiles(false);
+    }
+  };
+
+  const handleDrop = (event: DragEvent) => {
+    if (!isFileDrag(event)) return;
+    event.preventDefault();
+    dragDepthRef.current = 0;
+    setDraggingFiles(false);
+    handleImportFiles(Array.from(event.dataTransfer.files));
+  };
+
+  return {
+    overlays: mapOverlays,
+    hidden: hiddenOverlays,
+    setHidden: setHiddenOverlays,
+    savingId: savingOverlayId,
+    isImporting: importingOverlays,
+    importFiles: handleImportFiles,
+    saveOverlay: handleSaveOverlay,
+    removeOverlay: handleRemoveOverlay,
+    draggingFiles,
+    dropHandlers: {
+      onDragEnter: handleDragEnter,
+      onDragOver: handleDragOver,
+      onDragLeave: handleDragLeave,
+      onDrop: handleDrop,
+    },
+  };
+}
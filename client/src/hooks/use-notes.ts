@@ -0,0 +1,88 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { LandmarkDetailRequest, LandmarkNote, NoteRequest } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { landmarkKey } from "@/lib/landmarks";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+type SaveNoteRequest = LandmarkDetailRequest & Partial<NoteRequest>;
+
+// The signed-in user's notes and the tags used on them; empty when signed out
+export function useNotes() {
+  const { user } = useAuth();
+
+  const { data: notes = [], isLoading } = useQuery<LandmarkNote[]>({
+    queryKey: ["/api/notes", user?.id],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/notes");
+      return res.json();
+    },
+    enabled: !!user,
+  });
+
+  const userNotes = user ? notes : [];
+  const notesByKey = new Map(
+    userNotes.map((note) => [landmarkKey(note), note])
+  );
+
+  // Most used first
+  const tagCounts = new Map<string, number>();
+  for (const note of userNotes) {
+    for (const tag of note.tags) {
+      tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+    }
+  }
+  const tags: TagCount[] = Array.from(tagCounts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+
+  // Resolves to null when the note was emptied and so removed
+  const saveMutation = useMutation({
+    mutationFn: async ({ pageid, lang, ...note }: SaveNoteRequest) => {
+      const res = await apiRequest("PUT", `/api/notes/${pageid}?lang=${lang}`, note);
+      return res.status === 204 ? null : ((await res.json()) as LandmarkNote);
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async ({ pageid, lang }: LandmarkDetailRequest) => {
+      await apiRequest("DELETE", `/api/notes/${pageid}?lang=${lang}`);
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    notes: userNotes,
+    isLoading: !!user && isLoading,
+    tags,
+    noteFor: (pageid: number, lang: string) =>
+      notesByKey.get(landmarkKey({ pageid, lang })),
+    saveMutation,
+    deleteMutation,
+  };
+}
+
+// Full-text search over the signed-in user's notes, debounced while typing
+export function useNoteSearch(q: string) {
+  const { user } = useAuth();
+  const query = useDebouncedValue(q.trim(), 300);
+
+  return useQuery<LandmarkNote[]>({
+    queryKey: ["/api/notes", user?.id, query],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/notes?q=${encodeURIComponent(query)}`);
+      return res.json();
+    },
+    enabled: !!user && query.length > 0,
+    // Keep showing the last results while the next search runs
+    placeholderData: (previous) => previous,
+  });
+}
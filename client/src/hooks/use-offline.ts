@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+
+// Whether the app is running from cached data: the browser reports no
+// connection, or the service worker last answered an API request from its
+// cache because the network failed
+export function useOffline(): boolean {
+  const [offline, setOffline] = useState(() => !navigator.onLine);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === "network-status") {
+        setOffline(event.data.offline === true);
+      }
+    };
+    const handleOnline = () => setOffline(false);
+    const handleOffline = () => setOffline(true);
+
+    navigator.serviceWorker?.addEventListener("message", handleMessage);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      navigator.serviceWorker?.removeEventListener("message", handleMessage);
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
+
+  return offline;
+}
@@ -0,0 +1,43 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { Overlay, OverlayRequest } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// Overlays saved to the signed-in user's account; empty when signed out
+export function useOverlays() {
+  const { user } = useAuth();
+
+  const { data: overlays = [], isLoading } = useQuery<Overlay[]>({
+    queryKey: ["/api/overlays", user?.id],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/overlays");
+      return res.json();
+    },
+    enabled: !!user,
+  });
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: ["/api/overlays"] });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (overlay: OverlayRequest) => {
+      const res = await apiRequest("POST", "/api/overlays", overlay);
+      return (await res.json()) as Overlay;
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/overlays/${id}`);
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    overlays: user ? overlays : [],
+    isLoading: !!user && isLoading,
+    uploadMutation,
+    deleteMutation,
+  };
+}
@@ -0,0 +1,54 @@
+import { useCallback, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { RegionPackRequest } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import {
+  deleteRegionPack,
+  downloadRegionPack,
+  listRegionPacks,
+  type PackProgress,
+  type RegionPack,
+} from "@/lib/region-packs";
+
+// Region packs stored on this device, newest first. Downloading needs an
+// account (the server prepares the pack); listing and deleting don't.
+export function useRegionPacks() {
+  const { data: packs = [], isLoading } = useQuery<RegionPack[]>({
+    queryKey: ["region-packs"],
+    queryFn: listRegionPacks,
+  });
+
+  const [progress, setProgress] = useState<PackProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: ["region-packs"] });
+
+  // Pass an existing pack's id to update it with fresh contents
+  const downloadMutation = useMutation({
+    mutationFn: async ({ request, id }: { request: RegionPackRequest; id?: string }) => {
+      const controller = new AbortController();
+      abortRef.current = controller;
+      try {
+        return await downloadRegionPack(request, {
+          id,
+          signal: controller.signal,
+          onProgress: setProgress,
+        });
+      } finally {
+        abortRef.current = null;
+        setProgress(null);
+      }
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteRegionPack,
+    onSuccess: invalidate,
+  });
+
+  const cancelDownload = useCallback(() => abortRef.current?.abort(), []);
+
+  return { packs, isLoading, progress, downloadMutation, deleteMutation, cancelDownload };
+}
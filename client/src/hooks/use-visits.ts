@@ -0,0 +1,64 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { CheckInPolicy, CheckInRequest, Visit } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { landmarkKey } from "@/lib/landmarks";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// The signed-in user's visit log; empty when signed out
+export function useVisits() {
+  const { user } = useAuth();
+
+  const { data: visits = [], isLoading } = useQuery<Visit[]>({
+    queryKey: ["/api/visits", user?.id],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/visits");
+      return res.json();
+    },
+    enabled: !!user,
+  });
+
+  const { data: policy } = useQuery<CheckInPolicy>({
+    queryKey: ["/api/visits/policy"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/visits/policy");
+      return res.json();
+    },
+    enabled: !!user,
+  });
+
+  const visitedKeys = new Set(
+    visits.map((visit) => landmarkKey(visit))
+  );
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: ["/api/visits"] });
+
+  const checkInMutation = useMutation({
+    mutationFn: async (request: CheckInRequest) => {
+      const res = await apiRequest("POST", "/api/visits", request);
+      return (await res.json()) as Visit;
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/visits/${id}`);
+    },
+    onSuccess: invalidate,
+  });
+
+  const userVisits = user ? visits : [];
+
+  return {
+    visits: userVisits,
+    isLoading: !!user && isLoading,
+    policy,
+    isVisited: (pageid: number, lang: string) =>
+      !!user && visitedKeys.has(landmarkKey({ pageid, lang })),
+    visitsFor: (pageid: number, lang: string) =>
+      userVisits.filter((visit) => visit.pageid === pageid && visit.lang === lang),
+    checkInMutation,
+    deleteMutation,
+  };
+}
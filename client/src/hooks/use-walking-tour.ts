@@ -0,0 +1,142 @@
+import { useCallback, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import L from "leaflet";
+import {
+  MAX_PLAN_CANDIDATES,
+  MAX_TOUR_STOPS,
+  type Coordinates,
+  type Landmark,
+  type TourPlanRequest,
+  type TourStop,
+  type WalkingTour,
+  type WalkingTourRequest,
+} from "@shared/schema";
+import { useFavorites } from "@/hooks/use-favorites";
+import { useToast } from "@/hooks/use-toast";
+import { isCustomLandmark, landmarkKey } from "@/lib/landmarks";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { TOUR_DWELL_MINUTES, isTourPlan } from "@/lib/tours";
+
+interface WalkingTourOptions {
+  // The candidates, usually the landmarks in view
+  landmarks: Landmark[];
+  // The user's location, where the tour starts when known
+  location: Coordinates | null;
+  // Where to measure from otherwise, usually the map centre
+  center: Coordinates;
+  lang: string;
+}
+
+// Walking tour through the landmarks in view, starting from the user's
+// location when known. With a time budget the server picks the subset
+// that fits instead.
+export function useWalkingTour({ landmarks, location, center, lang }: WalkingTourOptions) {
+  const { toast } = useToast();
+  const { isSaved } = useFavorites();
+  const [tourRoundTrip, setTourRoundTrip] = useState(false);
+  const [tourBudget, setTourBudget] = useState<number | null>(null);
+  const tourMutation = useMutation({
+    mutationFn: async (request: WalkingTourRequest | TourPlanRequest) => {
+      const res = await apiRequest(
+        "POST",
+        "budgetMinutes" in request ? "/api/tours/plan" : "/api/tours/walking",
+        request
+      );
+      return (await res.json()) as WalkingTour;
+    },
+    onError: (tourError) =>
+      toast({
+        title: "Couldn't plan the tour",
+        description: getApiErrorMessage(tourError),
+        variant: "destructive",
+      }),
+  });
+  const tour = tourMutation.data;
+
+  const handlePlanTour = useCallback(() => {
+    const origin = location ?? center;
+    // The closest landmarks when there are more than a tour can take
+    const closest = landmarks
+      .map((landmark) => ({
+        landmark,
+        dist: L.latLng(origin.lat, origin.lon).distanceTo([landmark.lat, landmark.lon]),
+      }))
+      .sort((a, b) => a.dist - b.dist)
+      .map(({ landmark }) => landmark);
+
+    if (tourBudget) {
+      tourMutation.mutate({
+        landmarks: closest.slice(0, MAX_PLAN_CANDIDATES).map((landmark) => ({
+          ...landmark,
+          // Saved landmarks are worth a detour
+          priority:
+            !isCustomLandmark(landmark) &&
+            isSaved(landmark.pageid, landmark.lang ?? lang)
+              ? 3
+              : 1,
+        })),
+        start: origin,
+        budgetMinutes: tourBudget,
+        dwellMinutes: TOUR_DWELL_MINUTES,
+      });
+    } else {
+      tourMutation.mutate({
+        landmarks: closest.slice(0, MAX_TOUR_STOPS),
+        start: location ?? undefined,
+        roundTrip: tourRoundTrip,
+      });
+    }
+  }, [
+    landmarks,
+    location,
+    center,
+    tourBudget,
+    tourRoundTrip,
+    isSaved,
+    lang,
+    tourMutation.mutate,
+  ]);
+
+  // A planned itinerary is replanned from the request that produced it,
+  // keeping its end point, dwell times and budget; the time freed may go
+  // to landmarks it skipped
+  const planRequest = tourMutation.variables;
+  const handleRemoveTourStop = useCallback(
+    (stop: TourStop) => {
+      if (!tour) return;
+      const isOther = (other: Landmark) => landmarkKey(other) !== landmarkKey(stop);
+      if (isTourPlan(tour) && planRequest && "budgetMinutes" in planRequest) {
+        const candidates = planRequest.landmarks.filter(isOther);
+        if (candidates.length === 0) {
+          tourMutation.reset();
+          return;
+        }
+        tourMutation.mutate({ ...planRequest, landmarks: candidates });
+        return;
+      }
+      const stops = tour.stops.filter(isOther);
+      if (stops.length === 0) {
+        tourMutation.reset();
+        return;
+      }
+      tourMutation.mutate({
+        landmarks: stops,
+        start: tour.start ?? undefined,
+        roundTrip: !!tour.returnLeg,
+      });
+    },
+    [tour, planRequest, tourMutation.mutate, tourMutation.reset]
+  );
+
+  return {
+    tour,
+    roundTrip: tourRoundTrip,
+    setRoundTrip: setTourRoundTrip,
+    budget: tourBudget,
+    setBudget: setTourBudget,
+    isPending: tourMutation.isPending,
+    plan: handlePlanTour,
+    removeStop: handleRemoveTourStop,
+    clear: tourMutation.reset,
+  };
+}
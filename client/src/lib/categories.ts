@@ -0,0 +1,85 @@
+import L from "leaflet";
+import type { Landmark, LandmarkCategory } from "@shared/schema";
+import buildingIcon from "@/assets/markers/building.svg";
+import educationIcon from "@/assets/markers/education.svg";
+import historicIcon from "@/assets/markers/historic.svg";
+import monumentIcon from "@/assets/markers/monument.svg";
+import museumIcon from "@/assets/markers/museum.svg";
+import natureIcon from "@/assets/markers/nature.svg";
+import otherIcon from "@/assets/markers/other.svg";
+import parkIcon from "@/assets/markers/park.svg";
+import religiousIcon from "@/assets/markers/religious.svg";
+import transportIcon from "@/assets/markers/transport.svg";
+import venueIcon from "@/assets/markers/venue.svg";
+
+export const CATEGORY_META: Record<
+  LandmarkCategory,
+  { label: string; iconUrl: string }
+> = {
+  museum: { label: "Museums", iconUrl: museumIcon },
+  religious: { label: "Religious sites", iconUrl: religiousIcon },
+  park: { label: "Parks & gardens", iconUrl: parkIcon },
+  monument: { label: "Monuments", iconUrl: monumentIcon },
+  historic: { label: "Historic sites", iconUrl: historicIcon },
+  transport: { label: "Transport", iconUrl: transportIcon },
+  education: { label: "Education", iconUrl: educationIcon },
+  venue: { label: "Venues", iconUrl: venueIcon },
+  nature: { label: "Nature", iconUrl: natureIcon },
+  building: { label: "Buildings", iconUrl: buildingIcon },
+  other: { label: "Other", iconUrl: otherIcon },
+};
+
+// Landmarks the server couldn't classify are shown as "other"
+export function getCategory(landmark: Landmark): LandmarkCategory {
+  return landmark.category ?? "other";
+}
+
+// Per-user state drawn on top of the category pin
+export interface MarkerState {
+  saved?: boolean;
+  // Pin dropped by the user rather than a Wikipedia article
+  custom?: boolean;
+  visited?: boolean;
+}
+
+const markerIcons = new Map<string, L.Icon | L.DivIcon>();
+
+export function getMarkerIcon(
+  category: LandmarkCategory,
+  state: MarkerState = {}
+): L.Icon | L.DivIcon {
+  const key = [
+    category,
+    state.saved && "saved",
+    state.custom && "custom",
+    state.visited && "visited",
+  ].join(":");
+  let icon = markerIcons.get(key);
+  if (!icon) {
+    const iconUrl = CATEGORY_META[category].iconUrl;
+    const badges = [
+      state.custom &&
+        `<span class="landmark-marker-badge landmark-marker-custom">&#9998;</span>`,
+      state.saved &&
+        `<span class="landmark-marker-badge landmark-marker-saved">&#9733;</span>`,
+      state.visited &&
+        `<span class="landmark-marker-badge landmark-marker-visited">&#10003;</span>`,
+    ].filter(Boolean);
+    icon = badges.length > 0
+      ? L.divIcon({
+          className: "landmark-marker",
+          html: `<img src="${iconUrl}" width="32" height="44" alt="" />${badges.join("")}`,
+          iconSize: [32, 44],
+          iconAnchor: [16, 43],
+          popupAnchor: [0, -38],
+        })
+      : L.icon({
+          iconUrl,
+          iconSize: [32, 44],
+          iconAnchor: [16, 43],
+          popupAnchor: [0, -38],
+        });
+    markerIcons.set(key, icon);
+  }
+  return icon;
+}
@@ -0,0 +1,21 @@
+import type { CheckInPosition } from "@shared/schema";
+
+// Promise wrapper around the Geolocation API, asking for a fresh fix
+export function getCurrentPosition(): Promise<CheckInPosition> {
+  return new Promise((resolve, reject) => {
+    if (!("geolocation" in navigator)) {
+      reject(new Error("Location isn't available in this browser"));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({
+          lat: position.coords.latitude,
+          lon: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+        }),
+      (error) => reject(new Error(error.message || "Couldn't get your location")),
+      { enableHighAccuracy: true, timeout: 15000, maximumAge: 0 }
+    );
+  });
+}
@@ -0,0 +1,30 @@
+import type { Landmark, LandmarkSource } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+
+// Custom landmarks reuse `pageid` for their own ids, so identify landmarks
+// by source and language edition too
+export function landmarkKey(landmark: {
+  pageid: number;
+  lang?: string;
+  source?: LandmarkSource;
+}): string {
+  return `${landmark.source ?? "wikipedia"}:${landmark.lang ?? ""}:${landmark.pageid}`;
+}
+
+export function isCustomLandmark(landmark: Pick<Landmark, "source">): boolean {
+  return landmark.source === "custom";
+}
+
+// Searches merge in the user's own pins, so refetch them, and any custom
+// landmark details, after a pin is added, changed or deleted
+export async function invalidateCustomLandmarks(): Promise<void> {
+  await Promise.all([
+    queryClient.invalidateQueries({ queryKey: ["/api/landmarks/bbox"] }),
+    queryClient.invalidateQueries({ queryKey: ["/api/landmarks/search"] }),
+    queryClient.invalidateQueries({ queryKey: ["/api/custom-landmarks"] }),
+    queryClient.invalidateQueries({
+      predicate: ({ queryKey }) =>
+        queryKey[0] === "/api/landmarks/detail" && queryKey[3] === "custom",
+    }),
+  ]);
+}
@@ -0,0 +1,39 @@
+import { DEFAULT_LANGUAGE } from "@shared/schema";
+
+// Wikipedia editions offered in the language picker, labelled by autonym
+export const LANGUAGES: { code: string; name: string }[] = [
+  { code: "en", name: "English" },
+  { code: "de", name: "Deutsch" },
+  { code: "fr", name: "Français" },
+  { code: "es", name: "Español" },
+  { code: "it", name: "Italiano" },
+  { code: "nl", name: "Nederlands" },
+  { code: "pl", name: "Polski" },
+  { code: "pt", name: "Português" },
+  { code: "ru", name: "Русский" },
+  { code: "uk", name: "Українська" },
+  { code: "ja", name: "日本語" },
+  { code: "zh", name: "中文" },
+  { code: "ko", name: "한국어" },
+  { code: "ar", name: "العربية" },
+];
+
+export function getLanguageName(code: string): string {
+  return LANGUAGES.find((language) => language.code === code)?.name ?? code;
+}
+
+// Best match for the browser's preferred languages, falling back to English
+export function detectLanguage(): string {
+  const preferred = navigator.languages?.length
+    ? navigator.languages
+    : [navigator.language];
+
+  for (const locale of preferred) {
+    const code = locale?.split("-")[0].toLowerCase();
+    if (LANGUAGES.some((language) => language.code === code)) {
+      return code;
+    }
+  }
+
+  return DEFAULT_LANGUAGE;
+}
@@ -0,0 +1,298 @@
+import {
+  MAX_OVERLAY_FILE_SIZE,
+  overlayRequestSchema,
+  type Overlay,
+  type OverlayFeature,
+  type OverlayFormat,
+  type OverlayGeometry,
+  type OverlayRequest,
+} from "@shared/schema";
+
+// Imported files become overlays in the GeoJSON shape the server stores,
+// whatever their format. Parsing happens in the browser so files can be
+// shown without an account; saving uploads the parsed features.
+
+// An overlay on the map: saved ones carry the server's id, files that were
+// only imported a local one
+export interface MapOverlay extends OverlayRequest {
+  id: string;
+  saved: boolean;
+}
+
+export const OVERLAY_FILE_TYPES = ".geojson,.json,.gpx,.kml";
+
+const OVERLAY_COLORS = ["#e11d48", "#7c3aed", "#0891b2", "#ca8a04", "#16a34a", "#ea580c"];
+
+export function getOverlayColor(index: number): string {
+  return OVERLAY_COLORS[index % OVERLAY_COLORS.length];
+}
+
+let nextLocalId = 1;
+
+export function savedToMapOverlay({ id, name, format, features }: Overlay): MapOverlay {
+  return { id, name, format, features, saved: true };
+}
+
+type Position = number[];
+type FeatureProperties = OverlayFeature["properties"];
+
+// Name of a feature for lists, by its name or else its kind
+export function getFeatureLabel(feature: OverlayFeature): string {
+  if (feature.properties.name) return feature.properties.name;
+  switch (feature.geometry.type) {
+    case "Point":
+    case "MultiPoint":
+      return "Unnamed point";
+    case "LineString":
+    case "MultiLineString":
+      return "Unnamed line";
+    default:
+      return "Unnamed area";
+  }
+}
+
+// Text of an HTML fragment, as KML descriptions often are
+function plainText(value: string): string {
+  return new DOMParser().parseFromString(value, "text/html").body.textContent ?? "";
+}
+
+function featureProperties(name?: string | null, description?: string | null): FeatureProperties {
+  const properties: FeatureProperties = {};
+  const trimmedName = name?.trim();
+  const text = description ? plainText(description).trim() : "";
+  if (trimmedName) properties.name = trimmedName.slice(0, 200);
+  if (text) properties.description = text.slice(0, 2000);
+  return properties;
+}
+
+function feature(geometry: OverlayGeometry, properties: FeatureProperties): OverlayFeature {
+  return { type: "Feature", geometry, properties };
+}
+
+// Drop measures beyond the elevation, which the server doesn't keep
+function trimPositions(coordinates: unknown): unknown {
+  if (!Array.isArray(coordinates)) return coordinates;
+  return typeof coordinates[0] === "number"
+    ? coordinates.slice(0, 3)
+    : coordinates.map(trimPositions);
+}
+
+function fromGeoJson(text: string): OverlayFeature[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("isn't valid JSON");
+  }
+
+  const features: OverlayFeature[] = [];
+  const addGeometry = (geometry: unknown, properties: FeatureProperties) => {
+    if (!geometry || typeof geometry !== "object") return;
+    const { type, coordinates, geometries } = geometry as {
+      type?: string;
+      coordinates?: unknown;
+      geometries?: unknown[];
+    };
+    if (type === "GeometryCollection") {
+      geometries?.forEach((part) => addGeometry(part, properties));
+    } else {
+      // Checked against the overlay schema once the whole file is read
+      features.push(
+        feature({ type, coordinates: trimPositions(coordinates) } as OverlayGeometry, properties),
+      );
+    }
+  };
+  const addFeature = (value: unknown) => {
+    const { geometry, properties } = value as {
+      geometry?: unknown;
+      properties?: Record<string, unknown> | null;
+    };
+    const pick = (...keys: string[]) => {
+      const key = keys.find((candidate) => typeof properties?.[candidate] === "string");
+      return key ? (properties![key] as string) : undefined;
+    };
+    addGeometry(
+      geometry,
+      featureProperties(pick("name", "Name", "title", "NAME"), pick("description", "desc")),
+    );
+  };
+
+  const root = data as { type?: string; features?: unknown[] } | null;
+  if (root?.type === "FeatureCollection" && Array.isArray(root.features)) {
+    root.features.forEach(addFeature);
+  } else if (root?.type === "Feature") {
+    addFeature(root);
+  } else {
+    addGeometry(root, {});
+  }
+  return features;
+}
+
+function parseXml(text: string): Document {
+  const document = new DOMParser().parseFromString(text, "application/xml");
+  if (document.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("isn't valid XML");
+  }
+  return document;
+}
+
+// Elements by local name, whatever namespace the file uses
+function elements(parent: Document | Element, name: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS("*", name));
+}
+
+function child(parent: Element, name: string): Element | undefined {
+  return Array.from(parent.children).find((element) => element.localName === name);
+}
+
+function childText(parent: Element, name: string): string | undefined {
+  return child(parent, name)?.textContent ?? undefined;
+}
+
+function fromGpx(document: Document): OverlayFeature[] {
+  const position = (point: Element): Position => {
+    const ele = parseFloat(childText(point, "ele") ?? "");
+    const lon = parseFloat(point.getAttribute("lon") ?? "");
+    const lat = parseFloat(point.getAttribute("lat") ?? "");
+    return isNaN(ele) ? [lon, lat] : [lon, lat, ele];
+  };
+  const properties = (element: Element) =>
+    featureProperties(
+      childText(element, "name"),
+      childText(element, "desc") ?? childText(element, "cmt"),
+    );
+
+  const features: OverlayFeature[] = [];
+  for (const waypoint of elements(document, "wpt")) {
+    features.push(
+      feature({ type: "Point", coordinates: position(waypoint) }, properties(waypoint)),
+    );
+  }
+  for (const route of elements(document, "rte")) {
+    features.push(
+      feature(
+        { type: "LineString", coordinates: elements(route, "rtept").map(position) },
+        properties(route),
+      ),
+    );
+  }
+  for (const track of elements(document, "trk")) {
+    // Single-point segments can't be drawn as lines
+    const segments = elements(track, "trkseg")
+      .map((segment) => elements(segment, "trkpt").map(position))
+      .filter((segment) => segment.length > 1);
+    if (segments.length === 0) continue;
+    features.push(
+      feature(
+        segments.length === 1
+          ? { type: "LineString", coordinates: segments[0] }
+          : { type: "MultiLineString", coordinates: segments },
+        properties(track),
+      ),
+    );
+  }
+  return features;
+}
+
+// "lon,lat[,alt]" tuples separated by whitespace
+function kmlCoordinates(element: Element | undefined): Position[] {
+  const text = element ? childText(element, "coordinates") ?? "" : "";
+  return text
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((tuple) => tuple.split(",").map(Number));
+}
+
+function kmlGeometries(parent: Element): OverlayGeometry[] {
+  const geometries: OverlayGeometry[] = [];
+  for (const element of Array.from(parent.children)) {
+    switch (element.localName) {
+      case "Point":
+        geometries.push({ type: "Point", coordinates: kmlCoordinates(element)[0] ?? [] });
+        break;
+      case "LineString":
+        geometries.push({ type: "LineString", coordinates: kmlCoordinates(element) });
+        break;
+      case "Polygon": {
+        const ring = (boundary: Element) => kmlCoordinates(child(boundary, "LinearRing"));
+        const outer = child(element, "outerBoundaryIs");
+        const inner = Array.from(element.children).filter(
+          (boundary) => boundary.localName === "innerBoundaryIs",
+        );
+        geometries.push({
+          type: "Polygon",
+          coordinates: [...(outer ? [ring(outer)] : []), ...inner.map(ring)],
+        });
+        break;
+      }
+      case "MultiGeometry":
+        geometries.push(...kmlGeometries(element));
+        break;
+    }
+  }
+  return geometries;
+}
+
+// Each geometry of a placemark becomes a feature with its name
+function fromKml(document: Document): OverlayFeature[] {
+  return elements(document, "Placemark").flatMap((placemark) => {
+    const properties = featureProperties(
+      childText(placemark, "name"),
+      childText(placemark, "description"),
+    );
+    return kmlGeometries(placemark).map((geometry) => feature(geometry, properties));
+  });
+}
+
+function detectFormat(filename: string, text: string): OverlayFormat | null {
+  const extension = filename.split(".").pop()?.toLowerCase();
+  if (extension === "geojson" || extension === "json") return "geojson";
+  if (extension === "gpx" || extension === "kml") return extension;
+  // Files without a telling extension, by their content
+  if (text.trimStart().startsWith("{")) return "geojson";
+  if (/<gpx[\s>]/.test(text)) return "gpx";
+  if (/<kml[\s>]/.test(text)) return "kml";
+  return null;
+}
+
+function fileError(file: File, reason: string): Error {
+  return new Error(`${file.name} ${reason}`);
+}
+
+// Read a dropped or picked file into a local overlay named after it. Errors
+// name the file and say what is wrong with it.
+export async function parseOverlayFile(file: File): Promise<MapOverlay> {
+  if (file.size > MAX_OVERLAY_FILE_SIZE) {
+    throw fileError(file, `is larger than ${MAX_OVERLAY_FILE_SIZE / 1024 / 1024} MB`);
+  }
+  const text = await file.text();
+  const format = detectFormat(file.name, text);
+  if (!format) {
+    throw fileError(file, "isn't a GeoJSON, GPX or KML file");
+  }
+
+  let features: OverlayFeature[];
+  try {
+    features =
+      format === "geojson"
+        ? fromGeoJson(text)
+        : format === "gpx"
+        ? fromGpx(parseXml(text))
+        : fromKml(parseXml(text));
+  } catch (error) {
+    throw fileError(file, error instanceof Error ? error.message : "couldn't be read");
+  }
+
+  const result = overlayRequestSchema.safeParse({
+    name: file.name.replace(/\.[^.]+$/, "").slice(0, 100) || file.name,
+    format,
+    features,
+  });
+  if (!result.success) {
+    const { message } = result.error.errors[0];
+    throw fileError(file, `can't be shown: ${message.charAt(0).toLowerCase()}${message.slice(1)}`);
+  }
+
+  return { ...result.data, id: `local-${nextLocalId++}`, saved: false };
+}
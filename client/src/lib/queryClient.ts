@@ -55,3 +55,17 @@ export const queryClient = new QueryClient({
     },
   },
 });
+
+// Turns an apiRequest error ("409: {"error":"..."}") into a readable message
+export function getApiErrorMessage(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return "Something went wrong";
+  }
+  const body = error.message.replace(/^\d{3}: /, "");
+  try {
+    const parsed = JSON.parse(body);
+    return parsed.message || parsed.error || body;
+  } catch {
+    return body;
+  }
+}
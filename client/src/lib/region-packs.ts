@@ -0,0 +1,410 @@
+import L from "leaflet";
+import {
+  DEFAULT_TILE_SOURCE,
+  type Landmark,
+  type LandmarkDetail,
+  type LandmarkSearchResult,
+  type RegionPackJob,
+  type RegionPackManifest,
+  type RegionPackRequest,
+  type RegionPackStage,
+} from "@shared/schema";
+import { tileInBounds, type TileCoordinates } from "@shared/tiles";
+import { apiRequest } from "@/lib/queryClient";
+
+// Region packs kept in IndexedDB: a record per pack, its landmarks and
+// summaries (thumbnails inlined as data URLs), and its map tiles keyed by
+// "<pack id>/<z>/<x>/<y>". The map reads from them when the network fails.
+
+const DB_NAME = "landmarks-region-packs";
+const DB_VERSION = 1;
+const PACKS = "packs";
+const PACK_DATA = "pack-data";
+const TILES = "tiles";
+
+// Server job polling interval, and downloads in flight at once
+const POLL_INTERVAL = 1000;
+const DOWNLOAD_CONCURRENCY = 6;
+
+export interface RegionPack {
+  id: string;
+  name: string;
+  request: RegionPackRequest;
+  landmarkCount: number;
+  tileCount: number;
+  // False when the area had more landmarks than the search could return
+  complete: boolean;
+  // Bytes stored on the device, roughly
+  size: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface PackData {
+  id: string;
+  landmarks: Landmark[];
+  details: LandmarkDetail[];
+}
+
+// Progress of a download: the server's stages, then fetching the files
+export interface PackProgress {
+  stage: RegionPackStage | "download";
+  done: number;
+  total: number;
+}
+
+function promised<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completed(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Transaction aborted"));
+  });
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(PACKS, { keyPath: "id" });
+      request.result.createObjectStore(PACK_DATA, { keyPath: "id" });
+      request.result.createObjectStore(TILES);
+    };
+    database = promised(request).catch((error) => {
+      database = null;
+      throw error;
+    });
+  }
+  return database;
+}
+
+// Every key of one pack's tiles
+function packTileRange(id: string): IDBKeyRange {
+  return IDBKeyRange.bound(`${id}/`, `${id}/\uffff`);
+}
+
+// Pack records and their data are read often while offline
+let packsCache: Promise<RegionPack[]> | null = null;
+const dataCache = new Map<string, Promise<PackData | undefined>>();
+
+function clearCaches() {
+  packsCache = null;
+  dataCache.clear();
+}
+
+export function listRegionPacks(): Promise<RegionPack[]> {
+  if (!packsCache) {
+    packsCache = openDatabase()
+      .then((db) => promised<RegionPack[]>(db.transaction(PACKS).objectStore(PACKS).getAll()))
+      .then((packs) => packs.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)))
+      .catch((error) => {
+        packsCache = null;
+        throw error;
+      });
+  }
+  return packsCache;
+}
+
+function getPackData(id: string): Promise<PackData | undefined> {
+  let data = dataCache.get(id);
+  if (!data) {
+    data = openDatabase()
+      .then((db) =>
+        promised<PackData | undefined>(db.transaction(PACK_DATA).objectStore(PACK_DATA).get(id)),
+      )
+      .catch((error) => {
+        dataCache.delete(id);
+        throw error;
+      });
+    dataCache.set(id, data);
+  }
+  return data;
+}
+
+// Replaces the pack's records and tiles in one transaction, so an update
+// that fails part way keeps the previous contents
+async function saveRegionPack(pack: RegionPack, data: PackData, tiles: Map<string, Blob>) {
+  const db = await openDatabase();
+  const transaction = db.transaction([PACKS, PACK_DATA, TILES], "readwrite");
+  const tileStore = transaction.objectStore(TILES);
+  tileStore.delete(packTileRange(pack.id));
+  for (const [key, blob] of Array.from(tiles.entries())) {
+    tileStore.put(blob, `${pack.id}/${key}`);
+  }
+  transaction.objectStore(PACK_DATA).put(data);
+  transaction.objectStore(PACKS).put(pack);
+  await completed(transaction);
+  clearCaches();
+}
+
+export async function deleteRegionPack(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([PACKS, PACK_DATA, TILES], "readwrite");
+  transaction.objectStore(TILES).delete(packTileRange(id));
+  transaction.objectStore(PACK_DATA).delete(id);
+  transaction.objectStore(PACKS).delete(id);
+  await completed(transaction);
+  clearCaches();
+}
+
+interface Area {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+function overlaps(a: Area, b: Area): boolean {
+  return a.south < b.north && a.north > b.south && a.west < b.east && a.east > b.west;
+}
+
+// A map tile from whichever pack covers it; packs of the given base map
+// come first, but another base map's tile beats none
+export async function getPackTile(
+  tile: TileCoordinates,
+  layer: string,
+): Promise<Blob | undefined> {
+  const packs = (await listRegionPacks())
+    .filter(
+      (pack) =>
+        tile.z >= pack.request.minZoom &&
+        tile.z <= pack.request.maxZoom &&
+        tileInBounds(tile, pack.request),
+    )
+    .sort(
+      (a, b) =>
+        Number(packLayer(b) === layer) - Number(packLayer(a) === layer),
+    );
+  if (packs.length === 0) {
+    return undefined;
+  }
+  const db = await openDatabase();
+  const store = db.transaction(TILES).objectStore(TILES);
+  const blobs = await Promise.all(
+    packs.map((pack) =>
+      promised<Blob | undefined>(store.get(`${pack.id}/${tile.z}/${tile.x}/${tile.y}`)),
+    ),
+  );
+  return blobs.find(Boolean);
+}
+
+// Packs saved before base maps could be chosen have the default one
+function packLayer(pack: RegionPack): string {
+  return pack.request.layer ?? DEFAULT_TILE_SOURCE;
+}
+
+// Landmarks in the bounds from the packs in that language, nearest the
+// centre first; undefined when no pack overlaps them
+export async function searchRegionPacks(
+  bounds: Area,
+  lang: string,
+): Promise<LandmarkSearchResult | undefined> {
+  const { south, west, north, east } = bounds;
+  const packs = (await listRegionPacks()).filter(
+    (pack) => pack.request.lang === lang && overlaps(pack.request, bounds),
+  );
+  if (packs.length === 0) {
+    return undefined;
+  }
+
+  const area = L.latLngBounds([south, west], [north, east]);
+  const center = area.getCenter();
+  const landmarks = new Map<number, Landmark>();
+  let complete = true;
+  for (const pack of packs) {
+    const data = await getPackData(pack.id);
+    complete &&= pack.complete;
+    for (const landmark of data?.landmarks ?? []) {
+      if (!landmarks.has(landmark.pageid) && area.contains([landmark.lat, landmark.lon])) {
+        landmarks.set(landmark.pageid, {
+          ...landmark,
+          dist: center.distanceTo([landmark.lat, landmark.lon]),
+        });
+      }
+    }
+  }
+
+  // Parts of the bounds outside every pack have no landmarks to show
+  const covered = packs.some(
+    (pack) =>
+      pack.request.south <= south &&
+      pack.request.north >= north &&
+      pack.request.west <= west &&
+      pack.request.east >= east,
+  );
+
+  return {
+    landmarks: Array.from(landmarks.values()).sort((a, b) => a.dist! - b.dist!),
+    complete: complete && covered,
+  };
+}
+
+// Summaries from the packs in that language, in the order asked for
+export async function getPackDetails(pageids: number[], lang: string): Promise<LandmarkDetail[]> {
+  const details = new Map<number, LandmarkDetail>();
+  for (const pack of await listRegionPacks()) {
+    if (pack.request.lang !== lang) continue;
+    const data = await getPackData(pack.id);
+    for (const detail of data?.details ?? []) {
+      if (!details.has(detail.pageid)) {
+        details.set(detail.pageid, detail);
+      }
+    }
+  }
+  return pageids.flatMap((pageid) => {
+    const detail = details.get(pageid);
+    return detail ? [detail] : [];
+  });
+}
+
+export async function getPackDetail(
+  pageid: number,
+  lang: string,
+): Promise<LandmarkDetail | undefined> {
+  return (await getPackDetails([pageid], lang))[0];
+}
+
+function readAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true },
+    );
+  });
+}
+
+// Runs fn over the items, a few at a time
+async function forEachLimited<T>(items: T[], fn: (item: T) => Promise<void>) {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await fn(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+}
+
+// A file of a finished job, or undefined if it's gone missing
+async function fetchPackFile(url: string, signal: AbortSignal): Promise<Blob | undefined> {
+  const response = await fetch(url, { credentials: "include", signal });
+  return response.ok ? response.blob() : undefined;
+}
+
+// Has the server prepare the pack, downloads it and stores it on this
+// device. Pass an existing pack's id to update it in place. Aborting the
+// signal cancels the server's job too.
+export async function downloadRegionPack(
+  request: RegionPackRequest,
+  options: {
+    id?: string;
+    signal: AbortSignal;
+    onProgress: (progress: PackProgress) => void;
+  },
+): Promise<RegionPack> {
+  const { signal, onProgress } = options;
+  let job: RegionPackJob = await (await apiRequest("POST", "/api/region-packs", request)).json();
+  const base = `/api/region-packs/${job.id}`;
+
+  try {
+    while (job.status === "running") {
+      onProgress({ stage: job.stage, done: job.done, total: job.total });
+      await wait(POLL_INTERVAL, signal);
+      const response = await fetch(base, { credentials: "include", signal });
+      if (!response.ok) {
+        throw new Error("The region pack is no longer available");
+      }
+      job = await response.json();
+    }
+    if (job.status === "failed") {
+      throw new Error(job.error || "Couldn't prepare the region pack");
+    }
+
+    const response = await fetch(`${base}/manifest`, { credentials: "include", signal });
+    if (!response.ok) {
+      throw new Error("The region pack is no longer available");
+    }
+    const manifest: RegionPackManifest = await response.json();
+    const total = manifest.thumbnails.length + manifest.tiles.length;
+    let done = 0;
+    const progress = () => onProgress({ stage: "download", done: ++done, total });
+    onProgress({ stage: "download", done, total });
+
+    const thumbnails = new Map<string, string>();
+    await forEachLimited(
+      manifest.thumbnails.map((source, index) => ({ source, index })),
+      async ({ source, index }) => {
+        const blob = await fetchPackFile(`${base}/thumbnails/${index}`, signal);
+        if (blob) {
+          thumbnails.set(source, await readAsDataUrl(blob));
+        }
+        progress();
+      },
+    );
+
+    const tiles = new Map<string, Blob>();
+    let size = 0;
+    await forEachLimited(manifest.tiles, async ({ z, x, y }) => {
+      const blob = await fetchPackFile(`${base}/tiles/${z}/${x}/${y}`, signal);
+      if (blob) {
+        tiles.set(`${z}/${x}/${y}`, blob);
+        size += blob.size;
+      }
+      progress();
+    });
+
+    // Thumbnails that couldn't be downloaded are left out rather than
+    // pointing at the network
+    const details = manifest.details.map(({ thumbnail, ...detail }): LandmarkDetail => {
+      const source = thumbnail && thumbnails.get(thumbnail.source);
+      return source ? { ...detail, thumbnail: { ...thumbnail, source } } : detail;
+    });
+
+    const now = new Date().toISOString();
+    const existing = options.id
+      ? (await listRegionPacks()).find((pack) => pack.id === options.id)
+      : undefined;
+    const data: PackData = {
+      id: existing?.id ?? crypto.randomUUID(),
+      landmarks: manifest.landmarks,
+      details,
+    };
+    const pack: RegionPack = {
+      id: data.id,
+      name: request.name,
+      request: manifest.request,
+      landmarkCount: manifest.landmarks.length,
+      tileCount: tiles.size,
+      complete: manifest.complete,
+      size: size + new Blob([JSON.stringify(data)]).size,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    await saveRegionPack(pack, data, tiles);
+    return pack;
+  } finally {
+    // Frees the server's copy, or cancels the job if we gave up early
+    fetch(base, { method: "DELETE", credentials: "include" }).catch(() => undefined);
+  }
+}
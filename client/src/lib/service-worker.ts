@@ -0,0 +1,12 @@
+// Offline support (see client/public/sw.js) in production builds only; in
+// development the cached modules would go stale on every edit
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) {
+    return;
+  }
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register("/sw.js")
+      .catch((error) => console.error("Error registering service worker:", error));
+  });
+}
@@ -0,0 +1,40 @@
+import L from "leaflet";
+import type { TourPlan, WalkingTour } from "@shared/schema";
+
+// Formatting and map icons for walking tours
+
+// Minutes allowed at each stop of a planned itinerary
+export const TOUR_DWELL_MINUTES = 15;
+
+export function isTourPlan(tour: WalkingTour): tour is TourPlan {
+  return "budget" in tour;
+}
+
+export function formatDistance(meters: number): string {
+  return meters < 1000 ? `${Math.round(meters)}m` : `${(meters / 1000).toFixed(1)}km`;
+}
+
+export function formatDuration(seconds: number): string {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours} h ${minutes % 60} min` : `${hours} h`;
+}
+
+const stopIcons = new Map<number, L.DivIcon>();
+
+// Numbered circle for the nth stop of a tour
+export function getTourStopIcon(number: number): L.DivIcon {
+  let icon = stopIcons.get(number);
+  if (!icon) {
+    icon = L.divIcon({
+      className: "tour-stop-marker",
+      html: `<span>${number}</span>`,
+      iconSize: [28, 28],
+      iconAnchor: [14, 14],
+      popupAnchor: [0, -14],
+    });
+    stopIcons.set(number, icon);
+  }
+  return icon;
+}
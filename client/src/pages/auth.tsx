@@ -0,0 +1,138 @@
+import { useEffect } from "react";
+import { Link, useLocation } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2, MapPin } from "lucide-react";
+import { credentialsSchema, type Credentials } from "@shared/schema";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/use-auth";
+import { getApiErrorMessage } from "@/lib/queryClient";
+
+interface AuthPageProps {
+  mode: "login" | "register";
+}
+
+export default function AuthPage({ mode }: AuthPageProps) {
+  const [, navigate] = useLocation();
+  const { user, loginMutation, registerMutation } = useAuth();
+  const mutation = mode === "login" ? loginMutation : registerMutation;
+
+  const form = useForm<Credentials>({
+    resolver: zodResolver(credentialsSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  // Already signed in (or just signed in) - back to the map
+  useEffect(() => {
+    if (user) {
+      navigate("/");
+    }
+  }, [user, navigate]);
+
+  const isLogin = mode === "login";
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <div className="flex items-center gap-2 mb-2">
+            <MapPin className="h-6 w-6 text-primary" />
+            <span className="text-lg font-semibold">Local Landmarks</span>
+          </div>
+          <CardTitle data-testid="text-auth-title">
+            {isLogin ? "Sign in" : "Create an account"}
+          </CardTitle>
+          <CardDescription>
+            {isLogin
+              ? "Sign in to save landmarks and build lists."
+              : "Accounts let you save landmarks and build lists."}
+          </CardDescription>
+        </CardHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => mutation.mutate(values))}>
+            <CardContent className="space-y-4">
+              {mutation.error && (
+                <Alert variant="destructive" data-testid="alert-auth-error">
+                  <AlertDescription>{getApiErrorMessage(mutation.error)}</AlertDescription>
+                </Alert>
+              )}
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="username" data-testid="input-username" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="password"
+                        autoComplete={isLogin ? "current-password" : "new-password"}
+                        data-testid="input-password"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+            <CardFooter className="flex flex-col gap-3">
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={mutation.isPending}
+                data-testid="button-auth-submit"
+              >
+                {mutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {isLogin ? "Sign in" : "Create account"}
+              </Button>
+              <p className="text-sm text-muted-foreground">
+                {isLogin ? "No account yet? " : "Already have an account? "}
+                <Link
+                  href={isLogin ? "/register" : "/login"}
+                  className="text-primary hover:underline"
+                  data-testid="link-auth-switch"
+                >
+                  {isLogin ? "Create one" : "Sign in"}
+                </Link>
+              </p>
+              <Link href="/" className="text-sm text-muted-foreground hover:underline">
+                Back to the map
+              </Link>
+            </CardFooter>
+          </form>
+        </Form>
+      </Card>
+    </div>
+  );
+}
@@ -1,7 +1,13 @@
-import { useState, useEffect, useRef, useCallback } from "react";
+import {
+  useState,
+  useEffect,
+  useRef,
+  useCallback,
+  useMemo,
+} from "react";
+import { useLocation, useRoute } from "wouter";
 import {
   MapContainer,
-  TileLayer,
   Marker,
   Popup,
   useMapEvents,
@@ -11,46 +17,120 @@ import {
   Locate,
   X,
   Loader2,
-  Info,
-  ExternalLink,
   AlertCircle,
+  MapPinPlus,
+  FileUp,
+  WifiOff,
 } from "lucide-react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import type { Landmark, LandmarkDetail } from "@shared/schema";
+import {
+  CustomLandmarkForm,
+  PinDropController,
+} from "@/components/custom-landmark-form";
+import { type ExportSource } from "@/components/export-menu";
+import { BaseMapPicker } from "@/components/base-map-picker";
+import {
+  LandmarkDetailPanel,
+  type SelectedLandmark,
+} from "@/components/landmark-detail-panel";
+import { ListsPanel } from "@/components/landmark-lists";
+import {
+  LandmarkListSidebar,
+  type SidebarTab,
+} from "@/components/landmark-sidebar";
+import { MapSearch } from "@/components/map-search";
+import { LanguagePicker } from "@/components/language-picker";
+import { MapLegend } from "@/components/map-legend";
+import { OverlayLayer, OverlayPanel } from "@/components/overlay-layers";
+import {
+  AreaDrawController,
+  PackTileLayer,
+  RegionPacksMenu,
+  type PackArea,
+} from "@/components/region-packs";
+import { UserMenu } from "@/components/user-menu";
+import {
+  TourLayer,
+  TourPanel,
+} from "@/components/walking-tour";
+import { useAuth } from "@/hooks/use-auth";
+import { useBaseMap } from "@/hooks/use-base-map";
+import { useFavorites } from "@/hooks/use-favorites";
+import { useList, useSharedList } from "@/hooks/use-lists";
+import { useNotes } from "@/hooks/use-notes";
+import { useOffline } from "@/hooks/use-offline";
+import { useMapOverlays } from "@/hooks/use-map-overlays";
+import { useVisits } from "@/hooks/use-visits";
+import { useWalkingTour } from "@/hooks/use-walking-tour";
+import { useLocalStorage } from "@/hooks/use-local-storage";
+import { getCategory, getMarkerIcon } from "@/lib/categories";
+import { detectLanguage } from "@/lib/languages";
+import { isCustomLandmark, landmarkKey } from "@/lib/landmarks";
+import {
+  getOverlayColor,
+  type MapOverlay,
+} from "@/lib/overlays";
+import {
+  searchRegionPacks,
+  type RegionPack,
+} from "@/lib/region-packs";
+import {
+  MAX_EXPORT_LANDMARKS,
+  type Landmark,
+  type LandmarkCategory,
+  type LandmarkListItem,
+  type LandmarkSearchResult,
+  type Coordinates,
+  type CustomLandmark,
+  type LandmarkNote,
+  type OverlayFeature,
+  type Place,
+  type SavedLandmark,
+} from "@shared/schema";
 import "leaflet/dist/leaflet.css";
 import L from "leaflet";
 
+interface BoundsSearchParams {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
 
-// Fix Leaflet default icon issue with Vite
-delete (L.Icon.Default.prototype as any)._getIconUrl;
-L.Icon.Default.mergeOptions({
-  iconRetinaUrl:
-    "https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon-2x.png",
-  iconUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png",
-  shadowUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png",
-});
+// Convert Leaflet bounds into the ranges the bbox endpoint accepts. Panning
+// past the antimeridian yields longitudes outside [-180, 180], so shift the
+// box back into range and clip whatever still sticks out.
+function toBoundsSearchParams(bounds: L.LatLngBounds): BoundsSearchParams {
+  const round = (value: number) => Math.round(value * 1e5) / 1e5;
+  const shift =
+    Math.round((bounds.getWest() + bounds.getEast()) / 2 / 360) * 360;
+
+  return {
+    south: round(Math.max(-90, bounds.getSouth())),
+    west: round(Math.max(-180, bounds.getWest() - shift)),
+    north: round(Math.min(90, bounds.getNorth())),
+    east: round(Math.min(180, bounds.getEast() - shift)),
+  };
+}
 
 interface MapControllerProps {
-  onMapMove: (lat: number, lng: number, zoom: number) => void;
-  onLocate: () => void;
+  onMapMove: (bounds: L.LatLngBounds, zoom: number) => void;
+  // Centre on the user's location once on mount, unless omitted
+  onLocate?: () => void;
 }
 
 function MapController({ onMapMove, onLocate }: MapControllerProps) {
   const map = useMapEvents({
     moveend: () => {
-      const center = map.getCenter();
-      const zoom = map.getZoom();
-      onMapMove(center.lat, center.lng, zoom);
+      onMapMove(map.getBounds(), map.getZoom());
     },
   });
 
   useEffect(() => {
-    onLocate();
+    onLocate?.();
   }, [onLocate]);
 
   return null;
@@ -72,246 +152,36 @@ function LocationButton({ onClick }: { onClick: () => void }) {
   );
 }
 
-interface LandmarkDetailPanelProps {
-  pageid: number | null;
-  onClose: () => void;
+function listItemToLandmark(item: LandmarkListItem): Landmark {
+  const { pageid, title, lat, lon, lang } = item;
+  return { pageid, title, lat, lon, lang };
 }
 
-function LandmarkDetailPanel({ pageid, onClose }: LandmarkDetailPanelProps) {
+export default function MapPage() {
+  const { user } = useAuth();
+  const { favorites, isSaved } = useFavorites();
+  const { isVisited } = useVisits();
+  const { tags: noteTags, noteFor } = useNotes();
+  const offline = useOffline();
   const {
-    data: landmarkDetail,
-    isLoading,
-    error,
-    refetch,
-  } = useQuery<LandmarkDetail>({
-    queryKey: ["/api/landmarks/detail", pageid],
-    queryFn: async () => {
-      if (!pageid) throw new Error("No page ID");
-      const response = await fetch(`/api/landmarks/${pageid}`);
-      if (!response.ok) {
-        throw new Error(
-          `Failed to fetch landmark details: ${response.statusText}`
-        );
-      }
-      return response.json();
-    },
-    enabled: !!pageid,
-    retry: 2,
-    staleTime: 5 * 60 * 1000, // Cache for 5 minutes
-  });
-
-  if (!pageid) return null;
-
-  return (
-    <div className="fixed inset-x-0 bottom-0 z-[1000] lg:right-0 lg:left-auto lg:top-0 lg:bottom-0 lg:w-96 transition-transform duration-200 ease-in-out">
-      <Card className="h-80 lg:h-full rounded-t-2xl lg:rounded-none border-t lg:border-l shadow-2xl overflow-hidden">
-        <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-4">
-          <CardTitle
-            className="text-2xl font-semibold line-clamp-2"
-            data-testid="text-landmark-title"
-          >
-            {isLoading ? "Loading..." : landmarkDetail?.title || "Landmark"}
-          </CardTitle>
-          <Button
-            size="icon"
-            variant="ghost"
-            onClick={onClose}
-            className="rounded-full shrink-0"
-            aria-label="Close landmark details"
-            data-testid="button-close-detail"
-          >
-            <X className="h-5 w-5" />
-          </Button>
-        </CardHeader>
-        <ScrollArea className="h-[calc(100%-5rem)]">
-          <CardContent className="space-y-4">
-            {isLoading ? (
-              <div className="flex items-center justify-center py-8">
-                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-              </div>
-            ) : error ? (
-              <Alert variant="destructive">
-                <AlertCircle className="h-4 w-4" />
-                <AlertDescription className="flex items-center justify-between gap-2">
-                  <span>Failed to load landmark details</span>
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => refetch()}
-                    data-testid="button-retry-detail"
-                  >
-                    Retry
-                  </Button>
-                </AlertDescription>
-              </Alert>
-            ) : landmarkDetail ? (
-              <>
-                {landmarkDetail.thumbnail && (
-                  <div className="relative w-full h-48 rounded-lg overflow-hidden">
-                    <img
-                      src={landmarkDetail.thumbnail.source}
-                      alt={landmarkDetail.title}
-                      className="w-full h-full object-cover"
-                      data-testid="img-landmark-thumbnail"
-                    />
-                  </div>
-                )}
-
-                {landmarkDetail.extract && (
-                  <div className="space-y-2">
-                    <h3 className="text-sm font-medium">About</h3>
-                    <p
-                      className="text-sm text-foreground leading-relaxed"
-                      data-testid="text-landmark-extract"
-                    >
-                      {landmarkDetail.extract}
-                    </p>
-                  </div>
-                )}
-
-                <Button
-                  className="w-full gap-2"
-                  asChild
-                  data-testid="button-view-wikipedia"
-                >
-                  <a
-                    href={
-                      landmarkDetail.url ||
-                      `https://en.wikipedia.org/?curid=${landmarkDetail.pageid}`
-                    }
-                    target="_blank"
-                    rel="noopener noreferrer"
-                  >
-                    <ExternalLink className="h-4 w-4" />
-                    Read more on Wikipedia
-                  </a>
-                </Button>
-              </>
-            ) : null}
-          </CardContent>
-        </ScrollArea>
-      </Card>
-    </div>
+    sources: baseMaps,
+    choice: baseMapChoice,
+    setChoice: setBaseMapChoice,
+    baseMap,
+  } = useBaseMap();
+  const [selectedLandmark, setSelectedLandmark] =
+    useState<SelectedLandmark | null>(null);
+  const [language, setLanguage] = useLocalStorage<string>(
+    "landmarks-language",
+    detectLanguage
   );
-}
-
-interface LandmarkListSidebarProps {
-  landmarks: Landmark[];
-  onSelectLandmark: (landmark: Landmark) => void;
-  isLoading: boolean;
-  error: Error | null;
-  onRetry: () => void;
-}
-
-function LandmarkListSidebar({
-  landmarks,
-  onSelectLandmark,
-  isLoading,
-  error,
-  onRetry,
-}: LandmarkListSidebarProps) {
-  return (
-    <div className="hidden lg:block fixed left-0 top-0 bottom-0 w-80 z-[1000]">
-      <Card className="h-full rounded-none border-r">
-        <CardHeader className="border-b">
-          <CardTitle className="text-xl font-semibold flex items-center gap-2">
-            <MapPin className="h-5 w-5 text-primary" />
-            Local Landmarks
-          </CardTitle>
-          <div className="flex ">
-            <a
-              href="https://getmihir.vercel.app/"
-              target="_blank"
-              rel="noopener noreferrer"
-              className="italic underline ml-6 text-xs"
-              aria-label="Created by - Mihir Das (opens in new tab)"
-            >
-              Created by - Mihir Das
-            </a>
-          </div>
-
-          <p className="text-sm text-muted-foreground">
-            {isLoading
-              ? "Loading..."
-              : error
-              ? "Error loading landmarks"
-              : `${landmarks.length} landmarks visible`}
-          </p>
-        </CardHeader>
-        <ScrollArea className="h-[calc(100%-5rem)]">
-          <div className="p-4 space-y-2">
-            {isLoading ? (
-              <div className="flex items-center justify-center py-8">
-                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
-              </div>
-            ) : error ? (
-              <Alert variant="destructive">
-                <AlertCircle className="h-4 w-4" />
-                <AlertDescription className="space-y-2">
-                  <p>Failed to load landmarks</p>
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={onRetry}
-                    className="w-full"
-                    data-testid="button-retry-landmarks"
-                  >
-                    Retry
-                  </Button>
-                </AlertDescription>
-              </Alert>
-            ) : landmarks.length === 0 ? (
-              <div className="text-center py-8 px-4">
-                <Info className="h-12 w-12 mx-auto mb-3 text-muted-foreground" />
-                <p className="text-sm text-muted-foreground">
-                  Move the map to discover landmarks in different areas
-                </p>
-              </div>
-            ) : (
-              landmarks.map((landmark) => (
-                <button
-                  key={landmark.pageid}
-                  onClick={() => onSelectLandmark(landmark)}
-                  className="w-full text-left p-3 rounded-lg hover-elevate active-elevate-2 border bg-card transition-all"
-                  data-testid={`button-landmark-${landmark.pageid}`}
-                >
-                  <div className="flex items-start gap-2">
-                    <MapPin className="h-4 w-4 mt-0.5 text-primary shrink-0" />
-                    <div className="flex-1 min-w-0">
-                      <h3 className="font-medium text-sm line-clamp-2">
-                        {landmark.title}
-                      </h3>
-                      {landmark.dist !== undefined && (
-                        <p className="text-xs text-muted-foreground mt-1">
-                          {landmark.dist < 1000
-                            ? `${Math.round(landmark.dist)}m away`
-                            : `${(landmark.dist / 1000).toFixed(1)}km away`}
-                        </p>
-                      )}
-                    </div>
-                  </div>
-                </button>
-              ))
-            )}
-          </div>
-        </ScrollArea>
-      </Card>
-    </div>
-  );
-}
-
-export default function MapPage() {
-  const queryClient = useQueryClient();
-  const [selectedPageid, setSelectedPageid] = useState<number | null>(null);
   const [mapCenter, setMapCenter] = useState<[number, number]>([
     40.7128, -74.006,
   ]); // NYC default
   const [mapZoom, setMapZoom] = useState(13);
-  const [searchParams, setSearchParams] = useState<{
-    lat: number;
-    lon: number;
-    radius: number;
-  } | null>(null);
+  const [searchParams, setSearchParams] =
+    useState<BoundsSearchParams | null>(null);
+  const [userLocation, setUserLocation] = useState<Coordinates | null>(null);
   const mapRef = useRef<L.Map | null>(null);
   const fetchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -321,13 +191,22 @@ export default function MapPage() {
     isLoading,
     error,
     refetch,
-  } = useQuery<{ landmarks: Landmark[] }>({
-    queryKey: ["/api/landmarks/search", searchParams],
+  } = useQuery<LandmarkSearchResult>({
+    queryKey: ["/api/landmarks/bbox", searchParams, language],
     queryFn: async () => {
       if (!searchParams) throw new Error("No search parameters");
-      const response = await fetch(
-        `/api/landmarks/search?lat=${searchParams.lat}&lon=${searchParams.lon}&radius=${searchParams.radius}`
-      );
+      const { south, west, north, east } = searchParams;
+      let response: Response;
+      try {
+        response = await fetch(
+          `/api/landmarks/bbox?south=${south}&west=${west}&north=${north}&east=${east}&lang=${language}`
+        );
+      } catch (fetchError) {
+        // Offline: landmarks from region packs covering the area
+        const packed = await searchRegionPacks(searchParams, language);
+        if (packed) return packed;
+        throw fetchError;
+      }
       if (!response.ok) {
         throw new Error(`Failed to fetch landmarks: ${response.statusText}`);
       }
@@ -338,10 +217,35 @@ export default function MapPage() {
     staleTime: 2 * 60 * 1000, // Cache for 2 minutes
   });
 
-  const landmarks = landmarksData?.landmarks || [];
+  const allLandmarks = landmarksData?.landmarks || [];
+  const complete = landmarksData?.complete ?? true;
+
+  // Category filtering happens client-side so toggling doesn't refetch
+  const [hiddenCategories, setHiddenCategories] = useLocalStorage<
+    LandmarkCategory[]
+  >("landmarks-hidden-categories", []);
+  const categoryCounts: Partial<Record<LandmarkCategory, number>> = {};
+  for (const landmark of allLandmarks) {
+    const category = getCategory(landmark);
+    categoryCounts[category] = (categoryCounts[category] ?? 0) + 1;
+  }
+  // Picking note tags narrows the results to landmarks tagged with any of
+  // them; tags that are no longer used on any note are ignored
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const activeTags = selectedTags.filter((tag) =>
+    noteTags.some((noteTag) => noteTag.tag === tag)
+  );
+  const landmarks = allLandmarks.filter((landmark) => {
+    if (hiddenCategories.includes(getCategory(landmark))) return false;
+    if (activeTags.length === 0) return true;
+    const note = isCustomLandmark(landmark)
+      ? undefined
+      : noteFor(landmark.pageid, landmark.lang ?? language);
+    return !!note && note.tags.some((tag) => activeTags.includes(tag));
+  });
 
   const debouncedFetchLandmarks = useCallback(
-    (lat: number, lng: number, zoom: number) => {
+    (bounds: L.LatLngBounds) => {
       // Clear existing timeout
       if (fetchTimeoutRef.current) {
         clearTimeout(fetchTimeoutRef.current);
@@ -349,22 +253,18 @@ export default function MapPage() {
 
       // Debounce API calls by 500ms
       fetchTimeoutRef.current = setTimeout(() => {
-        // Calculate radius based on zoom level (larger radius for zoomed out views)
-        const radius = Math.min(
-          10000,
-          Math.max(1000, 50000 / Math.pow(2, zoom - 10))
-        );
-        setSearchParams({ lat, lon: lng, radius });
+        setSearchParams(toBoundsSearchParams(bounds));
       }, 500);
     },
     []
   );
 
   const handleMapMove = useCallback(
-    (lat: number, lng: number, zoom: number) => {
-      setMapCenter([lat, lng]);
+    (bounds: L.LatLngBounds, zoom: number) => {
+      const center = bounds.getCenter();
+      setMapCenter([center.lat, center.lng]);
       setMapZoom(zoom);
-      debouncedFetchLandmarks(lat, lng, zoom);
+      debouncedFetchLandmarks(bounds);
     },
     [debouncedFetchLandmarks]
   );
@@ -374,6 +274,7 @@ export default function MapPage() {
       navigator.geolocation.getCurrentPosition(
         (position) => {
           const { latitude, longitude } = position.coords;
+          setUserLocation({ lat: latitude, lon: longitude });
           setMapCenter([latitude, longitude]);
           setMapZoom(14);
           if (mapRef.current) {
@@ -389,7 +290,11 @@ export default function MapPage() {
 
   const handleSelectLandmark = useCallback(
     (landmark: Landmark) => {
-      setSelectedPageid(landmark.pageid);
+      setSelectedLandmark({
+        pageid: landmark.pageid,
+        lang: landmark.lang ?? language,
+        source: landmark.source,
+      });
       if (mapRef.current) {
         mapRef.current.setView(
           [landmark.lat, landmark.lon],
@@ -400,15 +305,314 @@ export default function MapPage() {
         );
       }
     },
-    [mapZoom]
+    [mapZoom, language]
+  );
+
+  // Name search results can be anywhere in the world, so fly there and let
+  // the resulting move load the surrounding landmarks
+  const handleSearchSelect = useCallback(
+    (landmark: Landmark) => {
+      setSelectedLandmark({
+        pageid: landmark.pageid,
+        lang: landmark.lang ?? language,
+        source: landmark.source,
+      });
+      mapRef.current?.flyTo([landmark.lat, landmark.lon], 16);
+    },
+    [language]
+  );
+
+  const handleSavedSelect = useCallback(
+    (saved: SavedLandmark) => {
+      const { pageid, title, lat, lon, lang } = saved;
+      handleSearchSelect({ pageid, title, lat, lon, lang });
+    },
+    [handleSearchSelect]
+  );
+
+  const handleNoteSelect = useCallback(
+    (note: LandmarkNote) => {
+      const { pageid, title, lat, lon, lang } = note;
+      handleSearchSelect({ pageid, title, lat, lon, lang });
+    },
+    [handleSearchSelect]
+  );
+
+  // An open list, or one opened through a share link, replaces the search
+  // results on the map while the Lists tab is showing
+  const [, navigate] = useLocation();
+  const [, sharedRoute] = useRoute("/lists/:token");
+  const shareToken = sharedRoute?.token;
+  const [sidebarTab, setSidebarTab] = useState<SidebarTab>(
+    shareToken ? "lists" : "nearby"
+  );
+  const [openListId, setOpenListId] = useState<string | null>(null);
+  const { data: openList } = useList(openListId);
+  const { data: sharedList } = useSharedList(shareToken);
+  const listItems =
+    sidebarTab !== "lists"
+      ? undefined
+      : shareToken
+      ? sharedList?.items
+      : openListId
+      ? openList?.items
+      : undefined;
+  const listLandmarks = listItems ? listItems.map(listItemToLandmark) : null;
+
+  // While the Tour tab shows a tour, its numbered stops replace the other
+  // markers
+  const mapCenterCoords = useMemo(
+    () => ({ lat: mapCenter[0], lon: mapCenter[1] }),
+    [mapCenter]
+  );
+  const {
+    tour,
+    roundTrip: tourRoundTrip,
+    setRoundTrip: setTourRoundTrip,
+    budget: tourBudget,
+    setBudget: setTourBudget,
+    isPending: tourPending,
+    plan: handlePlanTour,
+    removeStop: handleRemoveTourStop,
+    clear: clearTour,
+  } = useWalkingTour({
+    landmarks,
+    location: userLocation,
+    center: mapCenterCoords,
+    lang: language,
+  });
+  const tourLandmarks = sidebarTab === "tour" && tour ? tour.stops : null;
+  const mapLandmarks = tourLandmarks ? [] : listLandmarks ?? landmarks;
+
+  // Fit the map to a tour when it's planned or changed
+  useEffect(() => {
+    if (!tour || tour.stops.length === 0 || !mapRef.current) {
+      return;
+    }
+    const points = tour.stops.map((stop): L.LatLngTuple => [stop.lat, stop.lon]);
+    if (tour.start) {
+      points.push([tour.start.lat, tour.start.lon]);
+    }
+    mapRef.current.fitBounds(L.latLngBounds(points), {
+      padding: [48, 48],
+      maxZoom: 16,
+    });
+  }, [tour]);
+
+  const tourPanel = (
+    <TourPanel
+      tour={tour}
+      candidateCount={landmarks.length}
+      hasLocation={!!userLocation}
+      roundTrip={tourRoundTrip}
+      onRoundTripChange={setTourRoundTrip}
+      budget={tourBudget}
+      onBudgetChange={setTourBudget}
+      isPending={tourPending}
+      onPlan={handlePlanTour}
+      onLocate={handleLocate}
+      onClear={clearTour}
+      onRemoveStop={handleRemoveTourStop}
+      onSelectStop={handleSelectLandmark}
+    />
+  );
+
+  useEffect(() => {
+    if (shareToken) {
+      setSidebarTab("lists");
+    }
+  }, [shareToken]);
+
+  // Fit the map to a list when it opens or gains/loses landmarks
+  const listBoundsKey = listLandmarks
+    ? `${shareToken ?? openListId}:${listLandmarks.length}`
+    : null;
+  useEffect(() => {
+    if (!listLandmarks || listLandmarks.length === 0 || !mapRef.current) {
+      return;
+    }
+    mapRef.current.fitBounds(
+      L.latLngBounds(
+        listLandmarks.map((landmark): L.LatLngTuple => [
+          landmark.lat,
+          landmark.lon,
+        ])
+      ),
+      { padding: [48, 48], maxZoom: 16 }
+    );
+  }, [listBoundsKey]);
+
+  const handleListItemSelect = useCallback(
+    (item: LandmarkListItem) => handleSearchSelect(listItemToLandmark(item)),
+    [handleSearchSelect]
+  );
+
+  const listsPanel = (
+    <ListsPanel
+      shareToken={shareToken}
+      openListId={openListId}
+      onOpenList={setOpenListId}
+      onExitShared={() => navigate("/")}
+      onSelectItem={handleListItemSelect}
+    />
+  );
+
+  // The Export menu saves whatever the current tab shows
+  const listName = shareToken ? sharedList?.list.name : openList?.list.name;
+  const exportSource: ExportSource | null =
+    sidebarTab === "nearby"
+      ? { name: "Nearby landmarks", landmarks: landmarks.slice(0, MAX_EXPORT_LANDMARKS) }
+      : sidebarTab === "saved"
+      ? {
+          name: "Saved landmarks",
+          landmarks: favorites.map(({ pageid, title, lat, lon, lang, detail }) => ({
+            pageid,
+            title,
+            lat,
+            lon,
+            lang,
+            category: detail?.category,
+            url: detail?.url,
+            extract: detail?.extract,
+          })),
+        }
+      : sidebarTab === "lists"
+      ? listLandmarks
+        ? { name: listName ?? "Landmark list", landmarks: listLandmarks }
+        : null
+      : tour
+      ? { name: "Walking tour", landmarks: tour.stops, route: true }
+      : null;
+
+  // Files dropped on the map or picked in the Layers tab open that tab and
+  // bring the new overlays into view
+  const handleOverlaysImported = useCallback((imported: MapOverlay[]) => {
+    setSidebarTab("layers");
+    const bounds = L.geoJSON(
+      imported.flatMap((overlay) => overlay.features)
+    ).getBounds();
+    if (bounds.isValid()) {
+      mapRef.current?.fitBounds(bounds, { padding: [48, 48], maxZoom: 16 });
+    }
+  }, []);
+  const {
+    overlays: mapOverlays,
+    hidden: hiddenOverlays,
+    setHidden: setHiddenOverlays,
+    savingId: savingOverlayId,
+    isImporting: importingOverlays,
+    importFiles: handleImportFiles,
+    saveOverlay: handleSaveOverlay,
+    removeOverlay: handleRemoveOverlay,
+    draggingFiles,
+    dropHandlers,
+  } = useMapOverlays(handleOverlaysImported);
+
+  const handleSelectFeature = useCallback((feature: OverlayFeature) => {
+    if (!mapRef.current) return;
+    if (feature.geometry.type === "Point") {
+      const [lon, lat] = feature.geometry.coordinates;
+      mapRef.current.flyTo([lat, lon], Math.max(mapRef.current.getZoom(), 16));
+    } else {
+      mapRef.current.flyToBounds(L.geoJSON(feature).getBounds(), {
+        padding: [48, 48],
+        maxZoom: 17,
+      });
+    }
+  }, []);
+
+  const overlayPanel = (
+    <OverlayPanel
+      overlays={mapOverlays}
+      hidden={hiddenOverlays}
+      onHiddenChange={setHiddenOverlays}
+      canSave={!!user}
+      savingId={savingOverlayId}
+      isImporting={importingOverlays}
+      onImport={handleImportFiles}
+      onSave={handleSaveOverlay}
+      onRemove={handleRemoveOverlay}
+      onSelectFeature={handleSelectFeature}
+    />
+  );
+
+  // Custom landmarks: a pin dropped by clicking the map, then described
+  const [placingPin, setPlacingPin] = useState(false);
+  const [draftPin, setDraftPin] = useState<{ lat: number; lon: number } | null>(
+    null
+  );
+
+  const stopPlacingPin = useCallback(() => {
+    setPlacingPin(false);
+    setDraftPin(null);
+  }, []);
+
+  const handleCustomLandmarkCreated = useCallback(
+    (landmark: CustomLandmark) => {
+      stopPlacingPin();
+      setSelectedLandmark({
+        pageid: landmark.id,
+        lang: language,
+        source: "custom",
+      });
+    },
+    [stopPlacingPin, language]
   );
 
+  // Moving the map triggers the landmark search for the new area
+  const handlePlaceSelect = useCallback((place: Place) => {
+    if (!mapRef.current) return;
+    if (place.bounds) {
+      mapRef.current.flyToBounds(
+        [
+          [place.bounds.south, place.bounds.west],
+          [place.bounds.north, place.bounds.east],
+        ],
+        { maxZoom: 16 }
+      );
+    } else {
+      mapRef.current.flyTo([place.lat, place.lon], 13);
+    }
+  }, []);
+
+  // Region packs: the area in view or one dragged out on the map,
+  // downloaded for offline use from the header menu
+  const [packsOpen, setPacksOpen] = useState(false);
+  const [drawingPackArea, setDrawingPackArea] = useState(false);
+  const [packArea, setPackArea] = useState<PackArea | null>(null);
+
+  const handleDrawPackArea = useCallback(() => {
+    setPacksOpen(false);
+    setPackArea(null);
+    setDrawingPackArea(true);
+  }, []);
+
+  const handlePackAreaDrawn = useCallback((area: PackArea) => {
+    setDrawingPackArea(false);
+    setPackArea(area);
+    setPacksOpen(true);
+  }, []);
+
+  const handleShowPack = useCallback((pack: RegionPack) => {
+    const { south, west, north, east } = pack.request;
+    setPacksOpen(false);
+    mapRef.current?.flyToBounds([
+      [south, west],
+      [north, east],
+    ]);
+  }, []);
+
   return (
-    <div className="relative w-full h-screen overflow-hidden">
+    <div
+      className="relative w-full h-screen overflow-hidden"
+      {...dropHandlers}
+    >
       {/* Map Container */}
       <div
-        className={`absolute inset-0 ${selectedPageid ? "lg:right-96" : ""} ${
-          landmarks.length > 0 ? "lg:left-80" : ""
+        className={`absolute inset-0 ${selectedLandmark ? "lg:right-96" : ""} ${
+          allLandmarks.length > 0 || listLandmarks || tour || mapOverlays.length > 0
+            ? "lg:left-80"
+            : ""
         } transition-all duration-300`}
       >
         <MapContainer
@@ -418,19 +622,72 @@ export default function MapPage() {
           zoomControl={false}
           ref={mapRef}
         >
-          <TileLayer
-            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          {/* Keyed so a new base map brings its own attribution */}
+          <PackTileLayer
+            key={baseMap.id}
+            layer={baseMap.id}
+            attribution={baseMap.attribution}
+            url={baseMap.url}
+            maxZoom={baseMap.maxZoom}
           />
 
-          <MapController onMapMove={handleMapMove} onLocate={handleLocate} />
+          {/* Shared lists fit the map to their landmarks instead */}
+          <MapController
+            onMapMove={handleMapMove}
+            onLocate={shareToken ? undefined : handleLocate}
+          />
 
-          {landmarks.map((landmark) => (
+          <PinDropController active={placingPin} onDrop={setDraftPin} />
+          <AreaDrawController
+            active={drawingPackArea}
+            area={packArea}
+            onDraw={handlePackAreaDrawn}
+          />
+          {draftPin && (
             <Marker
-              key={landmark.pageid}
+              position={[draftPin.lat, draftPin.lon]}
+              icon={getMarkerIcon("other", { custom: true })}
+            />
+          )}
+
+          {mapOverlays.map(
+            (overlay, index) =>
+              !hiddenOverlays.includes(overlay.id) && (
+                <OverlayLayer
+                  key={overlay.id}
+                  overlay={overlay}
+                  color={getOverlayColor(index)}
+                />
+              )
+          )}
+
+          {tourLandmarks && tour && (
+            <TourLayer tour={tour} onSelectStop={handleSelectLandmark} />
+          )}
+
+          {mapLandmarks.map((landmark) => (
+            <Marker
+              key={landmarkKey(landmark)}
               position={[landmark.lat, landmark.lon]}
+              icon={getMarkerIcon(getCategory(landmark), {
+                custom: isCustomLandmark(landmark),
+                saved:
+                  !isCustomLandmark(landmark) &&
+                  isSaved(landmark.pageid, landmark.lang ?? language),
+                visited:
+                  !isCustomLandmark(landmark) &&
+                  isVisited(landmark.pageid, landmark.lang ?? language),
+              })}
               eventHandlers={{
-                click: () => setSelectedPageid(landmark.pageid),
+                click: () => {
+                  // Clicks while dropping a pin go to the map instead
+                  if (placingPin) return;
+                  setSelectedLandmark({
+                    pageid: landmark.pageid,
+                    lang: landmark.lang ?? language,
+                    source: landmark.source,
+                  });
+                },
               }}
             >
               <Popup>
@@ -479,14 +736,104 @@ export default function MapPage() {
           </div>
         )}
 
+        {/* Category legend and filter (mobile) */}
+        {!listLandmarks && (
+          <MapLegend
+            counts={categoryCounts}
+            hidden={hiddenCategories}
+            onChange={setHiddenCategories}
+          />
+        )}
+
+        {/* Drop-a-pin form for custom landmarks */}
+        {placingPin && (
+          <div className="absolute top-20 left-1/2 -translate-x-1/2 z-[1000] w-80 max-w-[calc(100%-2rem)]">
+            {draftPin ? (
+              <CustomLandmarkForm
+                position={draftPin}
+                onCancel={stopPlacingPin}
+                onCreated={handleCustomLandmarkCreated}
+              />
+            ) : (
+              <Badge
+                variant="secondary"
+                className="w-full justify-between gap-2 py-2 px-3 shadow-md"
+              >
+                <span className="text-xs">Click the map to drop a pin</span>
+                <button
+                  onClick={stopPlacingPin}
+                  aria-label="Cancel adding place"
+                  data-testid="button-cancel-place"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            )}
+          </div>
+        )}
+
+        {drawingPackArea && (
+          <div className="absolute top-20 left-1/2 -translate-x-1/2 z-[1000] w-80 max-w-[calc(100%-2rem)]">
+            <Badge
+              variant="secondary"
+              className="w-full justify-between gap-2 py-2 px-3 shadow-md"
+            >
+              <span className="text-xs">Drag on the map to pick the area to download</span>
+              <button
+                onClick={() => {
+                  setDrawingPackArea(false);
+                  setPacksOpen(true);
+                }}
+                aria-label="Cancel picking an area"
+                data-testid="button-cancel-pack-area"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          </div>
+        )}
+
+        {/* Add Place Button (signed-in users) */}
+        {user && (
+          <div className="absolute bottom-44 right-4 z-[1000] lg:bottom-20">
+            <Button
+              size="icon"
+              variant={placingPin ? "default" : "secondary"}
+              onClick={() => (placingPin ? stopPlacingPin() : setPlacingPin(true))}
+              className="rounded-full shadow-lg h-12 w-12"
+              aria-label="Add a place"
+              aria-pressed={placingPin}
+              data-testid="button-add-place"
+            >
+              <MapPinPlus className="h-5 w-5" />
+            </Button>
+          </div>
+        )}
+
         {/* Location Button */}
         <LocationButton onClick={handleLocate} />
       </div>
 
       {/* Sidebar with landmark list (desktop only) */}
       <LandmarkListSidebar
+        tab={sidebarTab}
+        onTabChange={setSidebarTab}
+        listsPanel={listsPanel}
+        tourPanel={tourPanel}
+        overlayPanel={overlayPanel}
+        exportSource={exportSource}
         landmarks={landmarks}
+        complete={complete}
+        lang={language}
+        categoryCounts={categoryCounts}
+        hiddenCategories={hiddenCategories}
+        onHiddenCategoriesChange={setHiddenCategories}
         onSelectLandmark={handleSelectLandmark}
+        onSelectSaved={handleSavedSelect}
+        onSelectNote={handleNoteSelect}
+        tags={noteTags}
+        selectedTags={activeTags}
+        onSelectedTagsChange={setSelectedTags}
         isLoading={isLoading}
         error={error}
         onRetry={() => refetch()}
@@ -494,20 +841,76 @@ export default function MapPage() {
 
       {/* Landmark Detail Panel */}
       <LandmarkDetailPanel
-        pageid={selectedPageid}
-        onClose={() => setSelectedPageid(null)}
+        selected={selectedLandmark}
+        preferredLang={language}
+        onClose={() => setSelectedLandmark(null)}
       />
 
+      {/* Drop target for overlay files */}
+      {draggingFiles && (
+        <div
+          className="absolute inset-0 z-[1500] flex items-center justify-center bg-primary/10 border-4 border-dashed border-primary pointer-events-none"
+          data-testid="overlay-drop-target"
+        >
+          <Badge variant="secondary" className="gap-2 py-2 px-4 shadow-lg">
+            <FileUp className="h-4 w-4" />
+            <span className="text-sm">Drop GeoJSON, GPX or KML files to add them to the map</span>
+          </Badge>
+        </div>
+      )}
+
       {/* Header */}
       <div className="absolute top-0 left-0 right-0 z-[999] backdrop-blur-sm bg-background/80 border-b">
         <div className="flex items-center justify-between h-16 px-4 lg:px-6">
           <div className="flex items-center gap-2">
             <MapPin className="h-6 w-6 text-primary" />
-            <h1 className="text-xl font-semibold">Local Landmarks</h1>
+            <h1 className="hidden sm:block text-xl font-semibold">
+              Local Landmarks
+            </h1>
+          </div>
+          <div className="flex-1 max-w-md mx-2 sm:mx-4">
+            <MapSearch
+              lang={language}
+              onSelectPlace={handlePlaceSelect}
+              onSelectLandmark={handleSearchSelect}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <LanguagePicker value={language} onChange={setLanguage} />
+            <BaseMapPicker
+              sources={baseMaps}
+              value={baseMapChoice}
+              onChange={setBaseMapChoice}
+            />
+            <RegionPacksMenu
+              open={packsOpen}
+              onOpenChange={setPacksOpen}
+              viewArea={searchParams}
+              drawnArea={packArea}
+              zoom={mapZoom}
+              lang={language}
+              baseMap={baseMap}
+              onDrawArea={handleDrawPackArea}
+              onClearArea={() => setPackArea(null)}
+              onShowPack={handleShowPack}
+            />
+            {offline ? (
+              <Badge
+                variant="secondary"
+                className="gap-1"
+                title="No connection; showing landmarks and map tiles saved on this device"
+                data-testid="badge-offline"
+              >
+                <WifiOff className="h-3 w-3" />
+                <span className="text-xs">Offline</span>
+              </Badge>
+            ) : (
+              <Badge variant="outline" className="hidden md:inline-flex gap-2">
+                <span className="text-xs">Powered by Wikipedia</span>
+              </Badge>
+            )}
+            <UserMenu />
           </div>
-          <Badge variant="outline" className="gap-2">
-            <span className="text-xs">Powered by Wikipedia</span>
-          </Badge>
         </div>
       </div>
     </div>
@@ -0,0 +1,28 @@
+export type Limiter = <T>(fn: () => Promise<T>) => Promise<T>;
+
+// Returns a wrapper that runs at most `concurrency` functions at once,
+// queueing the rest in call order
+export function createLimiter(concurrency: number): Limiter {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  return async function limit<T>(fn: () => Promise<T>): Promise<T> {
+    if (active >= concurrency) {
+      // The finishing call hands its slot straight to us
+      await new Promise<void>((resolve) => queue.push(resolve));
+    } else {
+      active++;
+    }
+
+    try {
+      return await fn();
+    } finally {
+      const next = queue.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+}
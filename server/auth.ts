@@ -0,0 +1,185 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { credentialsSchema, type PublicUser, type User as SelectUser } from "@shared/schema";
+import { pool } from "./db";
+import { asyncRoute } from "./routes/handler";
+import { isUniqueViolation, type IStorage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// Hashes are stored as "<hex hash>.<hex salt>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) {
+    return false;
+  }
+  const storedHash = Buffer.from(hashed, "hex");
+  const suppliedHash = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return storedHash.length === suppliedHash.length && timingSafeEqual(storedHash, suppliedHash);
+}
+
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { password: _password, ...rest } = user;
+  return rest;
+}
+
+// Postgres-backed sessions in production, in-memory (with expiry pruning)
+// everywhere else
+function createSessionStore(production: boolean): session.Store {
+  if (production && pool) {
+    const PgStore = connectPgSimple(session);
+    return new PgStore({ pool, createTableIfMissing: true });
+  }
+  if (production) {
+    console.warn("DATABASE_URL is not set; sessions are kept in memory");
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+// Rejects requests without a signed-in user
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    res.status(401).json({ error: "Not signed in" });
+    return;
+  }
+  next();
+}
+
+export function setupAuth(app: Express, storage: IStorage) {
+  const production = app.get("env") === "production";
+  const secret = process.env.SESSION_SECRET;
+
+  if (production && !secret) {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  if (production) {
+    app.set("trust proxy", 1);
+  }
+
+  app.use(session({
+    secret: secret || "local-landmarks-dev-secret",
+    resave: false,
+    saveUninitialized: false,
+    store: createSessionStore(production),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: production,
+      maxAge: SESSION_MAX_AGE,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username.trim());
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      // An unknown id (e.g. after a MemStorage restart) just ends the session
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post(
+    "/api/register",
+    asyncRoute("register", async (req, res, next) => {
+      const { username, password } = credentialsSchema.parse(req.body);
+
+      if (await storage.getUserByUsername(username)) {
+        res.status(409).json({ error: "Username already taken" });
+        return;
+      }
+
+      const user = await storage.createUser({
+        username,
+        password: await hashPassword(password),
+      });
+
+      req.login(user, (error) => {
+        if (error) {
+          next(error);
+          return;
+        }
+        res.status(201).json(toPublicUser(user));
+      });
+    }, {
+      // Taken by a concurrent registration since the check above
+      mapError: (error) =>
+        isUniqueViolation(error)
+          ? { status: 409, body: { error: "Username already taken" } }
+          : undefined,
+    }),
+  );
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (error: unknown, user: SelectUser | false) => {
+      if (error) {
+        next(error);
+        return;
+      }
+      if (!user) {
+        res.status(401).json({ error: "Invalid username or password" });
+        return;
+      }
+      req.login(user, (loginError) => {
+        if (loginError) {
+          next(loginError);
+          return;
+        }
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) {
+        next(error);
+        return;
+      }
+      res.sendStatus(204);
+    });
+  });
+
+  app.get("/api/me", requireAuth, (req, res) => {
+    res.json(toPublicUser(req.user!));
+  });
+}
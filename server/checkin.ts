@@ -0,0 +1,41 @@
+import type { CheckInPolicy, CheckInPosition, Landmark } from "@shared/schema";
+import { haversineDistance } from "./geo";
+
+// Check-ins can optionally be tied to the browser's position:
+// CHECKIN_REQUIRE_POSITION=true rejects check-ins without one, and any
+// position sent must be within CHECKIN_MAX_DISTANCE meters of the landmark.
+export const CHECKIN_POLICY: CheckInPolicy = {
+  requirePosition: process.env.CHECKIN_REQUIRE_POSITION === "true",
+  maxDistance: parseInt(process.env.CHECKIN_MAX_DISTANCE || "250", 10),
+};
+
+export type CheckInResult =
+  | { ok: true; verified: boolean; distance: number | null }
+  | { ok: false; error: string; distance?: number };
+
+export function checkPosition(
+  landmark: Pick<Landmark, "lat" | "lon">,
+  position: CheckInPosition | undefined,
+  policy: CheckInPolicy = CHECKIN_POLICY,
+): CheckInResult {
+  if (!position) {
+    return policy.requirePosition
+      ? { ok: false, error: "Your current position is required to check in" }
+      : { ok: true, verified: false, distance: null };
+  }
+
+  const distance = haversineDistance(position.lat, position.lon, landmark.lat, landmark.lon);
+  // Give the benefit of the doubt for GPS error, but never more than the
+  // allowed distance itself so a vague fix can't check in from afar
+  const slack = Math.min(position.accuracy ?? 0, policy.maxDistance);
+
+  if (distance - slack > policy.maxDistance) {
+    return {
+      ok: false,
+      error: `You need to be within ${policy.maxDistance}m of the landmark to check in`,
+      distance,
+    };
+  }
+
+  return { ok: true, verified: true, distance };
+}
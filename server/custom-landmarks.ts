@@ -0,0 +1,119 @@
+import type {
+  Bounds,
+  CustomLandmark,
+  Landmark,
+  LandmarkCategory,
+  LandmarkDetail,
+  LandmarkSearchResult,
+} from "@shared/schema";
+import { destinationPoint, haversineDistance } from "./geo";
+import type { IStorage } from "./storage";
+import { boundsCenter } from "./tiling";
+
+// User-dropped pins are stored separately and merged into provider results
+// for their creator only. They reuse `pageid` for their own id and are told
+// apart by `source: "custom"`.
+
+export function customToLandmark(custom: CustomLandmark): Landmark {
+  return {
+    pageid: custom.id,
+    title: custom.title,
+    lat: custom.lat,
+    lon: custom.lon,
+    category: custom.category,
+    source: "custom",
+  };
+}
+
+export function customToDetail(custom: CustomLandmark): LandmarkDetail {
+  return {
+    ...customToLandmark(custom),
+    ...(custom.description && { extract: custom.description }),
+  };
+}
+
+// Box around a search circle, clipped to valid coordinates
+function circleBounds(lat: number, lon: number, radius: number): Bounds {
+  const north = destinationPoint(lat, lon, radius, 0).lat;
+  const south = destinationPoint(lat, lon, radius, 180).lat;
+  const lonSpan = Math.abs(destinationPoint(lat, lon, radius, 90).lon - lon);
+  return {
+    south: Math.max(-90, south),
+    west: Math.max(-180, lon - lonSpan),
+    north: Math.min(90, north),
+    east: Math.min(180, lon + lonSpan),
+  };
+}
+
+function inCategories(custom: CustomLandmark, categories: LandmarkCategory[] | undefined) {
+  return !categories?.length || categories.includes(custom.category);
+}
+
+// Provider results are all marked as such so clients can rely on `source`
+function markProviderSource(result: LandmarkSearchResult): LandmarkSearchResult {
+  return {
+    ...result,
+    landmarks: result.landmarks.map((landmark) => ({
+      ...landmark,
+      source: landmark.source ?? "wikipedia",
+    })),
+  };
+}
+
+export async function mergeCustomIntoRadius(
+  storage: IStorage,
+  userId: string | undefined,
+  result: LandmarkSearchResult,
+  params: { lat: number; lon: number; radius: number; categories?: LandmarkCategory[] },
+): Promise<LandmarkSearchResult> {
+  const marked = markProviderSource(result);
+  if (!userId) {
+    return marked;
+  }
+
+  const custom = (await storage.getCustomLandmarks(
+    userId,
+    circleBounds(params.lat, params.lon, params.radius),
+  ))
+    .filter((landmark) => inCategories(landmark, params.categories))
+    .map((landmark) => ({
+      ...customToLandmark(landmark),
+      dist: haversineDistance(params.lat, params.lon, landmark.lat, landmark.lon),
+    }))
+    .filter((landmark) => landmark.dist <= params.radius);
+
+  return {
+    ...marked,
+    landmarks: [...marked.landmarks, ...custom].sort(
+      (a, b) => (a.dist ?? 0) - (b.dist ?? 0),
+    ),
+  };
+}
+
+export async function mergeCustomIntoBounds(
+  storage: IStorage,
+  userId: string | undefined,
+  result: LandmarkSearchResult,
+  params: Bounds & { categories?: LandmarkCategory[] },
+): Promise<LandmarkSearchResult> {
+  const marked = markProviderSource(result);
+  if (!userId) {
+    return marked;
+  }
+
+  // Distances from the box centre, like the provider results
+  const center = boundsCenter(params);
+  const custom = (await storage.getCustomLandmarks(userId, params))
+    .filter((landmark) => inCategories(landmark, params.categories))
+    .map((landmark) => ({
+      ...customToLandmark(landmark),
+      dist: haversineDistance(center.lat, center.lon, landmark.lat, landmark.lon),
+    }));
+
+  return {
+    ...marked,
+    landmarks: [...marked.landmarks, ...custom].sort(
+      (a, b) => (a.dist ?? 0) - (b.dist ?? 0),
+    ),
+  };
+}
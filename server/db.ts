@@ -0,0 +1,18 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Shared connection pool for Drizzle and the session store; only created
+// when a database is configured
+export const pool = process.env.DATABASE_URL
+  ? new Pool({ connectionString: process.env.DATABASE_URL })
+  : undefined;
+
+export function createDb(client: Pool) {
+  return drizzle({ client, schema });
+}
+
+export type Database = ReturnType<typeof createDb>;
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import type { ExportLandmark, LandmarkDetail } from "@shared/schema";
+import { exportLandmarks, withDetails } from "./export";
+import type { LandmarkProvider } from "./providers";
+
+const LANDMARKS: ExportLandmark[] = [
+  {
+    pageid: 1,
+    title: `Tom & Jerry's "<Café>"`,
+    lat: 48.8584,
+    lon: 2.2945,
+    category: "monument",
+    url: "https://example.com/?a=1&b=2",
+    extract: "Line one,\nline two",
+  },
+  { pageid: 2, title: "=HYPERLINK(\"http://evil\")", lat: 48.86, lon: 2.3376, lang: "fr" },
+];
+
+function csvRows(body: string): string[] {
+  return body.replace(/^\uFEFF/, "").split("\r\n");
+}
+
+describe("exportLandmarks", () => {
+  it("writes a GeoJSON FeatureCollection with a route line", () => {
+    const file = exportLandmarks("geojson", "Paris walk", LANDMARKS, true);
+    const collection = JSON.parse(file.body);
+
+    expect(file.filename).toBe("paris-walk.geojson");
+    expect(file.contentType).toBe("application/geo+json; charset=utf-8");
+    expect(collection.name).toBe("Paris walk");
+    expect(collection.features).toHaveLength(3);
+    expect(collection.features[1]).toMatchObject({
+      geometry: { type: "Point", coordinates: [2.3376, 48.86] },
+      properties: { order: 2, lang: "fr", source: "wikipedia", url: null },
+    });
+    expect(collection.features[2].geometry).toEqual({
+      type: "LineString",
+      coordinates: [
+        [2.2945, 48.8584],
+        [2.3376, 48.86],
+      ],
+    });
+  });
+
+  it("escapes text in GPX", () => {
+    const { body } = exportLandmarks("gpx", "Walk <1>", LANDMARKS, true);
+
+    expect(body).toContain("<name>Walk &lt;1&gt;</name>");
+    expect(body).toContain("<name>Tom &amp; Jerry&apos;s &quot;&lt;Café&gt;&quot;</name>");
+    expect(body).toContain('<link href="https://example.com/?a=1&amp;b=2" />');
+    expect(body).not.toContain("<Café>");
+    expect(body.match(/<wpt /g)).toHaveLength(2);
+    expect(body.match(/<rtept /g)).toHaveLength(2);
+  });
+
+  it("leaves the route out of GPX unless asked", () => {
+    const { body } = exportLandmarks("gpx", "Walk", LANDMARKS);
+    expect(body).not.toContain("<rte>");
+  });
+
+  it("escapes text in KML", () => {
+    const { body, filename } = exportLandmarks("kml", "Walk", LANDMARKS, true);
+
+    expect(filename).toBe("walk.kml");
+    expect(body).toContain("<name>Tom &amp; Jerry&apos;s &quot;&lt;Café&gt;&quot;</name>");
+    expect(body).toContain(
+      "<description>Line one,\nline two\n\nhttps://example.com/?a=1&amp;b=2</description>",
+    );
+    expect(body).toContain("<coordinates>2.2945,48.8584 2.3376,48.86</coordinates>");
+  });
+
+  it("quotes CSV fields per RFC 4180", () => {
+    const { body } = exportLandmarks("csv", "Walk", LANDMARKS);
+    const rows = csvRows(body);
+
+    expect(body.startsWith("\uFEFF")).toBe(true);
+    expect(rows[0]).toBe("title,lat,lon,category,url,extract,pageid,lang,source");
+    expect(body).toContain(
+      `"Tom & Jerry's ""<Café>""",48.8584,2.2945,monument,` +
+        `https://example.com/?a=1&b=2,"Line one,\nline two",1,,wikipedia`,
+    );
+  });
+
+  it("defuses CSV text that spreadsheets would run as a formula", () => {
+    const landmarks: ExportLandmark[] = ["=1+1", "+1", "-1", "@SUM(A1)", "\tcmd"].map(
+      (title, index) => ({ pageid: index + 1, title, lat: 0, lon: -index }),
+    );
+    const rows = csvRows(exportLandmarks("csv", "Walk", landmarks).body);
+
+    expect(rows.slice(1, 6).map((row) => row.split(",").slice(0, 3))).toEqual([
+      ["'=1+1", "0", "0"],
+      ["'+1", "0", "-1"],
+      ["'-1", "0", "-2"],
+      ["'@SUM(A1)", "0", "-3"],
+      ["'\tcmd", "0", "-4"],
+    ]);
+  });
+
+  it("numbers CSV rows for a route", () => {
+    const rows = csvRows(exportLandmarks("csv", "Walk", LANDMARKS, true).body);
+
+    expect(rows[0].startsWith("order,title,")).toBe(true);
+    expect(rows[2]).toBe(`2,"'=HYPERLINK(""http://evil"")",48.86,2.3376,,,,2,fr,wikipedia`);
+    expect(rows[3]).toBe("");
+  });
+
+  it("falls back to a generic file name", () => {
+    expect(exportLandmarks("csv", "!!!", LANDMARKS).filename).toBe("landmarks.csv");
+  });
+});
+
+describe("withDetails", () => {
+  it("fills in missing URLs and extracts, leaving custom landmarks alone", async () => {
+    const requests: { pageids: number[]; lang: string }[] = [];
+    const provider = {
+      name: "fake",
+      async getDetails({ pageids, lang }: { pageids: number[]; lang: string }) {
+        requests.push({ pageids, lang });
+        return pageids
+          .filter((pageid) => pageid !== 3)
+          .map((pageid): LandmarkDetail => ({
+            pageid,
+            title: "",
+            lat: 0,
+            lon: 0,
+            url: `https://${lang}.example/${pageid}`,
+            extract: `About ${pageid}`,
+          }));
+      },
+    } as unknown as LandmarkProvider;
+
+    const result = await withDetails(provider, [
+      ...LANDMARKS,
+      { pageid: 3, title: "Unknown", lat: 0, lon: 0 },
+      { pageid: 4, title: "My pin", lat: 0, lon: 0, source: "custom" },
+    ]);
+
+    expect(requests).toEqual([
+      { pageids: [2], lang: "fr" },
+      { pageids: [3], lang: "en" },
+    ]);
+    expect(result.map(({ url, extract }) => ({ url, extract }))).toEqual([
+      { url: "https://example.com/?a=1&b=2", extract: "Line one,\nline two" },
+      { url: "https://fr.example/2", extract: "About 2" },
+      { url: "https://en.wikipedia.org/?curid=3", extract: undefined },
+      { url: undefined, extract: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,256 @@
+import {
+  DEFAULT_LANGUAGE,
+  MAX_DETAILS_BATCH,
+  type ExportFormat,
+  type ExportLandmark,
+} from "@shared/schema";
+import type { LandmarkProvider } from "./providers";
+
+// Serialisers for exported landmarks: GeoJSON FeatureCollection, GPX 1.1
+// waypoints (plus a route), KML placemarks and CSV rows
+
+export interface ExportFile {
+  body: string;
+  contentType: string;
+  filename: string;
+}
+
+const CREATOR = "Local Landmarks";
+
+const FORMATS: Record<ExportFormat, { extension: string; contentType: string }> = {
+  geojson: { extension: "geojson", contentType: "application/geo+json; charset=utf-8" },
+  gpx: { extension: "gpx", contentType: "application/gpx+xml; charset=utf-8" },
+  kml: { extension: "kml", contentType: "application/vnd.google-earth.kml+xml; charset=utf-8" },
+  csv: { extension: "csv", contentType: "text/csv; charset=utf-8" },
+};
+
+function isCustom(landmark: ExportLandmark): boolean {
+  return landmark.source === "custom";
+}
+
+// Add article URLs and extracts to Wikipedia landmarks that lack them,
+// fetching summaries in batches per language
+export async function withDetails(
+  provider: LandmarkProvider,
+  landmarks: ExportLandmark[],
+): Promise<ExportLandmark[]> {
+  const missing = new Map<string, number[]>();
+  for (const landmark of landmarks) {
+    if (isCustom(landmark) || (landmark.url && landmark.extract)) continue;
+    const lang = landmark.lang ?? DEFAULT_LANGUAGE;
+    missing.set(lang, [...(missing.get(lang) ?? []), landmark.pageid]);
+  }
+
+  const details = new Map<string, { url?: string; extract?: string }>();
+  for (const [lang, pageids] of Array.from(missing)) {
+    for (let i = 0; i < pageids.length; i += MAX_DETAILS_BATCH) {
+      const summaries = await provider.getDetails({
+        pageids: pageids.slice(i, i + MAX_DETAILS_BATCH),
+        lang,
+      });
+      for (const summary of summaries) {
+        details.set(`${lang}:${summary.pageid}`, summary);
+      }
+    }
+  }
+
+  return landmarks.map((landmark) => {
+    if (isCustom(landmark)) return landmark;
+    const lang = landmark.lang ?? DEFAULT_LANGUAGE;
+    const detail = details.get(`${lang}:${landmark.pageid}`);
+    return {
+      ...landmark,
+      url:
+        landmark.url ??
+        detail?.url ??
+        `https://${lang}.wikipedia.org/?curid=${landmark.pageid}`,
+      extract: landmark.extract ?? detail?.extract,
+    };
+  });
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function toGeoJson(name: string, landmarks: ExportLandmark[], route: boolean): string {
+  const features: object[] = landmarks.map((landmark, index) => ({
+    type: "Feature",
+    geometry: { type: "Point", coordinates: [landmark.lon, landmark.lat] },
+    properties: {
+      ...(route ? { order: index + 1 } : {}),
+      title: landmark.title,
+      pageid: landmark.pageid,
+      lang: landmark.lang ?? null,
+      source: landmark.source ?? "wikipedia",
+      category: landmark.category ?? null,
+      url: landmark.url ?? null,
+      extract: landmark.extract ?? null,
+    },
+  }));
+
+  if (route && landmarks.length > 1) {
+    features.push({
+      type: "Feature",
+      geometry: {
+        type: "LineString",
+        coordinates: landmarks.map((landmark) => [landmark.lon, landmark.lat]),
+      },
+      properties: { title: name },
+    });
+  }
+
+  return JSON.stringify({ type: "FeatureCollection", name, features }, null, 2);
+}
+
+function toGpx(name: string, landmarks: ExportLandmark[], route: boolean): string {
+  const point = (tag: string, landmark: ExportLandmark, indent: string) =>
+    [
+      `${indent}<${tag} lat="${landmark.lat}" lon="${landmark.lon}">`,
+      `${indent}  <name>${escapeXml(landmark.title)}</name>`,
+      ...(landmark.extract ? [`${indent}  <desc>${escapeXml(landmark.extract)}</desc>`] : []),
+      ...(landmark.url ? [`${indent}  <link href="${escapeXml(landmark.url)}" />`] : []),
+      ...(landmark.category ? [`${indent}  <type>${landmark.category}</type>`] : []),
+      `${indent}</${tag}>`,
+    ].join("\n");
+
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    `  <metadata>`,
+    `    <name>${escapeXml(name)}</name>`,
+    `    <time>${new Date().toISOString()}</time>`,
+    `  </metadata>`,
+    ...landmarks.map((landmark) => point("wpt", landmark, "  ")),
+  ];
+
+  if (route) {
+    lines.push(
+      `  <rte>`,
+      `    <name>${escapeXml(name)}</name>`,
+      ...landmarks.map((landmark) => point("rtept", landmark, "    ")),
+      `  </rte>`,
+    );
+  }
+
+  lines.push(`</gpx>`, "");
+  return lines.join("\n");
+}
+
+function toKml(name: string, landmarks: ExportLandmark[], route: boolean): string {
+  const placemarks = landmarks.map((landmark) => {
+    const description = [landmark.extract, landmark.url].filter(Boolean).join("\n\n");
+    return [
+      `    <Placemark>`,
+      `      <name>${escapeXml(landmark.title)}</name>`,
+      ...(description ? [`      <description>${escapeXml(description)}</description>`] : []),
+      `      <Point><coordinates>${landmark.lon},${landmark.lat}</coordinates></Point>`,
+      `    </Placemark>`,
+    ].join("\n");
+  });
+
+  if (route && landmarks.length > 1) {
+    placemarks.push(
+      [
+        `    <Placemark>`,
+        `      <name>${escapeXml(name)}</name>`,
+        `      <LineString>`,
+        `        <tessellate>1</tessellate>`,
+        `        <coordinates>${landmarks
+          .map((landmark) => `${landmark.lon},${landmark.lat}`)
+          .join(" ")}</coordinates>`,
+        `      </LineString>`,
+        `    </Placemark>`,
+      ].join("\n"),
+    );
+  }
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<kml xmlns="http://www.opengis.net/kml/2.2">`,
+    `  <Document>`,
+    `    <name>${escapeXml(name)}</name>`,
+    ...placemarks,
+    `  </Document>`,
+    `</kml>`,
+    "",
+  ].join("\n");
+}
+
+// Quote per RFC 4180, and defuse text that spreadsheets would run as a
+// formula
+function csvField(value: string | number | undefined, text = false): string {
+  if (value === undefined) return "";
+  let field = String(value);
+  if (text && /^[=+\-@\t\r]/.test(field)) {
+    field = `'${field}`;
+  }
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+function toCsv(landmarks: ExportLandmark[], route: boolean): string {
+  const header = [
+    ...(route ? ["order"] : []),
+    "title",
+    "lat",
+    "lon",
+    "category",
+    "url",
+    "extract",
+    "pageid",
+    "lang",
+    "source",
+  ];
+  const rows = landmarks.map((landmark, index) =>
+    [
+      ...(route ? [csvField(index + 1)] : []),
+      csvField(landmark.title, true),
+      csvField(landmark.lat),
+      csvField(landmark.lon),
+      csvField(landmark.category),
+      csvField(landmark.url, true),
+      csvField(landmark.extract, true),
+      csvField(landmark.pageid),
+      csvField(landmark.lang),
+      csvField(landmark.source ?? "wikipedia"),
+    ].join(","),
+  );
+  // A byte order mark so spreadsheets read non-Latin titles as UTF-8
+  return "\uFEFF" + [header.join(","), ...rows, ""].join("\r\n");
+}
+
+function fileSlug(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return slug || "landmarks";
+}
+
+export function exportLandmarks(
+  format: ExportFormat,
+  name: string,
+  landmarks: ExportLandmark[],
+  route = false,
+): ExportFile {
+  const body =
+    format === "geojson"
+      ? toGeoJson(name, landmarks, route)
+      : format === "gpx"
+      ? toGpx(name, landmarks, route)
+      : format === "kml"
+      ? toKml(name, landmarks, route)
+      : toCsv(landmarks, route);
+
+  return {
+    body,
+    contentType: FORMATS[format].contentType,
+    filename: `${fileSlug(name)}.${FORMATS[format].extension}`,
+  };
+}
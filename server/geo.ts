@@ -0,0 +1,73 @@
+import type { Bounds, OverlayFeature } from "@shared/schema";
+
+// Geographic helpers shared by the landmark providers and routes
+
+const EARTH_RADIUS_METERS = 6371000;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+// Great-circle distance between two coordinates in meters
+export function haversineDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number,
+): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// Point reached by travelling `distance` meters from a coordinate on the
+// given initial bearing (degrees clockwise from north)
+export function destinationPoint(
+  lat: number,
+  lon: number,
+  distance: number,
+  bearing: number,
+): { lat: number; lon: number } {
+  const angular = distance / EARTH_RADIUS_METERS;
+  const theta = toRadians(bearing);
+  const phi1 = toRadians(lat);
+  const lambda1 = toRadians(lon);
+
+  const phi2 = Math.asin(
+    Math.sin(phi1) * Math.cos(angular) +
+      Math.cos(phi1) * Math.sin(angular) * Math.cos(theta),
+  );
+  const lambda2 =
+    lambda1 +
+    Math.atan2(
+      Math.sin(theta) * Math.sin(angular) * Math.cos(phi1),
+      Math.cos(angular) - Math.sin(phi1) * Math.sin(phi2),
+    );
+
+  return {
+    lat: (phi2 * 180) / Math.PI,
+    lon: ((((lambda2 * 180) / Math.PI) + 540) % 360) - 180,
+  };
+}
+
+// Smallest box around every coordinate of the features
+export function featureBounds(features: OverlayFeature[]): Bounds {
+  const bounds = { south: 90, west: 180, north: -90, east: -180 };
+  const extend = (coordinates: unknown): void => {
+    if (typeof (coordinates as number[])[0] === "number") {
+      const [lon, lat] = coordinates as number[];
+      bounds.south = Math.min(bounds.south, lat);
+      bounds.west = Math.min(bounds.west, lon);
+      bounds.north = Math.max(bounds.north, lat);
+      bounds.east = Math.max(bounds.east, lon);
+    } else {
+      (coordinates as unknown[]).forEach(extend);
+    }
+  };
+  features.forEach((feature) => extend(feature.geometry.coordinates));
+  return bounds;
+}
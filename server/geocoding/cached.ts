@@ -0,0 +1,32 @@
+import type { GeocodeRequest, Place } from "@shared/schema";
+import type { IStorage } from "../storage";
+import type { Geocoder } from "./types";
+
+// Place names rarely move; a day keeps us well within upstream usage policies
+const GEOCODE_TTL = 24 * 60 * 60 * 1000;
+
+// Caches geocoding results in IStorage, keyed by normalised query
+export class CachedGeocoder implements Geocoder {
+  readonly name: string;
+
+  constructor(
+    private geocoder: Geocoder,
+    private storage: IStorage,
+    private ttlMs = GEOCODE_TTL,
+  ) {
+    this.name = geocoder.name;
+  }
+
+  async geocode(params: GeocodeRequest): Promise<Place[]> {
+    const key = `${params.lang}:${params.limit}:${params.q.toLowerCase()}`;
+    const entry = await this.storage.getCacheEntry("geocode", key);
+
+    if (entry && Date.now() - entry.storedAt < this.ttlMs) {
+      return entry.value;
+    }
+
+    const places = await this.geocoder.geocode(params);
+    await this.storage.setCacheEntry("geocode", key, places);
+    return places;
+  }
+}
@@ -0,0 +1,149 @@
+// Offline gazetteer of major world cities for development and tests:
+// [name, country, lat, lon, population]
+export const CITIES: [string, string, number, number, number][] = [
+  ["Tokyo", "Japan", 35.6895, 139.6917, 37400000],
+  ["Delhi", "India", 28.6139, 77.209, 31000000],
+  ["Shanghai", "China", 31.2304, 121.4737, 27100000],
+  ["São Paulo", "Brazil", -23.5505, -46.6333, 22000000],
+  ["Mexico City", "Mexico", 19.4326, -99.1332, 21800000],
+  ["Cairo", "Egypt", 30.0444, 31.2357, 21300000],
+  ["Mumbai", "India", 19.076, 72.8777, 20700000],
+  ["Beijing", "China", 39.9042, 116.4074, 20500000],
+  ["Dhaka", "Bangladesh", 23.8103, 90.4125, 21000000],
+  ["Osaka", "Japan", 34.6937, 135.5023, 19100000],
+  ["New York", "United States", 40.7128, -74.006, 18800000],
+  ["Karachi", "Pakistan", 24.8607, 67.0011, 16500000],
+  ["Buenos Aires", "Argentina", -34.6037, -58.3816, 15200000],
+  ["Istanbul", "Turkey", 41.0082, 28.9784, 15400000],
+  ["Kolkata", "India", 22.5726, 88.3639, 14900000],
+  ["Manila", "Philippines", 14.5995, 120.9842, 13900000],
+  ["Lagos", "Nigeria", 6.5244, 3.3792, 14300000],
+  ["Rio de Janeiro", "Brazil", -22.9068, -43.1729, 13500000],
+  ["Guangzhou", "China", 23.1291, 113.2644, 13300000],
+  ["Los Angeles", "United States", 34.0522, -118.2437, 12400000],
+  ["Moscow", "Russia", 55.7558, 37.6173, 12500000],
+  ["Shenzhen", "China", 22.5431, 114.0579, 12400000],
+  ["Lahore", "Pakistan", 31.5204, 74.3587, 12600000],
+  ["Bangalore", "India", 12.9716, 77.5946, 12300000],
+  ["Paris", "France", 48.8566, 2.3522, 11000000],
+  ["Bogotá", "Colombia", 4.711, -74.0721, 10900000],
+  ["Jakarta", "Indonesia", -6.2088, 106.8456, 10600000],
+  ["Chennai", "India", 13.0827, 80.2707, 10900000],
+  ["Lima", "Peru", -12.0464, -77.0428, 10700000],
+  ["Bangkok", "Thailand", 13.7563, 100.5018, 10500000],
+  ["Seoul", "South Korea", 37.5665, 126.978, 9900000],
+  ["Nagoya", "Japan", 35.1815, 136.9066, 9500000],
+  ["Hyderabad", "India", 17.385, 78.4867, 10000000],
+  ["London", "United Kingdom", 51.5074, -0.1278, 9300000],
+  ["Tehran", "Iran", 35.6892, 51.389, 9100000],
+  ["Chicago", "United States", 41.8781, -87.6298, 8900000],
+  ["Chengdu", "China", 30.5728, 104.0668, 9100000],
+  ["Nanjing", "China", 32.0603, 118.7969, 9000000],
+  ["Wuhan", "China", 30.5928, 114.3055, 8400000],
+  ["Ho Chi Minh City", "Vietnam", 10.8231, 106.6297, 8800000],
+  ["Luanda", "Angola", -8.839, 13.2894, 8300000],
+  ["Ahmedabad", "India", 23.0225, 72.5714, 8100000],
+  ["Kuala Lumpur", "Malaysia", 3.139, 101.6869, 8000000],
+  ["Hong Kong", "China", 22.3193, 114.1694, 7500000],
+  ["Riyadh", "Saudi Arabia", 24.7136, 46.6753, 7500000],
+  ["Baghdad", "Iraq", 33.3152, 44.3661, 7300000],
+  ["Santiago", "Chile", -33.4489, -70.6693, 6800000],
+  ["Madrid", "Spain", 40.4168, -3.7038, 6700000],
+  ["Toronto", "Canada", 43.6532, -79.3832, 6300000],
+  ["Pune", "India", 18.5204, 73.8567, 6600000],
+  ["Singapore", "Singapore", 1.3521, 103.8198, 5900000],
+  ["Houston", "United States", 29.7604, -95.3698, 6400000],
+  ["Dallas", "United States", 32.7767, -96.797, 6400000],
+  ["Khartoum", "Sudan", 15.5007, 32.5599, 6000000],
+  ["Barcelona", "Spain", 41.3851, 2.1734, 5600000],
+  ["St Petersburg", "Russia", 59.9311, 30.3609, 5400000],
+  ["Philadelphia", "United States", 39.9526, -75.1652, 5700000],
+  ["Miami", "United States", 25.7617, -80.1918, 6100000],
+  ["Atlanta", "United States", 33.749, -84.388, 5900000],
+  ["Washington", "United States", 38.9072, -77.0369, 5300000],
+  ["Boston", "United States", 42.3601, -71.0589, 4900000],
+  ["San Francisco", "United States", 37.7749, -122.4194, 4700000],
+  ["Seattle", "United States", 47.6062, -122.3321, 4000000],
+  ["Phoenix", "United States", 33.4484, -112.074, 4900000],
+  ["Nairobi", "Kenya", -1.2921, 36.8219, 4900000],
+  ["Johannesburg", "South Africa", -26.2041, 28.0473, 5900000],
+  ["Cape Town", "South Africa", -33.9249, 18.4241, 4700000],
+  ["Addis Ababa", "Ethiopia", 9.03, 38.74, 5200000],
+  ["Kinshasa", "DR Congo", -4.4419, 15.2663, 15600000],
+  ["Casablanca", "Morocco", 33.5731, -7.5898, 3800000],
+  ["Accra", "Ghana", 5.6037, -0.187, 2600000],
+  ["Berlin", "Germany", 52.52, 13.405, 3700000],
+  ["Hamburg", "Germany", 53.5511, 9.9937, 1900000],
+  ["Munich", "Germany", 48.1351, 11.582, 1500000],
+  ["Cologne", "Germany", 50.9375, 6.9603, 1100000],
+  ["Frankfurt", "Germany", 50.1109, 8.6821, 760000],
+  ["Stuttgart", "Germany", 48.7758, 9.1829, 630000],
+  ["Düsseldorf", "Germany", 51.2277, 6.7735, 620000],
+  ["Leipzig", "Germany", 51.3397, 12.3731, 600000],
+  ["Dresden", "Germany", 51.0504, 13.7373, 560000],
+  ["Rome", "Italy", 41.9028, 12.4964, 4300000],
+  ["Milan", "Italy", 45.4642, 9.19, 3100000],
+  ["Naples", "Italy", 40.8518, 14.2681, 3000000],
+  ["Florence", "Italy", 43.7696, 11.2558, 380000],
+  ["Venice", "Italy", 45.4408, 12.3155, 260000],
+  ["Athens", "Greece", 37.9838, 23.7275, 3200000],
+  ["Lisbon", "Portugal", 38.7223, -9.1393, 2900000],
+  ["Porto", "Portugal", 41.1579, -8.6291, 1300000],
+  ["Amsterdam", "Netherlands", 52.3676, 4.9041, 2400000],
+  ["Rotterdam", "Netherlands", 51.9244, 4.4777, 1000000],
+  ["Brussels", "Belgium", 50.8503, 4.3517, 2100000],
+  ["Vienna", "Austria", 48.2082, 16.3738, 1900000],
+  ["Zurich", "Switzerland", 47.3769, 8.5417, 1400000],
+  ["Geneva", "Switzerland", 46.2044, 6.1432, 600000],
+  ["Prague", "Czech Republic", 50.0755, 14.4378, 1300000],
+  ["Warsaw", "Poland", 52.2297, 21.0122, 1800000],
+  ["Kraków", "Poland", 50.0647, 19.945, 770000],
+  ["Budapest", "Hungary", 47.4979, 19.0402, 1750000],
+  ["Bucharest", "Romania", 44.4268, 26.1025, 1800000],
+  ["Sofia", "Bulgaria", 42.6977, 23.3219, 1250000],
+  ["Belgrade", "Serbia", 44.7866, 20.4489, 1400000],
+  ["Kyiv", "Ukraine", 50.4501, 30.5234, 2900000],
+  ["Stockholm", "Sweden", 59.3293, 18.0686, 1600000],
+  ["Oslo", "Norway", 59.9139, 10.7522, 1000000],
+  ["Copenhagen", "Denmark", 55.6761, 12.5683, 1350000],
+  ["Helsinki", "Finland", 60.1699, 24.9384, 1300000],
+  ["Dublin", "Ireland", 53.3498, -6.2603, 1400000],
+  ["Edinburgh", "United Kingdom", 55.9533, -3.1883, 530000],
+  ["Manchester", "United Kingdom", 53.4808, -2.2426, 2800000],
+  ["Lyon", "France", 45.764, 4.8357, 1700000],
+  ["Marseille", "France", 43.2965, 5.3698, 1600000],
+  ["Montreal", "Canada", 45.5017, -73.5673, 4300000],
+  ["Vancouver", "Canada", 49.2827, -123.1207, 2600000],
+  ["Sydney", "Australia", -33.8688, 151.2093, 5300000],
+  ["Melbourne", "Australia", -37.8136, 144.9631, 5100000],
+  ["Brisbane", "Australia", -27.4698, 153.0251, 2500000],
+  ["Perth", "Australia", -31.9505, 115.8605, 2100000],
+  ["Auckland", "New Zealand", -36.8485, 174.7633, 1700000],
+  ["Kyoto", "Japan", 35.0116, 135.7681, 1460000],
+  ["Yokohama", "Japan", 35.4437, 139.638, 3750000],
+  ["Sapporo", "Japan", 43.0618, 141.3545, 1970000],
+  ["Fukuoka", "Japan", 33.5904, 130.4017, 1600000],
+  ["Hiroshima", "Japan", 34.3853, 132.4553, 1200000],
+  ["Taipei", "Taiwan", 25.033, 121.5654, 2600000],
+  ["Busan", "South Korea", 35.1796, 129.0756, 3400000],
+  ["Hanoi", "Vietnam", 21.0278, 105.8342, 8000000],
+  ["Yangon", "Myanmar", 16.8409, 96.1735, 5600000],
+  ["Kathmandu", "Nepal", 27.7172, 85.324, 1400000],
+  ["Colombo", "Sri Lanka", 6.9271, 79.8612, 750000],
+  ["Dubai", "United Arab Emirates", 25.2048, 55.2708, 3500000],
+  ["Abu Dhabi", "United Arab Emirates", 24.4539, 54.3773, 1500000],
+  ["Doha", "Qatar", 25.2854, 51.531, 2400000],
+  ["Jerusalem", "Israel", 31.7683, 35.2137, 950000],
+  ["Tel Aviv", "Israel", 32.0853, 34.7818, 460000],
+  ["Amman", "Jordan", 31.9454, 35.9284, 4000000],
+  ["Beirut", "Lebanon", 33.8938, 35.5018, 2400000],
+  ["Ankara", "Turkey", 39.9334, 32.8597, 5600000],
+  ["Havana", "Cuba", 23.1136, -82.3666, 2100000],
+  ["Caracas", "Venezuela", 10.4806, -66.9036, 2900000],
+  ["Quito", "Ecuador", -0.1807, -78.4678, 2000000],
+  ["Montevideo", "Uruguay", -34.9011, -56.1645, 1400000],
+  ["Brasília", "Brazil", -15.7975, -47.8919, 4800000],
+  ["Reykjavík", "Iceland", 64.1466, -21.9426, 135000],
+  ["Valletta", "Malta", 35.8989, 14.5146, 6000],
+  ["Luxembourg", "Luxembourg", 49.6116, 6.1319, 130000],
+];
@@ -0,0 +1,36 @@
+import type { GeocodeRequest, Place } from "@shared/schema";
+import { CITIES } from "./cities";
+import type { Geocoder } from "./types";
+
+function normalize(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim();
+}
+
+// Offline geocoder over the bundled city list. Matches city names by prefix
+// (ignoring case and accents), optionally followed by ", country".
+export class GazetteerGeocoder implements Geocoder {
+  readonly name = "gazetteer";
+
+  async geocode({ q, limit }: GeocodeRequest): Promise<Place[]> {
+    const [cityQuery, countryQuery = ""] = normalize(q).split(",").map((part) => part.trim());
+
+    return CITIES
+      .filter(([name, country]) =>
+        normalize(name).startsWith(cityQuery) &&
+        normalize(country).startsWith(countryQuery),
+      )
+      .sort((a, b) => b[4] - a[4])
+      .slice(0, limit)
+      .map(([name, country, lat, lon]) => ({
+        name,
+        displayName: `${name}, ${country}`,
+        lat,
+        lon,
+        type: "city",
+      }));
+  }
+}
@@ -0,0 +1,24 @@
+import { GazetteerGeocoder } from "./gazetteer";
+import { NominatimGeocoder } from "./nominatim";
+import type { Geocoder } from "./types";
+
+export type { Geocoder } from "./types";
+export { GazetteerGeocoder } from "./gazetteer";
+export { NominatimGeocoder } from "./nominatim";
+export { CachedGeocoder } from "./cached";
+
+// Selects the geocoding backend from the environment:
+//   GEOCODER=nominatim (default) | gazetteer
+//   NOMINATIM_URL=https://nominatim.example.org (optional, for nominatim)
+export function createGeocoder(env: NodeJS.ProcessEnv = process.env): Geocoder {
+  const kind = env.GEOCODER || "nominatim";
+
+  switch (kind) {
+    case "nominatim":
+      return new NominatimGeocoder(env.NOMINATIM_URL || undefined);
+    case "gazetteer":
+      return new GazetteerGeocoder();
+    default:
+      throw new Error(`Unknown GEOCODER: ${kind}`);
+  }
+}
@@ -0,0 +1,78 @@
+import type { GeocodeRequest, Place } from "@shared/schema";
+import { z } from "zod";
+import { createLimiter } from "../async";
+import { USER_AGENT } from "../http";
+import type { Geocoder } from "./types";
+
+// The public Nominatim usage policy allows at most one request per second
+const MIN_REQUEST_INTERVAL = 1000;
+
+// The fields of a jsonv2 search result we read; coordinates come as strings
+const searchResultsSchema = z.array(
+  z.object({
+    name: z.string().optional(),
+    display_name: z.string(),
+    lat: z.coerce.number(),
+    lon: z.coerce.number(),
+    // [south, north, west, east]
+    boundingbox: z.array(z.coerce.number()).length(4).optional(),
+    addresstype: z.string().optional(),
+    type: z.string().optional(),
+  }),
+);
+
+// Geocoder for any Nominatim-compatible search API (OSM Nominatim, Photon's
+// Nominatim mode, self-hosted instances)
+export class NominatimGeocoder implements Geocoder {
+  readonly name = "nominatim";
+  private limit = createLimiter(1);
+  private lastRequestAt = 0;
+
+  private searchUrl: URL;
+
+  // The base URL may have a path, as in https://example.com/nominatim
+  constructor(baseUrl = "https://nominatim.openstreetmap.org") {
+    this.searchUrl = new URL("search", baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`);
+  }
+
+  private async throttledFetch(url: string): Promise<Response> {
+    return this.limit(async () => {
+      const wait = this.lastRequestAt + MIN_REQUEST_INTERVAL - Date.now();
+      if (wait > 0) {
+        await new Promise((resolve) => setTimeout(resolve, wait));
+      }
+      this.lastRequestAt = Date.now();
+
+      return fetch(url, { headers: { "User-Agent": USER_AGENT } });
+    });
+  }
+
+  async geocode({ q, lang, limit }: GeocodeRequest): Promise<Place[]> {
+    const url = new URL(this.searchUrl);
+    url.searchParams.set("q", q);
+    url.searchParams.set("format", "jsonv2");
+    url.searchParams.set("limit", limit.toString());
+    url.searchParams.set("accept-language", lang);
+
+    const response = await this.throttledFetch(url.toString());
+
+    if (!response.ok) {
+      throw new Error(`Geocoding API error: ${response.statusText}`);
+    }
+
+    const results = searchResultsSchema.parse(await response.json());
+
+    return results.map((result) => {
+      const [south, north, west, east] = result.boundingbox ?? [];
+
+      return {
+        name: result.name || result.display_name.split(",")[0],
+        displayName: result.display_name,
+        lat: result.lat,
+        lon: result.lon,
+        bounds: result.boundingbox ? { south, west, north, east } : undefined,
+        type: result.addresstype || result.type,
+      };
+    });
+  }
+}
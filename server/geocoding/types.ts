@@ -0,0 +1,9 @@
+import type { GeocodeRequest, Place } from "@shared/schema";
+
+// Turns place names and addresses into coordinates. Like LandmarkProvider,
+// routes only see this interface so the backend can be swapped by config.
+export interface Geocoder {
+  readonly name: string;
+  // Best matches first
+  geocode(params: GeocodeRequest): Promise<Place[]>;
+}
@@ -0,0 +1,4 @@
+// Wikimedia and OpenStreetMap policies ask clients to identify themselves
+export const USER_AGENT =
+  process.env.UPSTREAM_USER_AGENT ||
+  "LocalLandmarks/1.0 (https://github.com/the-mihir/Local-Landmarks)";
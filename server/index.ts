@@ -1,4 +1,6 @@
 import express, { type Request, Response, NextFunction } from "express";
+import type { IncomingMessage, ServerResponse } from "http";
+import { MAX_OVERLAY_UPLOAD_SIZE } from "@shared/schema";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
@@ -9,11 +11,16 @@ declare module 'http' {
     rawBody: unknown
   }
 }
-app.use(express.json({
-  verify: (req, _res, buf) => {
-    req.rawBody = buf;
-  }
-}));
+function keepRawBody(req: IncomingMessage, _res: ServerResponse, buf: Buffer) {
+  req.rawBody = buf;
+}
+
+// Exports post up to a few hundred landmarks and overlay uploads carry
+// whole files, more than the default limit allows; parsed here so the
+// general parser below leaves them be
+app.post("/api/export", express.json({ limit: "1mb", verify: keepRawBody }));
+app.post("/api/overlays", express.json({ limit: MAX_OVERLAY_UPLOAD_SIZE, verify: keepRawBody }));
+app.use(express.json({ verify: keepRawBody }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
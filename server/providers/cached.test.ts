@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type {
+  LandmarkDetail,
+  LandmarkDetailsRequest,
+  LandmarkSearchRequest,
+} from "@shared/schema";
+import { MemStorage } from "../storage";
+import { CachedLandmarkProvider, quantizeSearch, type CacheTtl } from "./cached";
+import type { LandmarkProvider } from "./types";
+
+const TTL: CacheTtl = { freshMs: 1000, staleMs: 5000 };
+const TTLS = { search: TTL, detail: TTL, summary: TTL, lookup: TTL };
+
+// A provider whose answers carry a revision number, bumped by the test, so
+// it can tell cached answers from fresh ones
+class FakeProvider implements LandmarkProvider {
+  readonly name = "fake";
+  revision = 1;
+  detailCalls = 0;
+  batches: number[][] = [];
+
+  async search(params: LandmarkSearchRequest) {
+    return {
+      landmarks: [{ ...this.detail(1), lat: params.lat, lon: params.lon }],
+      complete: true,
+    };
+  }
+
+  async getDetail({ pageid }: { pageid: number }): Promise<LandmarkDetail | undefined> {
+    this.detailCalls++;
+    await Promise.resolve();
+    return pageid === 404 ? undefined : this.detail(pageid);
+  }
+
+  async getDetails({ pageids }: LandmarkDetailsRequest): Promise<LandmarkDetail[]> {
+    this.batches.push(pageids);
+    await Promise.resolve();
+    return pageids.filter((pageid) => pageid !== 404).map((pageid) => this.detail(pageid));
+  }
+
+  async lookup() {
+    return [];
+  }
+
+  private detail(pageid: number): LandmarkDetail {
+    return { pageid, title: `Revision ${this.revision}`, lat: 0, lon: 0 };
+  }
+}
+
+// Let background revalidation settle
+async function settle() {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe("CachedLandmarkProvider", () => {
+  let upstream: FakeProvider;
+  let cached: CachedLandmarkProvider;
+
+  const titleOf = async (pageid: number) =>
+    (await cached.getDetail({ pageid, lang: "en" }))?.title;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    upstream = new FakeProvider();
+    cached = new CachedLandmarkProvider(upstream, new MemStorage(), TTLS);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("serves fresh entries without contacting the provider", async () => {
+    await cached.getDetail({ pageid: 1, lang: "en" });
+    upstream.revision = 2;
+    vi.advanceTimersByTime(500);
+
+    expect(await titleOf(1)).toBe("Revision 1");
+    expect(upstream.detailCalls).toBe(1);
+  });
+
+  it("serves stale entries immediately and refreshes them in the background", async () => {
+    await cached.getDetail({ pageid: 1, lang: "en" });
+    upstream.revision = 2;
+    vi.advanceTimersByTime(2000);
+
+    expect(await titleOf(1)).toBe("Revision 1");
+    await settle();
+    expect(upstream.detailCalls).toBe(2);
+    expect(await titleOf(1)).toBe("Revision 2");
+    expect(upstream.detailCalls).toBe(2);
+
+    const stats = await cached.getStats();
+    expect(stats.detail).toMatchObject({ hits: 1, staleHits: 1, misses: 1, size: 1 });
+  });
+
+  it("waits for the provider once an entry is past its stale time", async () => {
+    await cached.getDetail({ pageid: 1, lang: "en" });
+    upstream.revision = 2;
+    vi.advanceTimersByTime(6000);
+
+    expect(await titleOf(1)).toBe("Revision 2");
+    expect(upstream.detailCalls).toBe(2);
+  });
+
+  it("shares one upstream call between concurrent misses", async () => {
+    const [a, b] = await Promise.all([
+      cached.getDetail({ pageid: 1, lang: "en" }),
+      cached.getDetail({ pageid: 1, lang: "en" }),
+    ]);
+
+    expect(a).toEqual(b);
+    expect(upstream.detailCalls).toBe(1);
+  });
+
+  it("doesn't cache landmarks the provider doesn't know", async () => {
+    expect(await cached.getDetail({ pageid: 404, lang: "en" })).toBeUndefined();
+    expect(await cached.getDetail({ pageid: 404, lang: "en" })).toBeUndefined();
+    expect(upstream.detailCalls).toBe(2);
+  });
+
+  it("batches only the missing summaries and revalidates stale ones", async () => {
+    await cached.getDetails({ pageids: [1, 2], lang: "en" });
+    vi.advanceTimersByTime(2000);
+    await cached.getDetails({ pageids: [3], lang: "en" });
+    upstream.revision = 2;
+
+    const details = await cached.getDetails({ pageids: [3, 1, 404, 2, 4], lang: "en" });
+    expect(details.map((detail) => [detail.pageid, detail.title])).toEqual([
+      [3, "Revision 1"],
+      [1, "Revision 1"],
+      [2, "Revision 1"],
+      [4, "Revision 2"],
+    ]);
+
+    await settle();
+    expect(upstream.batches).toEqual([[1, 2], [3], [1, 2], [404, 4]]);
+  });
+
+  it("shares summaries already on their way between overlapping batches", async () => {
+    const [a, b] = await Promise.all([
+      cached.getDetails({ pageids: [1, 2], lang: "en" }),
+      cached.getDetails({ pageids: [2, 3], lang: "en" }),
+    ]);
+
+    expect(a.map((detail) => detail.pageid)).toEqual([1, 2]);
+    expect(b.map((detail) => detail.pageid)).toEqual([2, 3]);
+    expect(upstream.batches).toEqual([[1, 2], [3]]);
+  });
+
+  it("answers nearby searches from one entry, measuring from the requested point", async () => {
+    await cached.search({ lat: 48.85801, lon: 2.29401, radius: 1000, lang: "en" });
+    upstream.revision = 2;
+    const result = await cached.search({ lat: 48.85799, lon: 2.29399, radius: 1000, lang: "en" });
+
+    expect(result.landmarks).toHaveLength(1);
+    expect(result.landmarks[0].title).toBe("Revision 1");
+    expect(result.landmarks[0].dist).toBeGreaterThan(0);
+  });
+});
+
+describe("quantizeSearch", () => {
+  it("snaps the centre and grows the radius to cover the original circle", () => {
+    expect(quantizeSearch({ lat: 1.00049, lon: 2.00049, radius: 900, lang: "en" })).toEqual({
+      lat: 1,
+      lon: 2,
+      radius: 1000,
+      lang: "en",
+    });
+  });
+
+  it("leaves searches that would grow past the largest radius alone", () => {
+    const params = { lat: 1.00049, lon: 2.00049, radius: 10000, lang: "en" };
+    expect(quantizeSearch(params)).toBe(params);
+  });
+});
@@ -0,0 +1,287 @@
+import {
+  MAX_SEARCH_RADIUS,
+  type LandmarkDetail,
+  type LandmarkDetailRequest,
+  type LandmarkDetailsRequest,
+  type LandmarkLookupRequest,
+  type Landmark,
+  type LandmarkSearchRequest,
+  type LandmarkSearchResult,
+} from "@shared/schema";
+import { haversineDistance } from "../geo";
+import type { CacheNamespace, CacheValues, IStorage } from "../storage";
+import type { LandmarkProvider } from "./types";
+
+// Searches are snapped to a ~110m grid and 250m radius steps so nearby
+// map positions share a cache entry
+const COORDINATE_PRECISION = 3;
+const RADIUS_STEP = 250;
+
+export interface CacheTtl {
+  // Entries younger than this are served without contacting the provider
+  freshMs: number;
+  // Entries younger than this are served immediately and refreshed in the background
+  staleMs: number;
+}
+
+// Namespaces this provider reads through; geocoding caches separately
+type LandmarkCacheNamespace = Exclude<CacheNamespace, "geocode">;
+
+export const CACHE_TTLS: Record<LandmarkCacheNamespace, CacheTtl> = {
+  search: { freshMs: 10 * 60 * 1000, staleMs: 60 * 60 * 1000 },
+  detail: { freshMs: 24 * 60 * 60 * 1000, staleMs: 7 * 24 * 60 * 60 * 1000 },
+  summary: { freshMs: 24 * 60 * 60 * 1000, staleMs: 7 * 24 * 60 * 60 * 1000 },
+  lookup: { freshMs: 60 * 60 * 1000, staleMs: 24 * 60 * 60 * 1000 },
+};
+
+export interface CacheCounters {
+  hits: number;
+  staleHits: number;
+  misses: number;
+}
+
+export type CacheStats = Record<LandmarkCacheNamespace, CacheCounters & { size: number }>;
+
+function roundCoordinate(value: number): number {
+  const factor = 10 ** COORDINATE_PRECISION;
+  return Math.round(value * factor) / factor;
+}
+
+// Snap a search to the cache grid, growing the radius so that the snapped
+// circle still covers everything inside the original one. Searches that
+// would grow past the upstream's largest radius are left as they are,
+// since a clamped circle would miss the edge of the original.
+export function quantizeSearch(params: LandmarkSearchRequest): LandmarkSearchRequest {
+  const lat = roundCoordinate(params.lat);
+  const lon = roundCoordinate(params.lon);
+  const shift = haversineDistance(params.lat, params.lon, lat, lon);
+  const radius = Math.ceil((params.radius + shift) / RADIUS_STEP) * RADIUS_STEP;
+
+  if (radius > MAX_SEARCH_RADIUS) {
+    return params;
+  }
+  return { ...params, lat, lon, radius };
+}
+
+function searchCacheKey(params: LandmarkSearchRequest): string {
+  return `${params.lang}:${params.lat}:${params.lon}:${params.radius}`;
+}
+
+type Freshness = "fresh" | "stale" | "missing";
+
+function detailCacheKey(params: LandmarkDetailRequest): string {
+  return `${params.lang}:${params.pageid}`;
+}
+
+// Read-through cache in front of another provider, backed by IStorage.
+// Concurrent requests for the same key share a single upstream call.
+export class CachedLandmarkProvider implements LandmarkProvider {
+  readonly name: string;
+  private inflight = new Map<string, Promise<unknown>>();
+  // Summaries being fetched, by detail cache key; batches overlap, so these
+  // are tracked per pageid
+  private inflightSummaries = new Map<string, Promise<LandmarkDetail | undefined>>();
+  private counters: Record<LandmarkCacheNamespace, CacheCounters> = {
+    search: { hits: 0, staleHits: 0, misses: 0 },
+    detail: { hits: 0, staleHits: 0, misses: 0 },
+    summary: { hits: 0, staleHits: 0, misses: 0 },
+    lookup: { hits: 0, staleHits: 0, misses: 0 },
+  };
+
+  constructor(
+    private provider: LandmarkProvider,
+    private storage: IStorage,
+    private ttls: Record<LandmarkCacheNamespace, CacheTtl> = CACHE_TTLS,
+  ) {
+    this.name = provider.name;
+  }
+
+  // Classify a cache entry by age and count the lookup
+  private checkFreshness(
+    namespace: LandmarkCacheNamespace,
+    entry: { storedAt: number } | undefined,
+  ): Freshness {
+    const age = entry ? Date.now() - entry.storedAt : Infinity;
+    const ttl = this.ttls[namespace];
+
+    if (age < ttl.freshMs) {
+      this.counters[namespace].hits++;
+      return "fresh";
+    }
+    if (age < ttl.staleMs) {
+      this.counters[namespace].staleHits++;
+      return "stale";
+    }
+    this.counters[namespace].misses++;
+    return "missing";
+  }
+
+  private refresh<N extends LandmarkCacheNamespace>(
+    namespace: N,
+    key: string,
+    load: () => Promise<CacheValues[N] | undefined>,
+  ): Promise<CacheValues[N] | undefined> {
+    const inflightKey = `${namespace}:${key}`;
+    const pending = this.inflight.get(inflightKey);
+    if (pending) {
+      return pending as Promise<CacheValues[N] | undefined>;
+    }
+
+    const request = (async () => {
+      try {
+        const value = await load();
+        if (value !== undefined) {
+          await this.storage.setCacheEntry(namespace, key, value);
+        }
+        return value;
+      } finally {
+        this.inflight.delete(inflightKey);
+      }
+    })();
+
+    this.inflight.set(inflightKey, request);
+    return request;
+  }
+
+  private async readThrough<N extends LandmarkCacheNamespace>(
+    namespace: N,
+    key: string,
+    load: () => Promise<CacheValues[N] | undefined>,
+  ): Promise<CacheValues[N] | undefined> {
+    const entry = await this.storage.getCacheEntry(namespace, key);
+    const freshness = this.checkFreshness(namespace, entry);
+
+    if (entry && freshness === "fresh") {
+      return entry.value;
+    }
+
+    if (entry && freshness === "stale") {
+      this.refresh(namespace, key, load).catch((error) => {
+        console.error(`Error revalidating ${namespace} cache entry ${key}:`, error);
+      });
+      return entry.value;
+    }
+
+    return this.refresh(namespace, key, load);
+  }
+
+  async search(params: LandmarkSearchRequest): Promise<LandmarkSearchResult> {
+    const quantized = quantizeSearch(params);
+    const result = await this.readThrough(
+      "search",
+      searchCacheKey(quantized),
+      () => this.provider.search(quantized),
+    );
+
+    // Cached distances are relative to the snapped centre, so recompute
+    // them for the point that was actually requested
+    const landmarks = (result?.landmarks || [])
+      .map((landmark) => ({
+        ...landmark,
+        dist: haversineDistance(params.lat, params.lon, landmark.lat, landmark.lon),
+      }))
+      .filter((landmark) => landmark.dist <= params.radius)
+      .sort((a, b) => a.dist - b.dist);
+
+    return { landmarks, complete: result?.complete ?? true };
+  }
+
+  getDetail(params: LandmarkDetailRequest): Promise<LandmarkDetail | undefined> {
+    return this.readThrough("detail", detailCacheKey(params), () =>
+      this.provider.getDetail(params),
+    );
+  }
+
+  // Fetch the summaries not already on their way in one batch, and share
+  // the pending ones
+  private loadSummaries(
+    pageids: number[],
+    lang: string,
+  ): Promise<LandmarkDetail | undefined>[] {
+    const key = (pageid: number) => detailCacheKey({ pageid, lang });
+    const needed = pageids.filter((pageid) => !this.inflightSummaries.has(key(pageid)));
+
+    if (needed.length > 0) {
+      const batch = (async () => {
+        const details = await this.provider.getDetails({ pageids: needed, lang });
+        for (const detail of details) {
+          await this.storage.setCacheEntry("summary", key(detail.pageid), detail);
+        }
+        return new Map(details.map((detail) => [detail.pageid, detail]));
+      })();
+
+      for (const pageid of needed) {
+        this.inflightSummaries.set(
+          key(pageid),
+          batch
+            .then((details) => details.get(pageid))
+            .finally(() => this.inflightSummaries.delete(key(pageid))),
+        );
+      }
+    }
+
+    return pageids.map((pageid) => this.inflightSummaries.get(key(pageid))!);
+  }
+
+  // Summaries are cached per pageid; only the missing ones go upstream, in a
+  // single batch, and stale ones are refreshed in a second background batch
+  async getDetails({ pageids, lang }: LandmarkDetailsRequest): Promise<LandmarkDetail[]> {
+    const found = new Map<number, LandmarkDetail>();
+    const missing: number[] = [];
+    const stale: number[] = [];
+
+    for (const pageid of pageids) {
+      const entry = await this.storage.getCacheEntry("summary", detailCacheKey({ pageid, lang }));
+      const freshness = this.checkFreshness("summary", entry);
+
+      if (entry && freshness !== "missing") {
+        found.set(pageid, entry.value);
+        if (freshness === "stale") {
+          stale.push(pageid);
+        }
+      } else {
+        missing.push(pageid);
+      }
+    }
+
+    if (stale.length > 0) {
+      Promise.all(this.loadSummaries(stale, lang)).catch((error) => {
+        console.error("Error revalidating summary cache entries:", error);
+      });
+    }
+
+    if (missing.length > 0) {
+      for (const detail of await Promise.all(this.loadSummaries(missing, lang))) {
+        if (detail) {
+          found.set(detail.pageid, detail);
+        }
+      }
+    }
+
+    return pageids
+      .map((pageid) => found.get(pageid))
+      .filter((detail): detail is LandmarkDetail => detail !== undefined);
+  }
+
+  async lookup(params: LandmarkLookupRequest): Promise<Landmark[]> {
+    const key = `${params.lang}:${params.limit}:${params.q.toLowerCase()}`;
+    const landmarks = await this.readThrough("lookup", key, () =>
+      this.provider.lookup(params),
+    );
+    return landmarks || [];
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const namespaces = Object.keys(this.counters) as LandmarkCacheNamespace[];
+    const stats = {} as CacheStats;
+
+    for (const namespace of namespaces) {
+      stats[namespace] = {
+        ...this.counters[namespace],
+        size: await this.storage.getCacheSize(namespace),
+      };
+    }
+
+    return stats;
+  }
+}
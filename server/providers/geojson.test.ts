@@ -0,0 +1,136 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, expect, it, vi } from "vitest";
+import { GeoJsonProvider } from "./geojson";
+
+const FIXTURE = path.join(import.meta.dirname, "fixtures", "landmarks.geojson");
+
+// Next to the Eiffel Tower
+const EIFFEL = { lat: 48.8584, lon: 2.2945 };
+
+describe("GeoJsonProvider", () => {
+  const provider = new GeoJsonProvider(FIXTURE);
+
+  it("finds the Point features within the radius, nearest first", async () => {
+    const result = await provider.search({ ...EIFFEL, radius: 5000, lang: "en" });
+
+    expect(result.complete).toBe(true);
+    expect(result.landmarks.map((landmark) => landmark.title)).toEqual([
+      "Eiffel Tower",
+      "Arc de Triomphe",
+      "Louvre",
+      "Notre-Dame de Paris",
+    ]);
+    expect(result.landmarks[0].dist).toBeCloseTo(0);
+  });
+
+  it("leaves out landmarks outside the radius", async () => {
+    const result = await provider.search({ ...EIFFEL, radius: 2000, lang: "en" });
+
+    expect(result.landmarks.map((landmark) => landmark.title)).toEqual([
+      "Eiffel Tower",
+      "Arc de Triomphe",
+    ]);
+  });
+
+  it("reads the feature properties", async () => {
+    expect(await provider.getDetail({ pageid: 9232, lang: "en" })).toEqual({
+      pageid: 9232,
+      title: "Eiffel Tower",
+      lat: 48.8584,
+      lon: 2.2945,
+      primary: undefined,
+      extract: "Wrought-iron lattice tower on the Champ de Mars.",
+      thumbnail: undefined,
+      url: "https://en.wikipedia.org/wiki/Eiffel_Tower",
+      category: "monument",
+      wikidataId: "Q243",
+    });
+  });
+
+  it("falls back to the description, feature id, name and position", async () => {
+    const louvre = await provider.getDetail({ pageid: 18933, lang: "en" });
+    expect(louvre?.extract).toBe("The world's most-visited art museum.");
+
+    // Unknown categories become "other"
+    const notreDame = await provider.getDetail({ pageid: 42, lang: "en" });
+    expect(notreDame).toMatchObject({ title: "Notre-Dame de Paris", category: "other" });
+
+    // Numbered by position among the Point features
+    const arc = await provider.getDetail({ pageid: 4, lang: "en" });
+    expect(arc).toMatchObject({ title: "Arc de Triomphe", category: "other" });
+  });
+
+  it("returns undefined for an unknown pageid", async () => {
+    expect(await provider.getDetail({ pageid: 1, lang: "en" })).toBeUndefined();
+  });
+
+  it("returns summaries in request order without unknown pageids", async () => {
+    const details = await provider.getDetails({ pageids: [42, 1, 9232], lang: "en" });
+    expect(details.map((detail) => detail.pageid)).toEqual([42, 9232]);
+  });
+
+  it("looks titles up case-insensitively, prefix matches first", async () => {
+    const landmarks = await provider.lookup({ q: "AR", limit: 10, lang: "en" });
+    expect(landmarks.map((landmark) => landmark.title)).toEqual([
+      "Arc de Triomphe",
+      "Notre-Dame de Paris",
+    ]);
+
+    const limited = await provider.lookup({ q: "e", limit: 1, lang: "en" });
+    expect(limited.map((landmark) => landmark.title)).toEqual(["Eiffel Tower"]);
+  });
+
+  it("skips features that don't validate, with a warning", async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "geojson-"));
+    const file = path.join(dir, "mixed.geojson");
+    const point = (coordinates: unknown) => ({ type: "Point", coordinates });
+    await fs.promises.writeFile(
+      file,
+      JSON.stringify({
+        type: "FeatureCollection",
+        features: [
+          { type: "Feature", geometry: point(["0", "0"]), properties: { title: "Strings" } },
+          { type: "Feature", geometry: point([0, 91]), properties: { title: "Off the map" } },
+          { type: "Feature", geometry: point([0, 0]), properties: { name: 7 } },
+          {
+            type: "Feature",
+            geometry: point([0, 0]),
+            properties: { title: "Bad thumbnail", thumbnail: "img.png" },
+          },
+          {
+            type: "Feature",
+            geometry: point([0, 0]),
+            properties: { title: "Kept", url: "https://example.org", extra: { any: "thing" } },
+          },
+        ],
+      }),
+    );
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    try {
+      const provider = new GeoJsonProvider(file);
+      const result = await provider.search({ lat: 0, lon: 0, radius: 100, lang: "en" });
+
+      expect(result.landmarks.map((landmark) => landmark.title)).toEqual(["Kept"]);
+      expect(warn).toHaveBeenCalledTimes(4);
+    } finally {
+      warn.mockRestore();
+      await fs.promises.rm(dir, { recursive: true });
+    }
+  });
+
+  it("rejects a file that isn't a FeatureCollection", async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "geojson-"));
+    const file = path.join(dir, "point.geojson");
+    await fs.promises.writeFile(file, JSON.stringify({ type: "Point", coordinates: [0, 0] }));
+
+    try {
+      await expect(new GeoJsonProvider(file).search({ lat: 0, lon: 0, radius: 100, lang: "en" }))
+        .rejects.toThrow("is not a GeoJSON FeatureCollection");
+    } finally {
+      await fs.promises.rm(dir, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,181 @@
+import fs from "fs";
+import path from "path";
+import {
+  landmarkCategorySchema,
+  landmarkDetailSchema,
+  type LandmarkDetail,
+  type LandmarkDetailRequest,
+  type LandmarkDetailsRequest,
+  type LandmarkLookupRequest,
+  type Landmark,
+  type LandmarkSearchRequest,
+  type LandmarkSearchResult,
+} from "@shared/schema";
+import { z } from "zod";
+import { haversineDistance } from "../geo";
+import type { LandmarkProvider } from "./types";
+
+const SEARCH_LIMIT = 50;
+
+// [lon, lat] with an optional elevation
+const pointSchema = z.object({
+  type: z.literal("Point"),
+  coordinates: z
+    .tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)])
+    .rest(z.number()),
+});
+
+// The feature properties we read; anything else in the file is dropped
+const featureSchema = z.object({
+  type: z.literal("Feature"),
+  id: z.union([z.string(), z.number()]).optional(),
+  geometry: pointSchema,
+  properties: z
+    .object({
+      pageid: z.number().int().optional(),
+      title: z.string().optional(),
+      name: z.string().optional(),
+      extract: z.string().optional(),
+      description: z.string().optional(),
+      url: z.string().optional(),
+      thumbnail: landmarkDetailSchema.shape.thumbnail,
+      primary: z.string().optional(),
+      category: landmarkCategorySchema.catch("other").optional(),
+      wikidataId: z.string().optional(),
+    })
+    .transform(({ title, name, ...props }, ctx) => {
+      const label = title ?? name;
+      if (label === undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Features need a title or name" });
+        return z.NEVER;
+      }
+      return { ...props, title: label };
+    }),
+});
+
+const featureCollectionSchema = z.object({
+  type: z.literal("FeatureCollection"),
+  features: z.array(z.unknown()),
+});
+
+// Serves landmarks from a local GeoJSON FeatureCollection of Point features.
+// Useful for running against our own datasets or fixtures without network.
+//
+// Recognised feature properties: pageid, title (or name), extract
+// (or description), url, thumbnail ({ source, width, height }), primary,
+// category (one of LANDMARK_CATEGORIES, anything else becomes "other") and
+// wikidataId. Features that aren't Points or lack a title are skipped with a
+// warning.
+// Features without a numeric pageid are numbered by their position among the
+// usable ones.
+// The dataset is assumed to be single-language, so `lang` is ignored.
+export class GeoJsonProvider implements LandmarkProvider {
+  readonly name = "geojson";
+  private landmarks: LandmarkDetail[] | null = null;
+
+  constructor(private filePath: string) {}
+
+  private async load(): Promise<LandmarkDetail[]> {
+    if (this.landmarks) {
+      return this.landmarks;
+    }
+
+    const raw = await fs.promises.readFile(path.resolve(this.filePath), "utf-8");
+    const collection = featureCollectionSchema.safeParse(JSON.parse(raw));
+    if (!collection.success) {
+      throw new Error(`${this.filePath} is not a GeoJSON FeatureCollection`);
+    }
+
+    const features: z.infer<typeof featureSchema>[] = [];
+    collection.data.features.forEach((feature, index) => {
+      const parsed = featureSchema.safeParse(feature);
+      if (parsed.success) {
+        features.push(parsed.data);
+      } else {
+        console.warn(
+          `Skipping feature ${index} of ${this.filePath}: ${parsed.error.errors[0].message}`,
+        );
+      }
+    });
+
+    this.landmarks = features.map(({ id, geometry, properties: props }, index) => {
+      const [lon, lat] = geometry.coordinates;
+      const pageid = props.pageid ?? Number(id);
+
+      return {
+        pageid: Number.isInteger(pageid) ? pageid : index + 1,
+        title: props.title,
+        lat,
+        lon,
+        primary: props.primary,
+        extract: props.extract ?? props.description,
+        thumbnail: props.thumbnail,
+        url: props.url,
+        category: props.category ?? "other",
+        wikidataId: props.wikidataId,
+      };
+    });
+
+    return this.landmarks;
+  }
+
+  async search(params: LandmarkSearchRequest): Promise<LandmarkSearchResult> {
+    const landmarks = await this.load();
+
+    const matches = landmarks
+      .map(({ pageid, title, lat, lon, primary, category, wikidataId }) => ({
+        pageid,
+        title,
+        lat,
+        lon,
+        primary,
+        category,
+        wikidataId,
+        dist: haversineDistance(params.lat, params.lon, lat, lon),
+      }))
+      .filter((landmark) => landmark.dist <= params.radius)
+      .sort((a, b) => a.dist - b.dist);
+
+    // Capped like the Wikipedia provider so callers exercise the same paths
+    return {
+      landmarks: matches.slice(0, SEARCH_LIMIT),
+      complete: matches.length <= SEARCH_LIMIT,
+    };
+  }
+
+  async getDetail({ pageid }: LandmarkDetailRequest): Promise<LandmarkDetail | undefined> {
+    const landmarks = await this.load();
+    return landmarks.find((landmark) => landmark.pageid === pageid);
+  }
+
+  async getDetails({ pageids }: LandmarkDetailsRequest): Promise<LandmarkDetail[]> {
+    const landmarks = await this.load();
+    return pageids
+      .map((pageid) => landmarks.find((landmark) => landmark.pageid === pageid))
+      .filter((landmark): landmark is LandmarkDetail => landmark !== undefined);
+  }
+
+  // Case-insensitive title match, prefix matches ranked first
+  async lookup({ q, limit }: LandmarkLookupRequest): Promise<Landmark[]> {
+    const landmarks = await this.load();
+    const needle = q.toLowerCase();
+
+    return landmarks
+      .map((landmark) => ({
+        landmark,
+        position: landmark.title.toLowerCase().indexOf(needle),
+      }))
+      .filter(({ position }) => position >= 0)
+      .sort((a, b) => Number(a.position > 0) - Number(b.position > 0))
+      .slice(0, limit)
+      .map(({ landmark: { pageid, title, lat, lon, primary, category, wikidataId } }) => ({
+        pageid,
+        title,
+        lat,
+        lon,
+        primary,
+        category,
+        wikidataId,
+      }));
+  }
+}
@@ -0,0 +1,29 @@
+import { GeoJsonProvider } from "./geojson";
+import type { LandmarkProvider } from "./types";
+import { WikipediaProvider } from "./wikipedia";
+
+export type { LandmarkProvider } from "./types";
+export { WikipediaProvider } from "./wikipedia";
+export { GeoJsonProvider } from "./geojson";
+export { CachedLandmarkProvider, type CacheStats } from "./cached";
+
+// Selects the landmark provider from the environment:
+//   LANDMARK_PROVIDER=wikipedia (default) | geojson
+//   LANDMARK_GEOJSON_PATH=path/to/landmarks.geojson (required for geojson)
+export function createLandmarkProvider(
+  env: NodeJS.ProcessEnv = process.env,
+): LandmarkProvider {
+  const kind = env.LANDMARK_PROVIDER || "wikipedia";
+
+  switch (kind) {
+    case "wikipedia":
+      return new WikipediaProvider();
+    case "geojson":
+      if (!env.LANDMARK_GEOJSON_PATH) {
+        throw new Error("LANDMARK_GEOJSON_PATH must be set when LANDMARK_PROVIDER=geojson");
+      }
+      return new GeoJsonProvider(env.LANDMARK_GEOJSON_PATH);
+    default:
+      throw new Error(`Unknown LANDMARK_PROVIDER: ${kind}`);
+  }
+}
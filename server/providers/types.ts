@@ -0,0 +1,26 @@
+import type {
+  Landmark,
+  LandmarkDetail,
+  LandmarkDetailRequest,
+  LandmarkDetailsRequest,
+  LandmarkLookupRequest,
+  LandmarkSearchRequest,
+  LandmarkSearchResult,
+} from "@shared/schema";
+
+// A source of landmark data. Routes talk to this interface only, so the
+// backing dataset can be swapped without touching the HTTP layer.
+export interface LandmarkProvider {
+  readonly name: string;
+  // Landmarks within `radius` meters of a point, nearest first. Providers
+  // return a capped page; `complete` says whether the cap was reached.
+  search(params: LandmarkSearchRequest): Promise<LandmarkSearchResult>;
+  // Full details for a single landmark, or undefined if it doesn't exist
+  getDetail(params: LandmarkDetailRequest): Promise<LandmarkDetail | undefined>;
+  // Summaries (first sentences and thumbnail) for several landmarks in
+  // request order. Unknown pageids are left out.
+  getDetails(params: LandmarkDetailsRequest): Promise<LandmarkDetail[]>;
+  // Landmarks whose title matches a name, best match first. Only landmarks
+  // with coordinates are returned.
+  lookup(params: LandmarkLookupRequest): Promise<Landmark[]>;
+}
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { WikipediaProvider } from "./wikipedia";
+
+// Answers every API call with the given `query` object and records the URLs
+function stubApi(query: unknown) {
+  const urls: URL[] = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string) => {
+      urls.push(new URL(url));
+      return Response.json({ query });
+    }),
+  );
+  return urls;
+}
+
+describe("WikipediaProvider", () => {
+  const provider = new WikipediaProvider(undefined, null);
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("returns details for geotagged articles", async () => {
+    stubApi({
+      pages: {
+        "1": {
+          pageid: 1,
+          title: "Tower",
+          coordinates: [{ lat: 51.5, lon: -0.12 }],
+          extract: "A tower.",
+          fullurl: "https://en.wikipedia.org/wiki/Tower",
+        },
+      },
+    });
+
+    const detail = await provider.getDetail({ pageid: 1, lang: "en" });
+
+    expect(detail).toMatchObject({ pageid: 1, title: "Tower", lat: 51.5, lon: -0.12 });
+  });
+
+  // Such articles have no place on the map, and the detail route answers 404
+  it("returns no details for articles without coordinates", async () => {
+    stubApi({ pages: { "2": { pageid: 2, title: "Philosophy", extract: "Thinking." } } });
+
+    await expect(provider.getDetail({ pageid: 2, lang: "en" })).resolves.toBeUndefined();
+  });
+
+  it("searches only the requested edition", async () => {
+    const urls = stubApi({ geosearch: [] });
+
+    const result = await provider.search({ lat: 51.5, lon: -0.12, radius: 1000, lang: "de" });
+
+    expect(result.landmarks).toEqual([]);
+    expect(urls.map((url) => url.hostname)).toEqual(["de.wikipedia.org"]);
+  });
+});
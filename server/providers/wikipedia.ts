@@ -0,0 +1,304 @@
+import type {
+  Landmark,
+  LandmarkDetail,
+  LandmarkDetailRequest,
+  LandmarkDetailsRequest,
+  LandmarkLookupRequest,
+  LandmarkSearchRequest,
+  LandmarkSearchResult,
+} from "@shared/schema";
+import { z } from "zod";
+import { USER_AGENT } from "../http";
+import { WikidataClassifier } from "../wikidata";
+import type { LandmarkProvider } from "./types";
+
+const SEARCH_LIMIT = 50;
+const THUMBNAIL_SIZE = 400;
+// TextExtracts returns at most 20 extracts per query
+const EXTRACTS_LIMIT = 20;
+const SUMMARY_SENTENCES = 2;
+// Prefix matches fetched per lookup; many aren't geotagged and get dropped
+const LOOKUP_CANDIDATES = 50;
+
+// The parts of MediaWiki action=query responses we read. Unknown fields are
+// dropped; anything of the wrong shape fails the request rather than
+// leaking into landmarks.
+const pageSchema = z.object({
+  pageid: z.number().optional(),
+  title: z.string().optional(),
+  // Present (as "") on pages that don't exist
+  missing: z.unknown().optional(),
+  // Position in prefix search results
+  index: z.number().optional(),
+  coordinates: z.array(z.object({ lat: z.number(), lon: z.number() })).optional(),
+  extract: z.string().optional(),
+  thumbnail: z
+    .object({ source: z.string(), width: z.number(), height: z.number() })
+    .optional(),
+  fullurl: z.string().optional(),
+  pageprops: z.object({ wikibase_item: z.string().optional() }).optional(),
+  langlinks: z
+    .array(
+      z.object({
+        lang: z.string(),
+        "*": z.string(),
+        url: z.string(),
+        autonym: z.string().optional(),
+      }),
+    )
+    .optional(),
+});
+
+const geosearchItemSchema = z.object({
+  pageid: z.number(),
+  title: z.string(),
+  lat: z.number(),
+  lon: z.number(),
+  dist: z.number().optional(),
+  primary: z.string().optional(),
+});
+
+const queryResponseSchema = z.object({
+  query: z
+    .object({
+      pages: z.record(pageSchema).optional(),
+      geosearch: z.array(geosearchItemSchema).optional(),
+    })
+    .optional(),
+});
+
+type WikipediaPage = z.infer<typeof pageSchema>;
+type QueryResponse = z.infer<typeof queryResponseSchema>;
+
+// Transform a Wikipedia page to our landmark detail schema. Pages that
+// don't exist or aren't geotagged have no place on the map and give
+// undefined.
+function toLandmarkDetail(page: WikipediaPage, lang: string): LandmarkDetail | undefined {
+  const coordinates = page.coordinates?.[0];
+  if (
+    page.missing !== undefined ||
+    page.pageid === undefined ||
+    page.title === undefined ||
+    !coordinates
+  ) {
+    return undefined;
+  }
+  return {
+    pageid: page.pageid,
+    title: page.title,
+    lat: coordinates.lat,
+    lon: coordinates.lon,
+    lang,
+    extract: page.extract,
+    thumbnail: page.thumbnail ? {
+      source: page.thumbnail.source,
+      width: page.thumbnail.width,
+      height: page.thumbnail.height,
+    } : undefined,
+    url: page.fullurl,
+    wikidataId: page.pageprops?.wikibase_item,
+  };
+}
+
+export class WikipediaProvider implements LandmarkProvider {
+  readonly name = "wikipedia";
+
+  // `{lang}` in the template is replaced with the language edition code.
+  // Pass a null classifier to skip Wikidata category lookups.
+  constructor(
+    private apiUrlTemplate = "https://{lang}.wikipedia.org/w/api.php",
+    private classifier: WikidataClassifier | null = new WikidataClassifier(),
+  ) {}
+
+  private async query(lang: string, params: Record<string, string>): Promise<QueryResponse> {
+    const url = new URL(this.apiUrlTemplate.replace("{lang}", lang));
+    url.searchParams.set("action", "query");
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    url.searchParams.set("format", "json");
+    url.searchParams.set("origin", "*");
+
+    const response = await fetch(url.toString(), {
+      headers: { "User-Agent": USER_AGENT },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Wikipedia API error: ${response.statusText}`);
+    }
+
+    return queryResponseSchema.parse(await response.json());
+  }
+
+  private async geosearch(params: LandmarkSearchRequest, lang: string): Promise<Landmark[]> {
+    const data = await this.query(lang, {
+      list: "geosearch",
+      gscoord: `${params.lat}|${params.lon}`,
+      gsradius: params.radius.toString(),
+      gslimit: SEARCH_LIMIT.toString(),
+    });
+
+    // Transform Wikipedia response to our landmark schema
+    return (data.query?.geosearch || []).map((item) => ({
+      pageid: item.pageid,
+      title: item.title,
+      lat: item.lat,
+      lon: item.lon,
+      dist: item.dist,
+      primary: item.primary,
+      lang,
+    }));
+  }
+
+  // Fill in wikidataId (from page props, if not already known) and category.
+  // Classification is best effort: on failure landmarks are returned as-is.
+  private async categorize<T extends Landmark>(landmarks: T[], lang: string): Promise<T[]> {
+    if (!this.classifier || landmarks.length === 0) {
+      return landmarks;
+    }
+
+    try {
+      const wikidataIds = new Map<number, string>();
+      const unresolved = landmarks.filter((landmark) => !landmark.wikidataId);
+
+      if (unresolved.length > 0) {
+        const data = await this.query(lang, {
+          pageids: unresolved.map((landmark) => landmark.pageid).join("|"),
+          prop: "pageprops",
+          ppprop: "wikibase_item",
+        });
+        for (const page of Object.values(data.query?.pages || {})) {
+          if (page.pageid !== undefined && page.pageprops?.wikibase_item) {
+            wikidataIds.set(page.pageid, page.pageprops.wikibase_item);
+          }
+        }
+      }
+
+      const withIds = landmarks.map((landmark) => ({
+        ...landmark,
+        wikidataId: landmark.wikidataId ?? wikidataIds.get(landmark.pageid),
+      }));
+      const categories = await this.classifier.classify(
+        withIds.flatMap((landmark) => (landmark.wikidataId ? [landmark.wikidataId] : [])),
+      );
+
+      return withIds.map((landmark) => ({
+        ...landmark,
+        category: (landmark.wikidataId && categories.get(landmark.wikidataId)) || "other",
+      }));
+    } catch (error) {
+      console.error("Error classifying landmarks:", error);
+      return landmarks;
+    }
+  }
+
+  async search(params: LandmarkSearchRequest): Promise<LandmarkSearchResult> {
+    // Falling back to English for empty areas is left to the caller, which
+    // can decide once for every circle of a request
+    const landmarks = await this.geosearch(params, params.lang);
+
+    // GeoSearch has no continuation, so a full page means results were cut off
+    const complete = landmarks.length < SEARCH_LIMIT;
+
+    return { landmarks: await this.categorize(landmarks, params.lang), complete };
+  }
+
+  async getDetail({ pageid, lang }: LandmarkDetailRequest): Promise<LandmarkDetail | undefined> {
+    const data = await this.query(lang, {
+      pageids: pageid.toString(),
+      prop: "extracts|pageimages|info|coordinates|langlinks|pageprops",
+      exintro: "1",
+      explaintext: "1",
+      piprop: "thumbnail",
+      pithumbsize: THUMBNAIL_SIZE.toString(),
+      inprop: "url",
+      llprop: "url|autonym",
+      lllimit: "max",
+      ppprop: "wikibase_item",
+    });
+    const page = data.query?.pages?.[pageid];
+    const found = page && toLandmarkDetail(page, lang);
+
+    if (!found) {
+      return undefined;
+    }
+
+    const [detail] = await this.categorize([found], lang);
+
+    return {
+      ...detail,
+      languages: (page.langlinks || []).map((link) => ({
+        lang: link.lang,
+        title: link["*"],
+        url: link.url,
+        name: link.autonym,
+      })),
+    };
+  }
+
+  async getDetails({ pageids, lang }: LandmarkDetailsRequest): Promise<LandmarkDetail[]> {
+    const chunks: number[][] = [];
+    for (let i = 0; i < pageids.length; i += EXTRACTS_LIMIT) {
+      chunks.push(pageids.slice(i, i + EXTRACTS_LIMIT));
+    }
+
+    const responses = await Promise.all(chunks.map((chunk) =>
+      this.query(lang, {
+        pageids: chunk.join("|"),
+        prop: "extracts|pageimages|info|coordinates|pageprops",
+        exintro: "1",
+        explaintext: "1",
+        exsentences: SUMMARY_SENTENCES.toString(),
+        exlimit: EXTRACTS_LIMIT.toString(),
+        piprop: "thumbnail",
+        pithumbsize: THUMBNAIL_SIZE.toString(),
+        pilimit: EXTRACTS_LIMIT.toString(),
+        inprop: "url",
+        colimit: "max",
+        ppprop: "wikibase_item",
+      }),
+    ));
+
+    const pages: Record<string, WikipediaPage> = Object.assign(
+      {},
+      ...responses.map((data) => data.query?.pages || {}),
+    );
+
+    const details = pageids.flatMap((pageid) => {
+      const detail = pages[pageid] && toLandmarkDetail(pages[pageid], lang);
+      return detail ? [detail] : [];
+    });
+
+    return this.categorize(details, lang);
+  }
+
+  async lookup({ q, lang, limit }: LandmarkLookupRequest): Promise<Landmark[]> {
+    const data = await this.query(lang, {
+      generator: "prefixsearch",
+      gpssearch: q,
+      gpslimit: LOOKUP_CANDIDATES.toString(),
+      prop: "coordinates|pageprops",
+      ppprop: "wikibase_item",
+      colimit: "max",
+    });
+
+    const landmarks: Landmark[] = Object.values(data.query?.pages || {})
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .flatMap((page) => {
+        const detail = toLandmarkDetail(page, lang);
+        return detail
+          ? [{
+              pageid: detail.pageid,
+              title: detail.title,
+              lat: detail.lat,
+              lon: detail.lon,
+              lang,
+              wikidataId: detail.wikidataId,
+            }]
+          : [];
+      })
+      .slice(0, limit);
+
+    return this.categorize(landmarks, lang);
+  }
+}
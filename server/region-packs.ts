@@ -0,0 +1,265 @@
+import { randomUUID } from "crypto";
+import {
+  MAX_DETAILS_BATCH,
+  type LandmarkDetail,
+  type RegionPackJob,
+  type RegionPackManifest,
+  type RegionPackRequest,
+  type RegionPackStage,
+} from "@shared/schema";
+import { tilesInBounds, type TileCoordinates } from "@shared/tiles";
+import { createLimiter } from "./async";
+import { USER_AGENT } from "./http";
+import type { LandmarkProvider } from "./providers";
+import { searchBounds } from "./tiling";
+import type { TileProxy } from "./tiles";
+
+// Requests in flight per job; tiles go through the tile proxy and its cache
+const TILE_CONCURRENCY = 2;
+const THUMBNAIL_CONCURRENCY = 4;
+// Jobs preparing at once across all users; each user gets one
+const MAX_RUNNING_JOBS = 2;
+// How long a finished job stays available for download, and how often
+// expired ones are dropped
+const JOB_TTL = 30 * 60 * 1000;
+const EXPIRY_INTERVAL = 60 * 1000;
+// Finished jobs hold their files in memory until downloaded, so only the
+// newest few are kept, per user and overall
+const MAX_FINISHED_JOBS_PER_USER = 2;
+const MAX_FINISHED_JOBS = 6;
+
+interface PackFile {
+  body: Buffer;
+  contentType: string;
+}
+
+interface Job extends RegionPackJob {
+  userId: string;
+  manifest?: RegionPackManifest;
+  // By thumbnail URL and by tile key
+  thumbnails: Map<string, PackFile>;
+  tiles: Map<string, PackFile>;
+  cancelled: boolean;
+  finishedAt?: number;
+}
+
+function tileKey({ z, x, y }: TileCoordinates): string {
+  return `${z}/${x}/${y}`;
+}
+
+async function download(url: string): Promise<PackFile | undefined> {
+  try {
+    const response = await fetch(url, { headers: { "User-Agent": USER_AGENT } });
+    if (!response.ok) {
+      return undefined;
+    }
+    return {
+      body: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get("Content-Type") || "application/octet-stream",
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+// Prepares region packs in the background and holds the results in memory
+// until they are downloaded or expire. Progress is polled through
+// `get`; a job's owner is the only one who can see it.
+export class RegionPackBuilder {
+  private jobs = new Map<string, Job>();
+
+  constructor(
+    private provider: LandmarkProvider,
+    private tiles: TileProxy,
+  ) {
+    // Don't hold the process open just for this
+    setInterval(() => this.expire(), EXPIRY_INTERVAL).unref();
+  }
+
+  private expire(): void {
+    const now = Date.now();
+    for (const [id, job] of Array.from(this.jobs.entries())) {
+      if (job.finishedAt !== undefined && now - job.finishedAt > JOB_TTL) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+
+  // Drop the oldest finished jobs past the per-user and overall limits
+  private trim(): void {
+    const finished = Array.from(this.jobs.values())
+      .filter((job) => job.finishedAt !== undefined)
+      .sort((a, b) => b.finishedAt! - a.finishedAt!);
+    const perUser = new Map<string, number>();
+    finished.forEach((job, index) => {
+      const count = (perUser.get(job.userId) ?? 0) + 1;
+      perUser.set(job.userId, count);
+      if (count > MAX_FINISHED_JOBS_PER_USER || index >= MAX_FINISHED_JOBS) {
+        this.jobs.delete(job.id);
+      }
+    });
+  }
+
+  private finish(job: Job, status: "done" | "failed", error?: string): void {
+    job.status = status;
+    job.error = error;
+    job.finishedAt = Date.now();
+    this.trim();
+  }
+
+  private running(): Job[] {
+    return Array.from(this.jobs.values()).filter((job) => job.status === "running");
+  }
+
+  // The user's job still being prepared, if any
+  runningFor(userId: string): RegionPackJob | undefined {
+    const job = this.running().find((other) => other.userId === userId);
+    return job && this.toJob(job);
+  }
+
+  isBusy(): boolean {
+    return this.running().length >= MAX_RUNNING_JOBS;
+  }
+
+  start(userId: string, request: RegionPackRequest): RegionPackJob {
+    this.expire();
+    const job: Job = {
+      id: randomUUID(),
+      userId,
+      status: "running",
+      request,
+      stage: "landmarks",
+      done: 0,
+      total: 1,
+      createdAt: new Date().toISOString(),
+      thumbnails: new Map(),
+      tiles: new Map(),
+      cancelled: false,
+    };
+    this.jobs.set(job.id, job);
+
+    this.run(job).catch((error) => {
+      console.error("Error preparing region pack:", error);
+      this.finish(job, "failed", error instanceof Error ? error.message : "Unknown error");
+    });
+
+    return this.toJob(job);
+  }
+
+  get(userId: string, id: string): RegionPackJob | undefined {
+    const job = this.find(userId, id);
+    return job && this.toJob(job);
+  }
+
+  manifest(userId: string, id: string): RegionPackManifest | undefined {
+    return this.find(userId, id)?.manifest;
+  }
+
+  // By index into the manifest's thumbnails
+  thumbnail(userId: string, id: string, index: number): PackFile | undefined {
+    const job = this.find(userId, id);
+    const source = job?.manifest?.thumbnails[index];
+    return source === undefined ? undefined : job!.thumbnails.get(source);
+  }
+
+  tile(userId: string, id: string, tile: TileCoordinates): PackFile | undefined {
+    return this.find(userId, id)?.tiles.get(tileKey(tile));
+  }
+
+  // Stops a running job and frees a finished one's downloads
+  cancel(userId: string, id: string): boolean {
+    const job = this.find(userId, id);
+    if (!job) {
+      return false;
+    }
+    job.cancelled = true;
+    this.jobs.delete(id);
+    return true;
+  }
+
+  private find(userId: string, id: string): Job | undefined {
+    this.expire();
+    const job = this.jobs.get(id);
+    return job?.userId === userId ? job : undefined;
+  }
+
+  private toJob({ id, status, request, stage, done, total, error, createdAt }: Job): RegionPackJob {
+    return { id, status, request, stage, done, total, error, createdAt };
+  }
+
+  private enter(job: Job, stage: RegionPackStage, total: number): void {
+    job.stage = stage;
+    job.done = 0;
+    job.total = total;
+  }
+
+  private async run(job: Job): Promise<void> {
+    const { request } = job;
+
+    this.enter(job, "landmarks", 1);
+    const { landmarks, complete } = await searchBounds(this.provider, request);
+    job.done = 1;
+
+    // Summaries in batches, like the sidebar asks for them
+    const pageids = landmarks.map((landmark) => landmark.pageid);
+    this.enter(job, "details", pageids.length);
+    const details: LandmarkDetail[] = [];
+    for (let i = 0; i < pageids.length; i += MAX_DETAILS_BATCH) {
+      const batch = pageids.slice(i, i + MAX_DETAILS_BATCH);
+      details.push(...(await this.provider.getDetails({ pageids: batch, lang: request.lang })));
+      job.done += batch.length;
+      if (job.cancelled) return;
+    }
+
+    const thumbnails = Array.from(
+      new Set(details.flatMap((detail) => (detail.thumbnail ? [detail.thumbnail.source] : []))),
+    );
+    this.enter(job, "thumbnails", thumbnails.length);
+    const thumbnailLimit = createLimiter(THUMBNAIL_CONCURRENCY);
+    await Promise.all(
+      thumbnails.map((source) =>
+        thumbnailLimit(async () => {
+          if (job.cancelled) return;
+          const file = await download(source);
+          if (file) {
+            job.thumbnails.set(source, file);
+          }
+          job.done++;
+        }),
+      ),
+    );
+    if (job.cancelled) return;
+
+    // Most tile servers forbid bulk downloads, so packs only get tiles from
+    // base maps configured as allowing them
+    const tiles = this.tiles.getLayer(request.layer)?.allowBulk
+      ? tilesInBounds(request, request.minZoom, request.maxZoom)
+      : [];
+    this.enter(job, "tiles", tiles.length);
+    const tileLimit = createLimiter(TILE_CONCURRENCY);
+    await Promise.all(
+      tiles.map((tile) =>
+        tileLimit(async () => {
+          if (job.cancelled) return;
+          // Tiles that can't be had are left out of the pack
+          const file = await this.tiles.getTile(request.layer, tile).catch(() => undefined);
+          if (file) {
+            job.tiles.set(tileKey(tile), { body: file.body, contentType: file.contentType });
+          }
+          job.done++;
+        }),
+      ),
+    );
+    if (job.cancelled) return;
+
+    job.manifest = {
+      request,
+      landmarks,
+      complete,
+      details,
+      thumbnails: thumbnails.filter((source) => job.thumbnails.has(source)),
+      tiles: tiles.filter((tile) => job.tiles.has(tileKey(tile))),
+    };
+    this.finish(job, "done");
+  }
+}
@@ -0,0 +1,102 @@
+import type { Request, Response } from "express";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { asyncRoute, type RouteErrorOptions } from "./handler";
+
+// Records the status and JSON body sent
+function fakeResponse() {
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    headersSent: false,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      res.headersSent = true;
+      return res;
+    },
+  };
+  return res;
+}
+
+type Handler = Parameters<typeof asyncRoute>[1];
+
+async function run(handler: Handler, options?: RouteErrorOptions) {
+  const res = fakeResponse();
+  await asyncRoute("do the thing", handler, options)(
+    {} as Request,
+    res as unknown as Response,
+    vi.fn(),
+  );
+  return res;
+}
+
+describe("asyncRoute", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("leaves successful responses alone", async () => {
+    const res = await run(async (_req, res) => {
+      res.status(201).json({ ok: true });
+    });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body).toEqual({ ok: true });
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  it("answers validation errors with 400 and zod's issues", async () => {
+    const res = await run(async () => {
+      z.object({ lat: z.number() }).parse({ lat: "north" });
+    });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toMatchObject({
+      error: "Invalid parameters",
+      details: [{ path: ["lat"], code: "invalid_type" }],
+    });
+  });
+
+  it("answers other errors with 500 and the message, and logs them", async () => {
+    const error = new Error("disk full");
+    const res = await run(() => {
+      throw error;
+    });
+
+    expect(res.statusCode).toBe(500);
+    expect(res.body).toEqual({ error: "Failed to do the thing", message: "disk full" });
+    expect(console.error).toHaveBeenCalledWith("Failed to do the thing:", error);
+  });
+
+  it("uses the mapped response for expected errors", async () => {
+    const mapError = (error: unknown) =>
+      error === "duplicate" ? { status: 409, body: { error: "Already there" } } : undefined;
+
+    const duplicate = await run(() => Promise.reject("duplicate"), { mapError });
+    expect(duplicate.statusCode).toBe(409);
+    expect(duplicate.body).toEqual({ error: "Already there" });
+
+    const other = await run(() => Promise.reject("other"), { mapError, status: 502 });
+    expect(other.statusCode).toBe(502);
+    expect(other.body).toEqual({ error: "Failed to do the thing", message: "Unknown error" });
+  });
+
+  it("doesn't answer twice once a response has been sent", async () => {
+    const res = await run(async (_req, res) => {
+      res.status(202).json({ started: true });
+      throw new Error("after the fact");
+    });
+
+    expect(res.statusCode).toBe(202);
+    expect(res.body).toEqual({ started: true });
+    expect(console.error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,66 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import { z } from "zod";
+
+// A response for an error the route expects, e.g. a 409 for a duplicate
+export interface MappedError {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+export interface RouteErrorOptions {
+  // Answers errors other than validation failures; anything it returns
+  // undefined for is unexpected
+  mapError?: (error: unknown) => MappedError | undefined;
+  // Status for unexpected errors
+  status?: number;
+}
+
+// Log a failed request and answer it: 400 with zod's issues for invalid
+// input, the mapped response for expected errors, otherwise `status`
+// (500 by default) with the error message. `action` completes "Failed to".
+export function sendRouteError(
+  res: Response,
+  error: unknown,
+  action: string,
+  { mapError, status = 500 }: RouteErrorOptions = {},
+): void {
+  console.error(`Failed to ${action}:`, error);
+
+  if (res.headersSent) {
+    return;
+  }
+  if (error instanceof z.ZodError) {
+    res.status(400).json({
+      error: "Invalid parameters",
+      details: error.errors,
+    });
+    return;
+  }
+
+  const mapped = mapError?.(error);
+  if (mapped) {
+    res.status(mapped.status).json(mapped.body);
+    return;
+  }
+
+  res.status(status).json({
+    error: `Failed to ${action}`,
+    message: error instanceof Error ? error.message : "Unknown error",
+  });
+}
+
+// Wrap a route handler so that anything it throws or rejects with is
+// answered by sendRouteError
+export function asyncRoute(
+  action: string,
+  handler: (req: Request, res: Response, next: NextFunction) => unknown,
+  options?: RouteErrorOptions,
+): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      await handler(req, res, next);
+    } catch (error) {
+      sendRouteError(res, error, action, options);
+    }
+  };
+}
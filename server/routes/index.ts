@@ -0,0 +1,421 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import { createServer, type Server } from "http";
+import {
+  customLandmarkRequestSchema,
+  customLandmarkUpdateRequestSchema,
+  exportRequestSchema,
+  favoriteRequestSchema,
+  geocodeRequestSchema,
+  landmarkBoundsRequestSchema,
+  landmarkDetailRequestSchema,
+  landmarkDetailsRequestSchema,
+  landmarkLookupRequestSchema,
+  landmarkSearchRequestSchema,
+  tourPlanRequestSchema,
+  walkingTourRequestSchema,
+  type CustomLandmark,
+} from "@shared/schema";
+import {
+  CachedLandmarkProvider,
+  createLandmarkProvider,
+  type LandmarkProvider,
+} from "../providers";
+import { exportLandmarks, withDetails } from "../export";
+import { CachedGeocoder, createGeocoder, type Geocoder } from "../geocoding";
+import { requireAuth, setupAuth } from "../auth";
+import {
+  customToDetail,
+  mergeCustomIntoBounds,
+  mergeCustomIntoRadius,
+} from "../custom-landmarks";
+import { storage as defaultStorage, type IStorage } from "../storage";
+import { searchBounds, searchRadius } from "../tiling";
+import { TileProxy } from "../tiles";
+import { buildWalkingTour, planTour } from "../tours";
+import { asyncRoute } from "./handler";
+import { registerListRoutes } from "./lists";
+import { registerNoteRoutes } from "./notes";
+import { registerOverlayRoutes } from "./overlays";
+import { registerRegionPackRoutes } from "./region-packs";
+import { registerTileRoutes } from "./tiles";
+import { registerVisitRoutes } from "./visits";
+
+// Simple rate limiting implementation
+const RATE_LIMIT_WINDOW = 60000; // 1 minute
+const MAX_REQUESTS_PER_WINDOW = 60; // 60 requests per minute
+// A map view takes a few dozen tiles, so tiles get a larger allowance
+const MAX_TILE_REQUESTS_PER_WINDOW = 600;
+
+// Middleware allowing each client IP `maxRequests` per window, counted
+// separately from other limiters
+function createRateLimit(maxRequests: number) {
+  const requestCounts = new Map<string, { count: number; resetTime: number }>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const clientIp = req.ip || req.socket.remoteAddress || "unknown";
+    const now = Date.now();
+
+    const clientData = requestCounts.get(clientIp);
+
+    if (!clientData || now > clientData.resetTime) {
+      // Reset or initialize the counter
+      requestCounts.set(clientIp, {
+        count: 1,
+        resetTime: now + RATE_LIMIT_WINDOW,
+      });
+      next();
+    } else if (clientData.count < maxRequests) {
+      // Increment the counter
+      clientData.count++;
+      next();
+    } else {
+      // Rate limit exceeded
+      res.status(429).json({
+        error: "Too many requests",
+        message: "Please wait before making more requests",
+        retryAfter: Math.ceil((clientData.resetTime - now) / 1000),
+      });
+    }
+  };
+}
+
+const rateLimitMiddleware = createRateLimit(MAX_REQUESTS_PER_WINDOW);
+const tileRateLimitMiddleware = createRateLimit(MAX_TILE_REQUESTS_PER_WINDOW);
+
+// Accepts both ?category=a,b and ?category=a&category=b
+function parseList(value: unknown): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const values = Array.isArray(value) ? value : [value];
+  return values.flatMap((item) => String(item).split(",")).filter(Boolean);
+}
+
+export async function registerRoutes(
+  app: Express,
+  upstream: LandmarkProvider = createLandmarkProvider(),
+  storage: IStorage = defaultStorage,
+  upstreamGeocoder: Geocoder = createGeocoder(),
+  tiles: TileProxy = new TileProxy(),
+): Promise<Server> {
+  // Both landmark routes read through the storage-backed cache
+  const provider = new CachedLandmarkProvider(upstream, storage);
+  const geocoder = new CachedGeocoder(upstreamGeocoder, storage);
+
+  // Apply rate limiting to landmark provider and geocoder proxy endpoints
+  app.use("/api/landmarks", rateLimitMiddleware);
+  app.use("/api/geocode", rateLimitMiddleware);
+  // Exports look up the summaries the client didn't send
+  app.use("/api/export", rateLimitMiddleware);
+  // ...and to the credential endpoints against password guessing
+  app.use(["/api/login", "/api/register"], rateLimitMiddleware);
+  // ...and to tiles, which cost upstream requests on the server's account
+  app.use("/tiles", tileRateLimitMiddleware);
+
+  // Sessions, passport and the register/login/logout/me routes
+  setupAuth(app, storage);
+
+  // Geocoding endpoint - finds cities, addresses and regions by name
+  app.get("/api/geocode", asyncRoute("find places", async (req, res) => {
+    const validatedParams = geocodeRequestSchema.parse({
+      q: req.query.q,
+      lang: req.query.lang as string | undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+    });
+
+    const places = await geocoder.geocode(validatedParams);
+
+    res.json({ places });
+  }));
+
+  // Cache statistics - hit/miss counters and entry counts per namespace.
+  // Operator diagnostics, so only served when CACHE_STATS=true
+  if (process.env.CACHE_STATS === "true") {
+    app.get("/api/cache/stats", asyncRoute("read cache stats", async (_req, res) => {
+      res.json(await provider.getStats());
+    }));
+  }
+
+  // Landmark search endpoint - searches for landmarks within a radius of a coordinate
+  app.get("/api/landmarks/search", asyncRoute("fetch landmarks", async (req, res) => {
+    // Parse and validate query parameters
+    const lat = parseFloat(req.query.lat as string);
+    const lon = parseFloat(req.query.lon as string);
+    const radius = req.query.radius 
+      ? parseFloat(req.query.radius as string) 
+      : 5000;
+    const lang = req.query.lang as string | undefined;
+    const categories = parseList(req.query.category);
+
+    // Validate using Zod schema
+    const validatedParams = landmarkSearchRequestSchema.parse({
+      lat,
+      lon,
+      radius,
+      lang,
+      categories,
+    });
+
+    // The signed-in user's own pins are merged in after the cache
+    const result = await mergeCustomIntoRadius(
+      storage,
+      req.user?.id,
+      await searchRadius(provider, validatedParams),
+      validatedParams,
+    );
+
+    res.json(result);
+  }));
+
+  // Bounding box search endpoint - searches for landmarks inside the visible map area
+  app.get("/api/landmarks/bbox", asyncRoute("fetch landmarks", async (req, res) => {
+    const validatedParams = landmarkBoundsRequestSchema.parse({
+      south: parseFloat(req.query.south as string),
+      west: parseFloat(req.query.west as string),
+      north: parseFloat(req.query.north as string),
+      east: parseFloat(req.query.east as string),
+      lang: req.query.lang as string | undefined,
+      categories: parseList(req.query.category),
+    });
+
+    const result = await mergeCustomIntoBounds(
+      storage,
+      req.user?.id,
+      await searchBounds(provider, validatedParams),
+      validatedParams,
+    );
+
+    res.json(result);
+  }));
+
+  // Name lookup endpoint - geotagged landmarks whose title starts with `q`
+  app.get("/api/landmarks/lookup", asyncRoute("look up landmarks", async (req, res) => {
+    const validatedParams = landmarkLookupRequestSchema.parse({
+      q: req.query.q,
+      lang: req.query.lang as string | undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+    });
+
+    const landmarks = await provider.lookup(validatedParams);
+
+    res.json({ landmarks });
+  }));
+
+  // Batch detail endpoint - summaries for up to 50 landmarks, e.g. ?ids=1|2|3
+  app.get("/api/landmarks/details", asyncRoute("fetch landmark details", async (req, res) => {
+    const ids = typeof req.query.ids === "string" ? req.query.ids : "";
+    const validatedParams = landmarkDetailsRequestSchema.parse({
+      pageids: ids.split(/[|,]/).filter(Boolean).map(Number),
+      lang: req.query.lang as string | undefined,
+    });
+
+    const details = await provider.getDetails(validatedParams);
+
+    res.json(details);
+  }));
+
+  // Landmark detail endpoint - fetches detailed information about a specific landmark
+  app.get("/api/landmarks/:pageid", asyncRoute("fetch landmark details", async (req, res) => {
+    const pageid = req.params.pageid;
+
+    if (!pageid || isNaN(parseInt(pageid))) {
+      res.status(400).json({ error: "Invalid page ID" });
+      return;
+    }
+
+    const validatedParams = landmarkDetailRequestSchema.parse({
+      pageid: parseInt(pageid),
+      lang: req.query.lang as string | undefined,
+    });
+
+    const landmarkDetail = await provider.getDetail(validatedParams);
+
+    if (!landmarkDetail) {
+      res.status(404).json({ error: "Landmark not found" });
+      return;
+    }
+
+    res.json(landmarkDetail);
+  }));
+
+  // Favorites - the signed-in user's saved landmarks, newest first
+  app.get("/api/favorites", requireAuth, asyncRoute("fetch favorites", async (req, res) => {
+    res.json(await storage.getSavedLandmarks(req.user!.id));
+  }));
+
+  // Save a landmark along with a snapshot of its detail, so the Saved list
+  // renders without refetching every article
+  app.post("/api/favorites", requireAuth, asyncRoute("save favorite", async (req, res) => {
+    const validatedParams = favoriteRequestSchema.parse(req.body);
+    const detail = await provider.getDetail(validatedParams);
+
+    if (!detail) {
+      res.status(404).json({ error: "Landmark not found" });
+      return;
+    }
+
+    const saved = await storage.saveLandmark({
+      userId: req.user!.id,
+      pageid: detail.pageid,
+      lang: validatedParams.lang,
+      title: detail.title,
+      lat: detail.lat,
+      lon: detail.lon,
+      detail,
+    });
+
+    res.status(201).json(saved);
+  }));
+
+  app.delete(
+    "/api/favorites/:pageid",
+    requireAuth,
+    asyncRoute("remove favorite", async (req, res) => {
+      const { pageid, lang } = favoriteRequestSchema.parse({
+        pageid: parseInt(req.params.pageid),
+        lang: req.query.lang as string | undefined,
+      });
+
+      if (!(await storage.deleteSavedLandmark(req.user!.id, pageid, lang))) {
+        res.status(404).json({ error: "Favorite not found" });
+        return;
+      }
+
+      res.sendStatus(204);
+    }),
+  );
+
+  registerListRoutes(app, storage, provider);
+
+  // Custom landmarks are private to their creator, like lists
+  async function findOwnedCustomLandmark(
+    req: Request,
+    res: Response,
+  ): Promise<CustomLandmark | undefined> {
+    const id = parseInt(req.params.id);
+    const landmark = isNaN(id) ? undefined : await storage.getCustomLandmark(id);
+    if (!landmark || landmark.userId !== req.user!.id) {
+      res.status(404).json({ error: "Landmark not found" });
+      return undefined;
+    }
+    return landmark;
+  }
+
+  // Custom landmarks - pins the signed-in user dropped on the map
+  app.get(
+    "/api/custom-landmarks",
+    requireAuth,
+    asyncRoute("fetch custom landmarks", async (req, res) => {
+      res.json(await storage.getCustomLandmarks(req.user!.id));
+    }),
+  );
+
+  app.post(
+    "/api/custom-landmarks",
+    requireAuth,
+    asyncRoute("create custom landmark", async (req, res) => {
+      const { description, ...fields } = customLandmarkRequestSchema.parse(req.body);
+      const landmark = await storage.createCustomLandmark({
+        ...fields,
+        userId: req.user!.id,
+        description: description || null,
+      });
+      res.status(201).json(landmark);
+    }),
+  );
+
+  // Shaped like a Wikipedia landmark detail so the detail panel can show it
+  app.get(
+    "/api/custom-landmarks/:id",
+    requireAuth,
+    asyncRoute("fetch custom landmark", async (req, res) => {
+      const landmark = await findOwnedCustomLandmark(req, res);
+      if (!landmark) return;
+
+      res.json(customToDetail(landmark));
+    }),
+  );
+
+  app.patch(
+    "/api/custom-landmarks/:id",
+    requireAuth,
+    asyncRoute("update custom landmark", async (req, res) => {
+      const changes = customLandmarkUpdateRequestSchema.parse(req.body);
+      const landmark = await findOwnedCustomLandmark(req, res);
+      if (!landmark) return;
+
+      const updated = await storage.updateCustomLandmark(landmark.id, {
+        ...changes,
+        ...(changes.description !== undefined && { description: changes.description || null }),
+      });
+      res.json(updated);
+    }),
+  );
+
+  app.delete(
+    "/api/custom-landmarks/:id",
+    requireAuth,
+    asyncRoute("delete custom landmark", async (req, res) => {
+      const landmark = await findOwnedCustomLandmark(req, res);
+      if (!landmark) return;
+
+      await storage.deleteCustomLandmark(landmark.id);
+      res.sendStatus(204);
+    }),
+  );
+
+  registerVisitRoutes(app, storage, provider);
+
+  registerNoteRoutes(app, storage, provider);
+
+  // Walking tour - visiting order, distances and walking times for the
+  // given landmarks, from an optional start point
+  app.post("/api/tours/walking", asyncRoute("build walking tour", async (req, res) => {
+    const validatedParams = walkingTourRequestSchema.parse(req.body);
+    res.json(buildWalkingTour(validatedParams));
+  }));
+
+  // Itinerary planning - the highest-priority landmarks whose walking and
+  // visiting time fit the budget, in visiting order from start to end
+  app.post("/api/tours/plan", asyncRoute("plan tour", async (req, res) => {
+    const validatedParams = tourPlanRequestSchema.parse(req.body);
+    const result = planTour(validatedParams);
+
+    if (!result.ok) {
+      res.status(422).json({
+        error: "The time budget is too short to walk from the start to the end",
+        duration: result.duration,
+        budget: result.budget,
+      });
+      return;
+    }
+
+    res.json(result.plan);
+  }));
+
+  // Export - the given landmarks as a GeoJSON, GPX, KML or CSV download,
+  // with article URLs and extracts filled in where available
+  app.post("/api/export", asyncRoute("export landmarks", async (req, res) => {
+    const { format, name, landmarks, route } = exportRequestSchema.parse(req.body);
+    const file = exportLandmarks(
+      format,
+      name,
+      await withDetails(provider, landmarks),
+      route,
+    );
+
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+    res.send(file.body);
+  }));
+
+  registerOverlayRoutes(app, storage);
+
+  registerRegionPackRoutes(app, provider, tiles);
+
+  registerTileRoutes(app, tiles);
+
+  const httpServer = createServer(app);
+
+  return httpServer;
+}
@@ -0,0 +1,189 @@
+import type { Express, Request, Response } from "express";
+import { randomBytes } from "crypto";
+import {
+  listItemRequestSchema,
+  listOrderRequestSchema,
+  listRequestSchema,
+  listUpdateRequestSchema,
+  type LandmarkList,
+  type SharedLandmarkList,
+} from "@shared/schema";
+import { requireAuth } from "../auth";
+import type { LandmarkProvider } from "../providers";
+import { isUniqueViolation, type IStorage } from "../storage";
+import { asyncRoute } from "./handler";
+
+// Share links need to be unguessable: 144 random bits
+function createShareToken(): string {
+  return randomBytes(18).toString("base64url");
+}
+
+// Lists and the read-only share links to them
+export function registerListRoutes(
+  app: Express,
+  storage: IStorage,
+  provider: LandmarkProvider,
+): void {
+  // Lists are private to their owner; anyone else gets a 404 rather than
+  // learning that the id exists
+  async function findOwnedList(req: Request, res: Response): Promise<LandmarkList | undefined> {
+    const list = await storage.getList(req.params.id);
+    if (!list || list.userId !== req.user!.id) {
+      res.status(404).json({ error: "List not found" });
+      return undefined;
+    }
+    return list;
+  }
+
+  // Landmark lists - named, ordered collections owned by the signed-in user
+  app.get("/api/lists", requireAuth, asyncRoute("fetch lists", async (req, res) => {
+    res.json(await storage.getLists(req.user!.id));
+  }));
+
+  app.post("/api/lists", requireAuth, asyncRoute("create list", async (req, res) => {
+    const { name, description } = listRequestSchema.parse(req.body);
+    const list = await storage.createList({
+      userId: req.user!.id,
+      name,
+      description: description || null,
+    });
+    res.status(201).json(list);
+  }));
+
+  app.get("/api/lists/:id", requireAuth, asyncRoute("fetch list", async (req, res) => {
+    const list = await findOwnedList(req, res);
+    if (!list) return;
+
+    res.json({ list, items: await storage.getListItems(list.id) });
+  }));
+
+  app.patch("/api/lists/:id", requireAuth, asyncRoute("update list", async (req, res) => {
+    const changes = listUpdateRequestSchema.parse(req.body);
+    const list = await findOwnedList(req, res);
+    if (!list) return;
+
+    const updated = await storage.updateList(list.id, {
+      ...changes,
+      ...(changes.description !== undefined && { description: changes.description || null }),
+    });
+    res.json(updated);
+  }));
+
+  app.delete("/api/lists/:id", requireAuth, asyncRoute("delete list", async (req, res) => {
+    const list = await findOwnedList(req, res);
+    if (!list) return;
+
+    await storage.deleteList(list.id);
+    res.sendStatus(204);
+  }));
+
+  // Append a landmark to a list, looking up its title and coordinates
+  app.post(
+    "/api/lists/:id/items",
+    requireAuth,
+    asyncRoute("add landmark to list", async (req, res) => {
+      const validatedParams = listItemRequestSchema.parse(req.body);
+      const list = await findOwnedList(req, res);
+      if (!list) return;
+
+      const items = await storage.getListItems(list.id);
+      if (items.some((item) =>
+        item.pageid === validatedParams.pageid && item.lang === validatedParams.lang
+      )) {
+        res.status(409).json({ error: "Landmark is already in this list" });
+        return;
+      }
+
+      const detail = await provider.getDetail(validatedParams);
+      if (!detail) {
+        res.status(404).json({ error: "Landmark not found" });
+        return;
+      }
+
+      const item = await storage.addListItem({
+        listId: list.id,
+        pageid: detail.pageid,
+        lang: validatedParams.lang,
+        title: detail.title,
+        lat: detail.lat,
+        lon: detail.lon,
+      });
+      await storage.updateList(list.id, {});
+
+      res.status(201).json(item);
+    }, {
+      // Added by a concurrent request since the check above
+      mapError: (error) =>
+        isUniqueViolation(error)
+          ? { status: 409, body: { error: "Landmark is already in this list" } }
+          : undefined,
+    }),
+  );
+
+  app.delete(
+    "/api/lists/:id/items/:itemId",
+    requireAuth,
+    asyncRoute("remove landmark from list", async (req, res) => {
+      const list = await findOwnedList(req, res);
+      if (!list) return;
+
+      if (!(await storage.removeListItem(list.id, req.params.itemId))) {
+        res.status(404).json({ error: "List item not found" });
+        return;
+      }
+      await storage.updateList(list.id, {});
+
+      res.sendStatus(204);
+    }),
+  );
+
+  // Reorder a list; ids not mentioned keep their order after the given ones
+  app.put("/api/lists/:id/order", requireAuth, asyncRoute("reorder list", async (req, res) => {
+    const { itemIds } = listOrderRequestSchema.parse(req.body);
+    const list = await findOwnedList(req, res);
+    if (!list) return;
+
+    const items = await storage.reorderListItems(list.id, itemIds);
+    await storage.updateList(list.id, {});
+
+    res.json(items);
+  }));
+
+  // Create (or keep) the list's share token; DELETE revokes it
+  app.post("/api/lists/:id/share", requireAuth, asyncRoute("share list", async (req, res) => {
+    const list = await findOwnedList(req, res);
+    if (!list) return;
+
+    res.json(list.shareToken
+      ? list
+      : await storage.updateList(list.id, { shareToken: createShareToken() }));
+  }));
+
+  app.delete(
+    "/api/lists/:id/share",
+    requireAuth,
+    asyncRoute("stop sharing list", async (req, res) => {
+      const list = await findOwnedList(req, res);
+      if (!list) return;
+
+      res.json(await storage.updateList(list.id, { shareToken: null }));
+    }),
+  );
+
+  // Read-only list behind a share link; no account needed
+  app.get("/api/shared/:token", asyncRoute("fetch shared list", async (req, res) => {
+    const list = await storage.getListByShareToken(req.params.token);
+
+    if (!list) {
+      res.status(404).json({ error: "List not found" });
+      return;
+    }
+
+    const { userId: _userId, shareToken: _shareToken, ...publicList } = list;
+    const shared: SharedLandmarkList = {
+      list: publicList,
+      items: await storage.getListItems(list.id),
+    };
+    res.json(shared);
+  }));
+}
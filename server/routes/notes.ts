@@ -0,0 +1,97 @@
+import type { Express } from "express";
+import {
+  noteRequestSchema,
+  noteSearchRequestSchema,
+  providerLandmarkRequestSchema,
+} from "@shared/schema";
+import { requireAuth } from "../auth";
+import type { LandmarkProvider } from "../providers";
+import type { IStorage } from "../storage";
+import { asyncRoute } from "./handler";
+
+export function registerNoteRoutes(
+  app: Express,
+  storage: IStorage,
+  provider: LandmarkProvider,
+): void {
+  // Notes - private markdown notes and tags, searchable with ?q= and ?tag=
+  app.get("/api/notes", requireAuth, asyncRoute("fetch notes", async (req, res) => {
+    const search = noteSearchRequestSchema.parse({
+      q: req.query.q || undefined,
+      tag: req.query.tag || undefined,
+    });
+    res.json(await storage.getNotes(req.user!.id, search));
+  }));
+
+  app.get("/api/notes/:pageid", requireAuth, asyncRoute("fetch note", async (req, res) => {
+    const { pageid, lang } = providerLandmarkRequestSchema.parse({
+      pageid: parseInt(req.params.pageid),
+      lang: req.query.lang as string | undefined,
+      source: req.query.source as string | undefined,
+    });
+
+    const note = await storage.getNote(req.user!.id, pageid, lang);
+    if (!note) {
+      res.status(404).json({ error: "Note not found" });
+      return;
+    }
+
+    res.json(note);
+  }));
+
+  // Create or replace the note on a landmark; saving an empty note without
+  // tags removes it
+  app.put("/api/notes/:pageid", requireAuth, asyncRoute("save note", async (req, res) => {
+    const landmarkParams = providerLandmarkRequestSchema.parse({
+      pageid: parseInt(req.params.pageid),
+      lang: req.query.lang as string | undefined,
+      source: req.query.source as string | undefined,
+    });
+    const { body, tags } = noteRequestSchema.parse(req.body);
+    const userId = req.user!.id;
+
+    if (!body.trim() && tags.length === 0) {
+      await storage.deleteNote(userId, landmarkParams.pageid, landmarkParams.lang);
+      res.sendStatus(204);
+      return;
+    }
+
+    // Title and coordinates are kept so notes can be listed, searched and
+    // shown on the map without fetching every article
+    const landmark =
+      (await storage.getNote(userId, landmarkParams.pageid, landmarkParams.lang)) ??
+      (await provider.getDetail(landmarkParams));
+    if (!landmark) {
+      res.status(404).json({ error: "Landmark not found" });
+      return;
+    }
+
+    const note = await storage.saveNote({
+      userId,
+      pageid: landmarkParams.pageid,
+      lang: landmarkParams.lang,
+      title: landmark.title,
+      lat: landmark.lat,
+      lon: landmark.lon,
+      body,
+      tags,
+    });
+
+    res.json(note);
+  }));
+
+  app.delete("/api/notes/:pageid", requireAuth, asyncRoute("delete note", async (req, res) => {
+    const { pageid, lang } = providerLandmarkRequestSchema.parse({
+      pageid: parseInt(req.params.pageid),
+      lang: req.query.lang as string | undefined,
+      source: req.query.source as string | undefined,
+    });
+
+    if (!(await storage.deleteNote(req.user!.id, pageid, lang))) {
+      res.status(404).json({ error: "Note not found" });
+      return;
+    }
+
+    res.sendStatus(204);
+  }));
+}
@@ -0,0 +1,46 @@
+import type { Express, Request, Response } from "express";
+import { overlayRequestSchema, type Overlay } from "@shared/schema";
+import { requireAuth } from "../auth";
+import { featureBounds } from "../geo";
+import type { IStorage } from "../storage";
+import { asyncRoute } from "./handler";
+
+export function registerOverlayRoutes(app: Express, storage: IStorage): void {
+  // Overlays are private to their owner, like lists
+  async function findOwnedOverlay(
+    req: Request,
+    res: Response,
+  ): Promise<Overlay | undefined> {
+    const overlay = await storage.getOverlay(req.params.id);
+    if (!overlay || overlay.userId !== req.user!.id) {
+      res.status(404).json({ error: "Overlay not found" });
+      return undefined;
+    }
+    return overlay;
+  }
+
+  // Overlays - features imported from GeoJSON, GPX or KML files. The client
+  // parses the files; uploads are checked for size (the JSON body limit),
+  // feature and coordinate counts, and valid geometry.
+  app.get("/api/overlays", requireAuth, asyncRoute("fetch overlays", async (req, res) => {
+    res.json(await storage.getOverlays(req.user!.id));
+  }));
+
+  app.post("/api/overlays", requireAuth, asyncRoute("create overlay", async (req, res) => {
+    const request = overlayRequestSchema.parse(req.body);
+    const overlay = await storage.createOverlay({
+      ...request,
+      userId: req.user!.id,
+      bounds: featureBounds(request.features),
+    });
+    res.status(201).json(overlay);
+  }));
+
+  app.delete("/api/overlays/:id", requireAuth, asyncRoute("delete overlay", async (req, res) => {
+    const overlay = await findOwnedOverlay(req, res);
+    if (!overlay) return;
+
+    await storage.deleteOverlay(overlay.id);
+    res.sendStatus(204);
+  }));
+}
@@ -0,0 +1,98 @@
+import type { Express } from "express";
+import { regionPackRequestSchema } from "@shared/schema";
+import { requireAuth } from "../auth";
+import type { LandmarkProvider } from "../providers";
+import { RegionPackBuilder } from "../region-packs";
+import type { TileProxy } from "../tiles";
+import { asyncRoute } from "./handler";
+
+export function registerRegionPackRoutes(
+  app: Express,
+  provider: LandmarkProvider,
+  tiles: TileProxy,
+): void {
+  const regionPacks = new RegionPackBuilder(provider, tiles);
+
+  // Region packs - an area's landmarks, summaries, thumbnails and map tiles,
+  // prepared in the background for the client to store for offline use.
+  // Start a job, poll it until it's done, then download the manifest and
+  // the files it lists. One job per user runs at a time.
+  app.post("/api/region-packs", requireAuth, asyncRoute("start region pack", async (req, res) => {
+    const request = regionPackRequestSchema.parse(req.body);
+
+    if (!tiles.getLayer(request.layer)) {
+      res.status(400).json({ error: "Unknown base map" });
+      return;
+    }
+    if (regionPacks.runningFor(req.user!.id)) {
+      res.status(409).json({ error: "A region pack is already being prepared" });
+      return;
+    }
+    if (regionPacks.isBusy()) {
+      res.status(503).json({
+        error: "Too many region packs are being prepared",
+        message: "Please try again in a few minutes",
+      });
+      return;
+    }
+
+    res.status(202).json(regionPacks.start(req.user!.id, request));
+  }));
+
+  app.get("/api/region-packs/:id", requireAuth, (req, res) => {
+    const job = regionPacks.get(req.user!.id, req.params.id);
+    if (!job) {
+      res.status(404).json({ error: "Region pack not found" });
+      return;
+    }
+    res.json(job);
+  });
+
+  app.get("/api/region-packs/:id/manifest", requireAuth, (req, res) => {
+    const job = regionPacks.get(req.user!.id, req.params.id);
+    if (!job) {
+      res.status(404).json({ error: "Region pack not found" });
+      return;
+    }
+    if (job.status !== "done") {
+      res.status(409).json({ error: "Region pack isn't ready" });
+      return;
+    }
+    res.json(regionPacks.manifest(req.user!.id, job.id));
+  });
+
+  app.get("/api/region-packs/:id/thumbnails/:index", requireAuth, (req, res) => {
+    const file = regionPacks.thumbnail(
+      req.user!.id,
+      req.params.id,
+      parseInt(req.params.index, 10),
+    );
+    if (!file) {
+      res.status(404).json({ error: "Thumbnail not found" });
+      return;
+    }
+    res.type(file.contentType).send(file.body);
+  });
+
+  app.get("/api/region-packs/:id/tiles/:z/:x/:y", requireAuth, (req, res) => {
+    const file = regionPacks.tile(req.user!.id, req.params.id, {
+      z: parseInt(req.params.z, 10),
+      x: parseInt(req.params.x, 10),
+      y: parseInt(req.params.y, 10),
+    });
+    if (!file) {
+      res.status(404).json({ error: "Tile not found" });
+      return;
+    }
+    res.type(file.contentType).send(file.body);
+  });
+
+  // Cancels a job that is still running, or frees a finished one
+  app.delete("/api/region-packs/:id", requireAuth, (req, res) => {
+    if (!regionPacks.cancel(req.user!.id, req.params.id)) {
+      res.status(404).json({ error: "Region pack not found" });
+      return;
+    }
+    res.sendStatus(204);
+  });
+}
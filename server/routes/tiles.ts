@@ -0,0 +1,36 @@
+import type { Express } from "express";
+import type { TileProxy } from "../tiles";
+import { asyncRoute } from "./handler";
+
+// Seconds browsers may reuse a proxied tile before asking again
+const TILE_BROWSER_MAX_AGE = 24 * 60 * 60;
+
+export function registerTileRoutes(app: Express, tiles: TileProxy): void {
+  // Base maps for the layer control
+  app.get("/api/tile-sources", (_req, res) => {
+    res.json(tiles.catalogue());
+  });
+
+  // Map tiles - proxied from the layer's upstream and cached on disk, so
+  // browsers only ever talk to us. With TILE_OFFLINE set only cached tiles
+  // are served.
+  app.get("/tiles/:layer/:z/:x/:y.png", asyncRoute("fetch tile", async (req, res) => {
+    const tile = await tiles.getTile(req.params.layer, {
+      z: Number(req.params.z),
+      x: Number(req.params.x),
+      y: Number(req.params.y),
+    });
+
+    if (!tile) {
+      res.status(404).json({ error: "Tile not found" });
+      return;
+    }
+
+    res.set({
+      "Cache-Control": `public, max-age=${TILE_BROWSER_MAX_AGE}`,
+      "Last-Modified": new Date(tile.fetchedAt).toUTCString(),
+      "X-Tile-Cache": tile.status,
+    });
+    res.type(tile.contentType).send(tile.body);
+  }, { status: 502 }));
+}
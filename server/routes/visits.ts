@@ -0,0 +1,75 @@
+import type { Express } from "express";
+import { checkInRequestSchema } from "@shared/schema";
+import { requireAuth } from "../auth";
+import { CHECKIN_POLICY, checkPosition } from "../checkin";
+import type { LandmarkProvider } from "../providers";
+import type { IStorage } from "../storage";
+import { asyncRoute } from "./handler";
+
+export function registerVisitRoutes(
+  app: Express,
+  storage: IStorage,
+  provider: LandmarkProvider,
+): void {
+  // Visit log - check-ins, optionally verified against the browser position
+  app.get("/api/visits/policy", (_req, res) => {
+    res.json(CHECKIN_POLICY);
+  });
+
+  app.get("/api/visits", requireAuth, asyncRoute("fetch visits", async (req, res) => {
+    res.json(await storage.getVisits(req.user!.id));
+  }));
+
+  app.post("/api/visits", requireAuth, asyncRoute("check in", async (req, res) => {
+    const { note, visitedAt, position, ...landmarkParams } =
+      checkInRequestSchema.parse(req.body);
+
+    if (visitedAt && visitedAt.getTime() > Date.now()) {
+      res.status(400).json({ error: "Visits can't be in the future" });
+      return;
+    }
+
+    const detail = await provider.getDetail(landmarkParams);
+    if (!detail) {
+      res.status(404).json({ error: "Landmark not found" });
+      return;
+    }
+
+    const check = checkPosition(detail, position);
+    if (!check.ok) {
+      res.status(422).json({
+        error: check.error,
+        distance: check.distance,
+        maxDistance: CHECKIN_POLICY.maxDistance,
+      });
+      return;
+    }
+
+    const visit = await storage.createVisit({
+      userId: req.user!.id,
+      pageid: detail.pageid,
+      lang: landmarkParams.lang,
+      title: detail.title,
+      lat: detail.lat,
+      lon: detail.lon,
+      note: note || null,
+      verified: check.verified,
+      distance: check.distance,
+      // A position check vouches for now, not for a backdated time
+      visitedAt: check.verified ? new Date() : visitedAt ?? new Date(),
+    });
+
+    res.status(201).json(visit);
+  }));
+
+  app.delete("/api/visits/:id", requireAuth, asyncRoute("delete visit", async (req, res) => {
+    const visit = await storage.getVisit(req.params.id);
+    if (!visit || visit.userId !== req.user!.id) {
+      res.status(404).json({ error: "Visit not found" });
+      return;
+    }
+
+    await storage.deleteVisit(visit.id);
+    res.sendStatus(204);
+  }));
+}
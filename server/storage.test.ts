@@ -0,0 +1,330 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { isUniqueViolation, MemStorage } from "./storage";
+
+const TOWER = { pageid: 1, title: "Tower", lat: 51.5081, lon: -0.0759 };
+const BRIDGE = { pageid: 2, title: "Bridge", lat: 51.5055, lon: -0.0754 };
+const ABBEY = { pageid: 3, title: "Abbey", lat: 51.4994, lon: -0.1273 };
+
+describe("MemStorage", () => {
+  let storage: MemStorage;
+
+  // Each write happens a second after the last, so orderings are stable
+  function tick() {
+    vi.advanceTimersByTime(1000);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    storage = new MemStorage();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("users", () => {
+    it("creates and finds users by id and username", async () => {
+      const user = await storage.createUser({ username: "ada", password: "hash" });
+
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByUsername("ada")).toEqual(user);
+      expect(await storage.getUserByUsername("grace")).toBeUndefined();
+    });
+
+    it("rejects a taken username as a unique violation", async () => {
+      await storage.createUser({ username: "ada", password: "hash" });
+
+      const error = await storage
+        .createUser({ username: "ada", password: "other" })
+        .catch((error: unknown) => error);
+      expect(isUniqueViolation(error)).toBe(true);
+    });
+  });
+
+  describe("saved landmarks", () => {
+    it("saves, lists newest first, and deletes by pageid and language", async () => {
+      await storage.saveLandmark({ userId: "u1", ...TOWER });
+      tick();
+      await storage.saveLandmark({ userId: "u1", ...BRIDGE, lang: "de" });
+      await storage.saveLandmark({ userId: "u2", ...ABBEY });
+
+      const saved = await storage.getSavedLandmarks("u1");
+      expect(saved.map((landmark) => [landmark.title, landmark.lang])).toEqual([
+        ["Bridge", "de"],
+        ["Tower", "en"],
+      ]);
+
+      expect(await storage.deleteSavedLandmark("u1", 2, "en")).toBe(false);
+      expect(await storage.deleteSavedLandmark("u1", 2, "de")).toBe(true);
+      expect((await storage.getSavedLandmarks("u1")).map((landmark) => landmark.title)).toEqual([
+        "Tower",
+      ]);
+    });
+
+    it("refreshes the snapshot when a landmark is saved again", async () => {
+      const first = await storage.saveLandmark({ userId: "u1", ...TOWER });
+      tick();
+      const second = await storage.saveLandmark({
+        userId: "u1",
+        ...TOWER,
+        title: "Tower of London",
+      });
+
+      expect(second.id).toBe(first.id);
+      expect(second.createdAt).toEqual(first.createdAt);
+      expect(await storage.getSavedLandmarks("u1")).toEqual([second]);
+    });
+  });
+
+  describe("lists", () => {
+    it("creates, updates, finds by share token and orders by last update", async () => {
+      const walks = await storage.createList({ userId: "u1", name: "Walks" });
+      tick();
+      const food = await storage.createList({ userId: "u1", name: "Food" });
+      tick();
+
+      expect(walks).toMatchObject({ description: null, shareToken: null });
+      expect((await storage.getLists("u1")).map((list) => list.name)).toEqual(["Food", "Walks"]);
+
+      const updated = await storage.updateList(walks.id, { shareToken: "token" });
+      expect(updated?.updatedAt.getTime()).toBeGreaterThan(walks.updatedAt.getTime());
+      expect((await storage.getLists("u1")).map((list) => list.name)).toEqual(["Walks", "Food"]);
+      expect(await storage.getListByShareToken("token")).toEqual(updated);
+      expect(await storage.getListByShareToken("other")).toBeUndefined();
+
+      expect(await storage.updateList("missing", { name: "Nope" })).toBeUndefined();
+      expect(await storage.deleteList(food.id)).toBe(true);
+      expect(await storage.getList(food.id)).toBeUndefined();
+      expect(await storage.getLists("u2")).toEqual([]);
+    });
+
+    it("appends items and keeps each landmark once per language", async () => {
+      const list = await storage.createList({ userId: "u1", name: "Walks" });
+      await storage.addListItem({ listId: list.id, ...TOWER });
+      await storage.addListItem({ listId: list.id, ...BRIDGE });
+      await storage.addListItem({ listId: list.id, ...TOWER, lang: "de" });
+
+      const items = await storage.getListItems(list.id);
+      expect(items.map((item) => [item.title, item.lang, item.position])).toEqual([
+        ["Tower", "en", 0],
+        ["Bridge", "en", 1],
+        ["Tower", "de", 2],
+      ]);
+
+      const error = await storage
+        .addListItem({ listId: list.id, ...TOWER })
+        .catch((error: unknown) => error);
+      expect(isUniqueViolation(error)).toBe(true);
+      expect(await storage.getListItems(list.id)).toHaveLength(3);
+
+      // The same landmark may go in another list
+      const other = await storage.createList({ userId: "u1", name: "Other" });
+      await expect(storage.addListItem({ listId: other.id, ...TOWER })).resolves.toBeDefined();
+    });
+
+    it("moves reordered items to the front and keeps the rest in order", async () => {
+      const list = await storage.createList({ userId: "u1", name: "Walks" });
+      const tower = await storage.addListItem({ listId: list.id, ...TOWER });
+      const bridge = await storage.addListItem({ listId: list.id, ...BRIDGE });
+      const abbey = await storage.addListItem({ listId: list.id, ...ABBEY });
+
+      const reordered = await storage.reorderListItems(list.id, [
+        abbey.id,
+        "unknown",
+        abbey.id,
+      ]);
+      expect(reordered.map((item) => item.id)).toEqual([abbey.id, tower.id, bridge.id]);
+      expect(reordered.map((item) => item.position)).toEqual([0, 1, 2]);
+    });
+
+    it("removes items only from their own list, and with the list", async () => {
+      const list = await storage.createList({ userId: "u1", name: "Walks" });
+      const other = await storage.createList({ userId: "u1", name: "Other" });
+      const item = await storage.addListItem({ listId: list.id, ...TOWER });
+      await storage.addListItem({ listId: list.id, ...BRIDGE });
+
+      expect(await storage.removeListItem(other.id, item.id)).toBe(false);
+      expect(await storage.removeListItem(list.id, item.id)).toBe(true);
+      expect((await storage.getListItems(list.id)).map((entry) => entry.title)).toEqual([
+        "Bridge",
+      ]);
+
+      await storage.deleteList(list.id);
+      expect(await storage.getListItems(list.id)).toEqual([]);
+    });
+  });
+
+  describe("custom landmarks", () => {
+    it("numbers pins and filters them by owner and bounds", async () => {
+      const cafe = await storage.createCustomLandmark({
+        userId: "u1",
+        title: "Café",
+        lat: 51.5,
+        lon: -0.1,
+        category: "other",
+      });
+      tick();
+      const bench = await storage.createCustomLandmark({
+        userId: "u1",
+        title: "Bench",
+        lat: 48.85,
+        lon: 2.35,
+        category: "park",
+      });
+      await storage.createCustomLandmark({
+        userId: "u2",
+        title: "Shed",
+        lat: 51.5,
+        lon: -0.1,
+        category: "building",
+      });
+
+      expect([cafe.id, bench.id]).toEqual([1, 2]);
+      expect(cafe.description).toBeNull();
+      expect((await storage.getCustomLandmarks("u1")).map((pin) => pin.title)).toEqual([
+        "Bench",
+        "Café",
+      ]);
+      const london = { south: 51, west: -1, north: 52, east: 1 };
+      expect((await storage.getCustomLandmarks("u1", london)).map((pin) => pin.title)).toEqual([
+        "Café",
+      ]);
+
+      tick();
+      const updated = await storage.updateCustomLandmark(cafe.id, { description: "Good coffee" });
+      expect(updated).toMatchObject({ title: "Café", description: "Good coffee" });
+      expect(updated?.updatedAt.getTime()).toBeGreaterThan(cafe.updatedAt.getTime());
+      expect(await storage.updateCustomLandmark(99, { title: "Nope" })).toBeUndefined();
+
+      expect(await storage.deleteCustomLandmark(cafe.id)).toBe(true);
+      expect(await storage.getCustomLandmark(cafe.id)).toBeUndefined();
+    });
+  });
+
+  describe("visits", () => {
+    it("logs repeat visits, most recent first", async () => {
+      const first = await storage.createVisit({ userId: "u1", ...TOWER });
+      tick();
+      const second = await storage.createVisit({
+        userId: "u1",
+        ...TOWER,
+        verified: true,
+        distance: 12,
+        note: "Again",
+      });
+      await storage.createVisit({
+        userId: "u1",
+        ...BRIDGE,
+        visitedAt: new Date("2020-01-01T00:00:00Z"),
+      });
+
+      expect(first).toMatchObject({ lang: "en", note: null, verified: false, distance: null });
+      expect((await storage.getVisits("u1")).map((visit) => visit.id)).toEqual([
+        second.id,
+        first.id,
+        expect.any(String),
+      ]);
+      expect(await storage.getVisit(second.id)).toEqual(second);
+      expect(await storage.deleteVisit(first.id)).toBe(true);
+      expect(await storage.deleteVisit(first.id)).toBe(false);
+      expect(await storage.getVisits("u2")).toEqual([]);
+    });
+  });
+
+  describe("notes", () => {
+    it("keeps one note per landmark and language, replacing its body and tags", async () => {
+      const first = await storage.saveNote({
+        userId: "u1",
+        ...TOWER,
+        body: "Ravens",
+        tags: ["birds"],
+      });
+      tick();
+      const second = await storage.saveNote({ userId: "u1", ...TOWER, body: "Crown jewels" });
+
+      expect(second.id).toBe(first.id);
+      expect(second).toMatchObject({ body: "Crown jewels", tags: [] });
+      expect(second.createdAt).toEqual(first.createdAt);
+      expect(await storage.getNote("u1", 1, "en")).toEqual(second);
+      expect(await storage.getNote("u1", 1, "de")).toBeUndefined();
+
+      expect(await storage.deleteNote("u1", 1, "en")).toBe(true);
+      expect(await storage.getNotes("u1")).toEqual([]);
+    });
+
+    it("searches all words in title, body and tags, best match first", async () => {
+      await storage.saveNote({
+        userId: "u1",
+        ...TOWER,
+        body: "Ravens and ravens",
+        tags: ["birds"],
+      });
+      tick();
+      await storage.saveNote({ userId: "u1", ...BRIDGE, body: "Opens for ships", tags: ["river"] });
+      tick();
+      await storage.saveNote({ userId: "u1", ...ABBEY, body: "One raven seen", tags: ["birds"] });
+      await storage.saveNote({ userId: "u2", ...TOWER, body: "Ravens" });
+
+      const titles = async (search?: { q?: string; tag?: string }) =>
+        (await storage.getNotes("u1", search)).map((note) => note.title);
+
+      expect(await titles()).toEqual(["Abbey", "Bridge", "Tower"]);
+      expect(await titles({ q: "RAVEN" })).toEqual(["Tower", "Abbey"]);
+      expect(await titles({ q: "raven seen" })).toEqual(["Abbey"]);
+      expect(await titles({ q: "river" })).toEqual(["Bridge"]);
+      expect(await titles({ tag: "birds" })).toEqual(["Abbey", "Tower"]);
+      expect(await titles({ q: "ships", tag: "birds" })).toEqual([]);
+    });
+  });
+
+  describe("overlays", () => {
+    it("creates, lists newest first and deletes overlays", async () => {
+      const overlay = {
+        name: "Hike",
+        format: "gpx" as const,
+        features: [
+          {
+            type: "Feature" as const,
+            geometry: { type: "Point" as const, coordinates: [0, 0] },
+            properties: {},
+          },
+        ],
+        bounds: { south: 0, west: 0, north: 0, east: 0 },
+      };
+      const first = await storage.createOverlay({ userId: "u1", ...overlay });
+      tick();
+      const second = await storage.createOverlay({ userId: "u1", ...overlay, name: "Run" });
+
+      expect((await storage.getOverlays("u1")).map((entry) => entry.name)).toEqual(["Run", "Hike"]);
+      expect(await storage.getOverlay(first.id)).toEqual(first);
+      expect(await storage.getOverlays("u2")).toEqual([]);
+      expect(await storage.deleteOverlay(second.id)).toBe(true);
+      expect((await storage.getOverlays("u1")).map((entry) => entry.name)).toEqual(["Hike"]);
+    });
+  });
+
+  describe("cache", () => {
+    it("stores entries per namespace with the time they were stored", async () => {
+      await storage.setCacheEntry("lookup", "en:5:tower", [TOWER]);
+
+      expect(await storage.getCacheEntry("lookup", "en:5:tower")).toEqual({
+        value: [TOWER],
+        storedAt: Date.now(),
+      });
+      expect(await storage.getCacheEntry("search", "en:5:tower")).toBeUndefined();
+      expect(await storage.getCacheSize("lookup")).toBe(1);
+    });
+
+    it("evicts the least recently used entries past the namespace limit", async () => {
+      const limited = new MemStorage({ search: 1, detail: 1, summary: 1, lookup: 2, geocode: 1 });
+      await limited.setCacheEntry("lookup", "a", []);
+      await limited.setCacheEntry("lookup", "b", []);
+      await limited.getCacheEntry("lookup", "a");
+      await limited.setCacheEntry("lookup", "c", []);
+
+      expect(await limited.getCacheEntry("lookup", "a")).toBeDefined();
+      expect(await limited.getCacheEntry("lookup", "b")).toBeUndefined();
+      expect(await limited.getCacheSize("lookup")).toBe(2);
+    });
+  });
+});
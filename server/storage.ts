@@ -1,14 +1,880 @@
+import { randomUUID } from "crypto";
+import { and, arrayContains, asc, between, desc, eq, inArray, sql, type SQL } from "drizzle-orm";
+import {
+  customLandmarks,
+  landmarkCache,
+  landmarkListItems,
+  landmarkLists,
+  landmarkNotes,
+  overlays,
+  savedLandmarks,
+  users,
+  visits,
+  type Bounds,
+  type CustomLandmark,
+  type InsertCustomLandmark,
+  type InsertLandmarkList,
+  type InsertLandmarkListItem,
+  type InsertLandmarkNote,
+  type InsertOverlay,
+  type InsertSavedLandmark,
+  type InsertUser,
+  type InsertVisit,
+  type Landmark,
+  type LandmarkDetail,
+  type LandmarkList,
+  type LandmarkListItem,
+  type LandmarkNote,
+  type LandmarkSearchResult,
+  type NoteSearchRequest,
+  type Overlay,
+  type Place,
+  type SavedLandmark,
+  type User,
+  type Visit,
+} from "@shared/schema";
+import { createDb, pool, type Database } from "./db";
+import { LruMap } from "./lru";
+
 // Storage interface for the landmarks app
-// Since we're fetching data from Wikipedia API, we don't need persistent storage
+// Holds user data (accounts, saved landmarks, lists) and cached copies of
+// provider responses so popular areas don't hit upstream each time.
+
+// Value types stored under each cache namespace
+export interface CacheValues {
+  search: LandmarkSearchResult;
+  detail: LandmarkDetail;
+  // Batch summaries: shorter extracts and no language links
+  summary: LandmarkDetail;
+  lookup: Landmark[];
+  geocode: Place[];
+}
+
+export type CacheNamespace = keyof CacheValues;
+
+// Postgres' error code for a unique constraint violation. MemStorage throws
+// errors with the same code, so callers handle both storages alike.
+const UNIQUE_VIOLATION = "23505";
+
+export function isUniqueViolation(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { code?: unknown }).code === UNIQUE_VIOLATION
+  );
+}
+
+function uniqueViolation(constraint: string): Error {
+  return Object.assign(new Error(`Duplicate key violates unique constraint ${constraint}`), {
+    code: UNIQUE_VIOLATION,
+  });
+}
+
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+}
 
 export interface IStorage {
-  // Add storage methods here if needed for caching or user preferences
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+
+  // Newest first
+  getSavedLandmarks(userId: string): Promise<SavedLandmark[]>;
+  // Saving an already saved landmark refreshes its snapshot
+  saveLandmark(landmark: InsertSavedLandmark): Promise<SavedLandmark>;
+  deleteSavedLandmark(userId: string, pageid: number, lang: string): Promise<boolean>;
+
+  // Most recently updated first
+  getLists(userId: string): Promise<LandmarkList[]>;
+  getList(id: string): Promise<LandmarkList | undefined>;
+  getListByShareToken(token: string): Promise<LandmarkList | undefined>;
+  createList(list: InsertLandmarkList): Promise<LandmarkList>;
+  updateList(id: string, changes: Partial<InsertLandmarkList>): Promise<LandmarkList | undefined>;
+  deleteList(id: string): Promise<boolean>;
+  // Ordered by position
+  getListItems(listId: string): Promise<LandmarkListItem[]>;
+  // Appends to the end of the list
+  addListItem(item: InsertLandmarkListItem): Promise<LandmarkListItem>;
+  removeListItem(listId: string, itemId: string): Promise<boolean>;
+  // Moves the given items to the front in the given order; items not
+  // mentioned keep their relative order after them
+  reorderListItems(listId: string, itemIds: string[]): Promise<LandmarkListItem[]>;
+
+  // Newest first, optionally only those inside the bounds
+  getCustomLandmarks(userId: string, bounds?: Bounds): Promise<CustomLandmark[]>;
+  getCustomLandmark(id: number): Promise<CustomLandmark | undefined>;
+  createCustomLandmark(landmark: InsertCustomLandmark): Promise<CustomLandmark>;
+  updateCustomLandmark(
+    id: number,
+    changes: Partial<InsertCustomLandmark>,
+  ): Promise<CustomLandmark | undefined>;
+  deleteCustomLandmark(id: number): Promise<boolean>;
+
+  // Most recent visit first
+  getVisits(userId: string): Promise<Visit[]>;
+  getVisit(id: string): Promise<Visit | undefined>;
+  createVisit(visit: InsertVisit): Promise<Visit>;
+  deleteVisit(id: string): Promise<boolean>;
+
+  // Most recently updated first; with a query, only notes matching all of
+  // its words in title, body or tags, best match first
+  getNotes(userId: string, search?: NoteSearchRequest): Promise<LandmarkNote[]>;
+  getNote(userId: string, pageid: number, lang: string): Promise<LandmarkNote | undefined>;
+  // Replaces the body and tags of an existing note
+  saveNote(note: InsertLandmarkNote): Promise<LandmarkNote>;
+  deleteNote(userId: string, pageid: number, lang: string): Promise<boolean>;
+
+  // Newest first
+  getOverlays(userId: string): Promise<Overlay[]>;
+  getOverlay(id: string): Promise<Overlay | undefined>;
+  createOverlay(overlay: InsertOverlay): Promise<Overlay>;
+  deleteOverlay(id: string): Promise<boolean>;
+
+  getCacheEntry<N extends CacheNamespace>(
+    namespace: N,
+    key: string,
+  ): Promise<CacheEntry<CacheValues[N]> | undefined>;
+  setCacheEntry<N extends CacheNamespace>(
+    namespace: N,
+    key: string,
+    value: CacheValues[N],
+  ): Promise<void>;
+  getCacheSize(namespace: CacheNamespace): Promise<number>;
+}
+
+// Maximum number of cached entries per namespace before LRU eviction
+export const CACHE_LIMITS: Record<CacheNamespace, number> = {
+  search: parseInt(process.env.LANDMARK_CACHE_MAX_SEARCHES || "1000", 10),
+  detail: parseInt(process.env.LANDMARK_CACHE_MAX_DETAILS || "5000", 10),
+  summary: parseInt(process.env.LANDMARK_CACHE_MAX_SUMMARIES || "10000", 10),
+  lookup: parseInt(process.env.LANDMARK_CACHE_MAX_LOOKUPS || "2000", 10),
+  geocode: parseInt(process.env.GEOCODE_CACHE_MAX_ENTRIES || "2000", 10),
+};
+
+// Order item ids: the requested ones first, then the rest as they were
+function reorderedIds(items: LandmarkListItem[], itemIds: string[]): string[] {
+  const known = new Set(items.map((item) => item.id));
+  const requested = itemIds.filter((id, index) => known.has(id) && itemIds.indexOf(id) === index);
+  const rest = items.map((item) => item.id).filter((id) => !requested.includes(id));
+  return [...requested, ...rest];
+}
+
+// Lowercased words of a note search query
+function searchTerms(q: string): string[] {
+  return q.toLowerCase().split(/\s+/).filter(Boolean);
 }
 
+// In-memory storage for development and tests; nothing survives a restart
 export class MemStorage implements IStorage {
-  constructor() {
-    // Initialize if needed
+  private users = new Map<string, User>();
+  private savedLandmarks = new Map<string, SavedLandmark>();
+  private lists = new Map<string, LandmarkList>();
+  private listItems = new Map<string, LandmarkListItem>();
+  private customLandmarks = new Map<number, CustomLandmark>();
+  private nextCustomLandmarkId = 1;
+  private visits = new Map<string, Visit>();
+  private notes = new Map<string, LandmarkNote>();
+  private overlays = new Map<string, Overlay>();
+  private caches: { [N in CacheNamespace]: LruMap<string, CacheEntry<CacheValues[N]>> };
+
+  constructor(limits: Record<CacheNamespace, number> = CACHE_LIMITS) {
+    this.caches = {
+      search: new LruMap(limits.search),
+      detail: new LruMap(limits.detail),
+      summary: new LruMap(limits.summary),
+      lookup: new LruMap(limits.lookup),
+      geocode: new LruMap(limits.geocode),
+    };
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.username === username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw uniqueViolation("users_username_unique");
+    }
+    const user: User = { ...insertUser, id: randomUUID(), createdAt: new Date() };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async getSavedLandmarks(userId: string): Promise<SavedLandmark[]> {
+    return Array.from(this.savedLandmarks.values())
+      .filter((saved) => saved.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async saveLandmark(landmark: InsertSavedLandmark): Promise<SavedLandmark> {
+    const lang = landmark.lang ?? "en";
+    const existing = Array.from(this.savedLandmarks.values()).find(
+      (saved) =>
+        saved.userId === landmark.userId &&
+        saved.pageid === landmark.pageid &&
+        saved.lang === lang,
+    );
+    const saved: SavedLandmark = {
+      id: existing?.id ?? randomUUID(),
+      createdAt: existing?.createdAt ?? new Date(),
+      ...landmark,
+      lang,
+      detail: (landmark.detail as LandmarkDetail | null | undefined) ?? null,
+    };
+    this.savedLandmarks.set(saved.id, saved);
+    return saved;
+  }
+
+  async deleteSavedLandmark(userId: string, pageid: number, lang: string): Promise<boolean> {
+    const saved = Array.from(this.savedLandmarks.values()).find(
+      (item) => item.userId === userId && item.pageid === pageid && item.lang === lang,
+    );
+    return saved ? this.savedLandmarks.delete(saved.id) : false;
+  }
+
+  async getLists(userId: string): Promise<LandmarkList[]> {
+    return Array.from(this.lists.values())
+      .filter((list) => list.userId === userId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async getList(id: string): Promise<LandmarkList | undefined> {
+    return this.lists.get(id);
+  }
+
+  async getListByShareToken(token: string): Promise<LandmarkList | undefined> {
+    return Array.from(this.lists.values()).find((list) => list.shareToken === token);
+  }
+
+  async createList(insertList: InsertLandmarkList): Promise<LandmarkList> {
+    const now = new Date();
+    const list: LandmarkList = {
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+      ...insertList,
+      description: insertList.description ?? null,
+      shareToken: insertList.shareToken ?? null,
+    };
+    this.lists.set(list.id, list);
+    return list;
+  }
+
+  async updateList(
+    id: string,
+    changes: Partial<InsertLandmarkList>,
+  ): Promise<LandmarkList | undefined> {
+    const list = this.lists.get(id);
+    if (!list) {
+      return undefined;
+    }
+    const updated: LandmarkList = { ...list, ...changes, updatedAt: new Date() };
+    this.lists.set(id, updated);
+    return updated;
+  }
+
+  async deleteList(id: string): Promise<boolean> {
+    for (const item of Array.from(this.listItems.values())) {
+      if (item.listId === id) {
+        this.listItems.delete(item.id);
+      }
+    }
+    return this.lists.delete(id);
+  }
+
+  async getListItems(listId: string): Promise<LandmarkListItem[]> {
+    return Array.from(this.listItems.values())
+      .filter((item) => item.listId === listId)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async addListItem(insertItem: InsertLandmarkListItem): Promise<LandmarkListItem> {
+    const items = await this.getListItems(insertItem.listId);
+    const lang = insertItem.lang ?? "en";
+    // Like the table's (list_id, pageid, lang) constraint
+    if (items.some((item) => item.pageid === insertItem.pageid && item.lang === lang)) {
+      throw uniqueViolation("landmark_list_items_list_id_pageid_lang_unique");
+    }
+    const item: LandmarkListItem = {
+      id: randomUUID(),
+      addedAt: new Date(),
+      ...insertItem,
+      lang,
+      position: items.length > 0 ? items[items.length - 1].position + 1 : 0,
+    };
+    this.listItems.set(item.id, item);
+    return item;
+  }
+
+  async removeListItem(listId: string, itemId: string): Promise<boolean> {
+    const item = this.listItems.get(itemId);
+    return item?.listId === listId ? this.listItems.delete(itemId) : false;
+  }
+
+  async reorderListItems(listId: string, itemIds: string[]): Promise<LandmarkListItem[]> {
+    const items = await this.getListItems(listId);
+    reorderedIds(items, itemIds).forEach((id, position) => {
+      this.listItems.set(id, { ...this.listItems.get(id)!, position });
+    });
+    return this.getListItems(listId);
+  }
+
+  async getCustomLandmarks(userId: string, bounds?: Bounds): Promise<CustomLandmark[]> {
+    return Array.from(this.customLandmarks.values())
+      .filter((landmark) =>
+        landmark.userId === userId &&
+        (!bounds ||
+          (landmark.lat >= bounds.south && landmark.lat <= bounds.north &&
+            landmark.lon >= bounds.west && landmark.lon <= bounds.east)))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getCustomLandmark(id: number): Promise<CustomLandmark | undefined> {
+    return this.customLandmarks.get(id);
+  }
+
+  async createCustomLandmark(insertLandmark: InsertCustomLandmark): Promise<CustomLandmark> {
+    const now = new Date();
+    const landmark: CustomLandmark = {
+      id: this.nextCustomLandmarkId++,
+      createdAt: now,
+      updatedAt: now,
+      ...insertLandmark,
+      description: insertLandmark.description ?? null,
+      category: insertLandmark.category ?? "other",
+    };
+    this.customLandmarks.set(landmark.id, landmark);
+    return landmark;
+  }
+
+  async updateCustomLandmark(
+    id: number,
+    changes: Partial<InsertCustomLandmark>,
+  ): Promise<CustomLandmark | undefined> {
+    const landmark = this.customLandmarks.get(id);
+    if (!landmark) {
+      return undefined;
+    }
+    const updated: CustomLandmark = { ...landmark, ...changes, updatedAt: new Date() };
+    this.customLandmarks.set(id, updated);
+    return updated;
+  }
+
+  async deleteCustomLandmark(id: number): Promise<boolean> {
+    return this.customLandmarks.delete(id);
+  }
+
+  async getVisits(userId: string): Promise<Visit[]> {
+    return Array.from(this.visits.values())
+      .filter((visit) => visit.userId === userId)
+      .sort((a, b) => b.visitedAt.getTime() - a.visitedAt.getTime());
+  }
+
+  async getVisit(id: string): Promise<Visit | undefined> {
+    return this.visits.get(id);
+  }
+
+  async createVisit(insertVisit: InsertVisit): Promise<Visit> {
+    const visit: Visit = {
+      id: randomUUID(),
+      ...insertVisit,
+      lang: insertVisit.lang ?? "en",
+      note: insertVisit.note ?? null,
+      verified: insertVisit.verified ?? false,
+      distance: insertVisit.distance ?? null,
+      visitedAt: insertVisit.visitedAt ?? new Date(),
+    };
+    this.visits.set(visit.id, visit);
+    return visit;
+  }
+
+  async deleteVisit(id: string): Promise<boolean> {
+    return this.visits.delete(id);
+  }
+
+  async getNotes(userId: string, search: NoteSearchRequest = {}): Promise<LandmarkNote[]> {
+    const terms = search.q ? searchTerms(search.q) : [];
+    const scored = Array.from(this.notes.values())
+      .filter((note) => note.userId === userId)
+      .filter((note) => !search.tag || note.tags.includes(search.tag))
+      .map((note) => {
+        const text = [note.title, note.body, ...note.tags].join(" ").toLowerCase();
+        const counts = terms.map((term) => text.split(term).length - 1);
+        return { note, score: counts.includes(0) ? 0 : counts.reduce((a, b) => a + b, 0) };
+      })
+      .filter(({ score }) => terms.length === 0 || score > 0);
+
+    return scored
+      .sort((a, b) => b.score - a.score || b.note.updatedAt.getTime() - a.note.updatedAt.getTime())
+      .map(({ note }) => note);
+  }
+
+  async getNote(userId: string, pageid: number, lang: string): Promise<LandmarkNote | undefined> {
+    return Array.from(this.notes.values()).find(
+      (note) => note.userId === userId && note.pageid === pageid && note.lang === lang,
+    );
+  }
+
+  async saveNote(insertNote: InsertLandmarkNote): Promise<LandmarkNote> {
+    const lang = insertNote.lang ?? "en";
+    const existing = await this.getNote(insertNote.userId, insertNote.pageid, lang);
+    const now = new Date();
+    const note: LandmarkNote = {
+      id: existing?.id ?? randomUUID(),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      ...insertNote,
+      lang,
+      body: insertNote.body ?? "",
+      tags: insertNote.tags ?? [],
+    };
+    this.notes.set(note.id, note);
+    return note;
+  }
+
+  async deleteNote(userId: string, pageid: number, lang: string): Promise<boolean> {
+    const note = await this.getNote(userId, pageid, lang);
+    return note ? this.notes.delete(note.id) : false;
+  }
+
+  async getOverlays(userId: string): Promise<Overlay[]> {
+    return Array.from(this.overlays.values())
+      .filter((overlay) => overlay.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getOverlay(id: string): Promise<Overlay | undefined> {
+    return this.overlays.get(id);
+  }
+
+  async createOverlay(insertOverlay: InsertOverlay): Promise<Overlay> {
+    const overlay: Overlay = {
+      id: randomUUID(),
+      ...insertOverlay,
+      createdAt: new Date(),
+    };
+    this.overlays.set(overlay.id, overlay);
+    return overlay;
+  }
+
+  async deleteOverlay(id: string): Promise<boolean> {
+    return this.overlays.delete(id);
+  }
+
+  async getCacheEntry<N extends CacheNamespace>(
+    namespace: N,
+    key: string,
+  ): Promise<CacheEntry<CacheValues[N]> | undefined> {
+    const cache = this.caches[namespace] as LruMap<string, CacheEntry<CacheValues[N]>>;
+    return cache.get(key);
+  }
+
+  async setCacheEntry<N extends CacheNamespace>(
+    namespace: N,
+    key: string,
+    value: CacheValues[N],
+  ): Promise<void> {
+    const cache = this.caches[namespace] as LruMap<string, CacheEntry<CacheValues[N]>>;
+    cache.set(key, { value, storedAt: Date.now() });
+  }
+
+  async getCacheSize(namespace: CacheNamespace): Promise<number> {
+    return this.caches[namespace].size;
+  }
+}
+
+// Cache writes between LRU pruning passes, per namespace
+const CACHE_PRUNE_INTERVAL = 100;
+
+// Postgres storage via Drizzle, used when DATABASE_URL is set.
+// Run `npm run db:push` to create the tables.
+export class DbStorage implements IStorage {
+  private writesSincePrune: Partial<Record<CacheNamespace, number>> = {};
+
+  constructor(
+    private db: Database,
+    private cacheLimits: Record<CacheNamespace, number> = CACHE_LIMITS,
+  ) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getSavedLandmarks(userId: string): Promise<SavedLandmark[]> {
+    return this.db
+      .select()
+      .from(savedLandmarks)
+      .where(eq(savedLandmarks.userId, userId))
+      .orderBy(desc(savedLandmarks.createdAt));
+  }
+
+  async saveLandmark(landmark: InsertSavedLandmark): Promise<SavedLandmark> {
+    const values = { ...landmark, detail: landmark.detail as LandmarkDetail | null | undefined };
+    const [saved] = await this.db
+      .insert(savedLandmarks)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [savedLandmarks.userId, savedLandmarks.pageid, savedLandmarks.lang],
+        set: { title: values.title, lat: values.lat, lon: values.lon, detail: values.detail },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteSavedLandmark(userId: string, pageid: number, lang: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(savedLandmarks)
+      .where(and(
+        eq(savedLandmarks.userId, userId),
+        eq(savedLandmarks.pageid, pageid),
+        eq(savedLandmarks.lang, lang),
+      ))
+      .returning({ id: savedLandmarks.id });
+    return deleted.length > 0;
+  }
+
+  async getLists(userId: string): Promise<LandmarkList[]> {
+    return this.db
+      .select()
+      .from(landmarkLists)
+      .where(eq(landmarkLists.userId, userId))
+      .orderBy(desc(landmarkLists.updatedAt));
+  }
+
+  async getList(id: string): Promise<LandmarkList | undefined> {
+    const [list] = await this.db.select().from(landmarkLists).where(eq(landmarkLists.id, id));
+    return list;
+  }
+
+  async getListByShareToken(token: string): Promise<LandmarkList | undefined> {
+    const [list] = await this.db
+      .select()
+      .from(landmarkLists)
+      .where(eq(landmarkLists.shareToken, token));
+    return list;
+  }
+
+  async createList(insertList: InsertLandmarkList): Promise<LandmarkList> {
+    const [list] = await this.db.insert(landmarkLists).values(insertList).returning();
+    return list;
+  }
+
+  async updateList(
+    id: string,
+    changes: Partial<InsertLandmarkList>,
+  ): Promise<LandmarkList | undefined> {
+    const [list] = await this.db
+      .update(landmarkLists)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(landmarkLists.id, id))
+      .returning();
+    return list;
+  }
+
+  async deleteList(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(landmarkLists)
+      .where(eq(landmarkLists.id, id))
+      .returning({ id: landmarkLists.id });
+    return deleted.length > 0;
+  }
+
+  async getListItems(listId: string): Promise<LandmarkListItem[]> {
+    return this.db
+      .select()
+      .from(landmarkListItems)
+      .where(eq(landmarkListItems.listId, listId))
+      .orderBy(asc(landmarkListItems.position));
+  }
+
+  async addListItem(insertItem: InsertLandmarkListItem): Promise<LandmarkListItem> {
+    const [{ next }] = await this.db
+      .select({ next: sql<number>`coalesce(max(${landmarkListItems.position}) + 1, 0)` })
+      .from(landmarkListItems)
+      .where(eq(landmarkListItems.listId, insertItem.listId));
+    const [item] = await this.db
+      .insert(landmarkListItems)
+      .values({ ...insertItem, position: Number(next) })
+      .returning();
+    return item;
+  }
+
+  async removeListItem(listId: string, itemId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(landmarkListItems)
+      .where(and(eq(landmarkListItems.listId, listId), eq(landmarkListItems.id, itemId)))
+      .returning({ id: landmarkListItems.id });
+    return deleted.length > 0;
+  }
+
+  async reorderListItems(listId: string, itemIds: string[]): Promise<LandmarkListItem[]> {
+    const items = await this.getListItems(listId);
+    const order = reorderedIds(items, itemIds);
+
+    await this.db.transaction(async (tx) => {
+      for (let position = 0; position < order.length; position++) {
+        await tx
+          .update(landmarkListItems)
+          .set({ position })
+          .where(and(
+            eq(landmarkListItems.listId, listId),
+            eq(landmarkListItems.id, order[position]),
+          ));
+      }
+    });
+
+    return this.getListItems(listId);
+  }
+
+  async getCustomLandmarks(userId: string, bounds?: Bounds): Promise<CustomLandmark[]> {
+    const conditions: SQL[] = [eq(customLandmarks.userId, userId)];
+    if (bounds) {
+      conditions.push(
+        between(customLandmarks.lat, bounds.south, bounds.north),
+        between(customLandmarks.lon, bounds.west, bounds.east),
+      );
+    }
+    return this.db
+      .select()
+      .from(customLandmarks)
+      .where(and(...conditions))
+      .orderBy(desc(customLandmarks.createdAt));
+  }
+
+  async getCustomLandmark(id: number): Promise<CustomLandmark | undefined> {
+    const [landmark] = await this.db
+      .select()
+      .from(customLandmarks)
+      .where(eq(customLandmarks.id, id));
+    return landmark;
+  }
+
+  async createCustomLandmark(insertLandmark: InsertCustomLandmark): Promise<CustomLandmark> {
+    const [landmark] = await this.db.insert(customLandmarks).values(insertLandmark).returning();
+    return landmark;
+  }
+
+  async updateCustomLandmark(
+    id: number,
+    changes: Partial<InsertCustomLandmark>,
+  ): Promise<CustomLandmark | undefined> {
+    const [landmark] = await this.db
+      .update(customLandmarks)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(customLandmarks.id, id))
+      .returning();
+    return landmark;
+  }
+
+  async deleteCustomLandmark(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(customLandmarks)
+      .where(eq(customLandmarks.id, id))
+      .returning({ id: customLandmarks.id });
+    return deleted.length > 0;
+  }
+
+  async getVisits(userId: string): Promise<Visit[]> {
+    return this.db
+      .select()
+      .from(visits)
+      .where(eq(visits.userId, userId))
+      .orderBy(desc(visits.visitedAt));
+  }
+
+  async getVisit(id: string): Promise<Visit | undefined> {
+    const [visit] = await this.db.select().from(visits).where(eq(visits.id, id));
+    return visit;
+  }
+
+  async createVisit(insertVisit: InsertVisit): Promise<Visit> {
+    const [visit] = await this.db.insert(visits).values(insertVisit).returning();
+    return visit;
+  }
+
+  async deleteVisit(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(visits)
+      .where(eq(visits.id, id))
+      .returning({ id: visits.id });
+    return deleted.length > 0;
+  }
+
+  async getNotes(userId: string, search: NoteSearchRequest = {}): Promise<LandmarkNote[]> {
+    const conditions: SQL[] = [eq(landmarkNotes.userId, userId)];
+    if (search.tag) {
+      conditions.push(arrayContains(landmarkNotes.tags, [search.tag]));
+    }
+    if (!search.q) {
+      return this.db
+        .select()
+        .from(landmarkNotes)
+        .where(and(...conditions))
+        .orderBy(desc(landmarkNotes.updatedAt));
+    }
+
+    // The "simple" configuration doesn't stem, so notes in any language match
+    const document = sql`to_tsvector('simple', ${landmarkNotes.title} || ' ' || ${landmarkNotes.body} || ' ' || array_to_string(${landmarkNotes.tags}, ' '))`;
+    const query = sql`plainto_tsquery('simple', ${search.q})`;
+    conditions.push(sql`${document} @@ ${query}`);
+    return this.db
+      .select()
+      .from(landmarkNotes)
+      .where(and(...conditions))
+      .orderBy(desc(sql`ts_rank(${document}, ${query})`), desc(landmarkNotes.updatedAt));
+  }
+
+  async getNote(userId: string, pageid: number, lang: string): Promise<LandmarkNote | undefined> {
+    const [note] = await this.db
+      .select()
+      .from(landmarkNotes)
+      .where(and(
+        eq(landmarkNotes.userId, userId),
+        eq(landmarkNotes.pageid, pageid),
+        eq(landmarkNotes.lang, lang),
+      ));
+    return note;
+  }
+
+  async saveNote(insertNote: InsertLandmarkNote): Promise<LandmarkNote> {
+    const [note] = await this.db
+      .insert(landmarkNotes)
+      .values(insertNote)
+      .onConflictDoUpdate({
+        target: [landmarkNotes.userId, landmarkNotes.pageid, landmarkNotes.lang],
+        set: {
+          title: insertNote.title,
+          lat: insertNote.lat,
+          lon: insertNote.lon,
+          body: insertNote.body,
+          tags: insertNote.tags,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return note;
+  }
+
+  async deleteNote(userId: string, pageid: number, lang: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(landmarkNotes)
+      .where(and(
+        eq(landmarkNotes.userId, userId),
+        eq(landmarkNotes.pageid, pageid),
+        eq(landmarkNotes.lang, lang),
+      ))
+      .returning({ id: landmarkNotes.id });
+    return deleted.length > 0;
+  }
+
+  async getOverlays(userId: string): Promise<Overlay[]> {
+    return this.db
+      .select()
+      .from(overlays)
+      .where(eq(overlays.userId, userId))
+      .orderBy(desc(overlays.createdAt));
+  }
+
+  async getOverlay(id: string): Promise<Overlay | undefined> {
+    const [overlay] = await this.db.select().from(overlays).where(eq(overlays.id, id));
+    return overlay;
+  }
+
+  async createOverlay(insertOverlay: InsertOverlay): Promise<Overlay> {
+    const [overlay] = await this.db.insert(overlays).values(insertOverlay).returning();
+    return overlay;
+  }
+
+  async deleteOverlay(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(overlays)
+      .where(eq(overlays.id, id))
+      .returning({ id: overlays.id });
+    return deleted.length > 0;
+  }
+
+  async getCacheEntry<N extends CacheNamespace>(
+    namespace: N,
+    key: string,
+  ): Promise<CacheEntry<CacheValues[N]> | undefined> {
+    const where = and(eq(landmarkCache.namespace, namespace), eq(landmarkCache.key, key));
+    const [row] = await this.db.select().from(landmarkCache).where(where);
+
+    if (!row) {
+      return undefined;
+    }
+
+    // Track recency for LRU pruning without holding up the read
+    this.db
+      .update(landmarkCache)
+      .set({ accessedAt: new Date() })
+      .where(where)
+      .catch((error) => console.error("Error touching cache entry:", error));
+
+    return { value: row.value as CacheValues[N], storedAt: row.storedAt.getTime() };
+  }
+
+  async setCacheEntry<N extends CacheNamespace>(
+    namespace: N,
+    key: string,
+    value: CacheValues[N],
+  ): Promise<void> {
+    const now = new Date();
+    await this.db
+      .insert(landmarkCache)
+      .values({ namespace, key, value, storedAt: now, accessedAt: now })
+      .onConflictDoUpdate({
+        target: [landmarkCache.namespace, landmarkCache.key],
+        set: { value, storedAt: now, accessedAt: now },
+      });
+
+    const writes = (this.writesSincePrune[namespace] ?? 0) + 1;
+    this.writesSincePrune[namespace] = writes;
+    if (writes >= CACHE_PRUNE_INTERVAL) {
+      this.writesSincePrune[namespace] = 0;
+      await this.pruneCache(namespace);
+    }
+  }
+
+  // Delete the least recently used entries beyond the namespace limit
+  private async pruneCache(namespace: CacheNamespace): Promise<void> {
+    const evicted = this.db
+      .select({ key: landmarkCache.key })
+      .from(landmarkCache)
+      .where(eq(landmarkCache.namespace, namespace))
+      .orderBy(desc(landmarkCache.accessedAt))
+      .offset(this.cacheLimits[namespace]);
+
+    await this.db
+      .delete(landmarkCache)
+      .where(and(eq(landmarkCache.namespace, namespace), inArray(landmarkCache.key, evicted)));
+  }
+
+  async getCacheSize(namespace: CacheNamespace): Promise<number> {
+    const [{ count }] = await this.db
+      .select({ count: sql<number>`count(*)` })
+      .from(landmarkCache)
+      .where(eq(landmarkCache.namespace, namespace));
+    return Number(count);
   }
 }
 
-export const storage = new MemStorage();
+// Postgres when DATABASE_URL is set, otherwise in-memory
+export const storage: IStorage = pool ? new DbStorage(createDb(pool)) : new MemStorage();
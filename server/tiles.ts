@@ -0,0 +1,426 @@
+import { readFileSync } from "fs";
+import { mkdir, readdir, readFile, rename, stat, unlink, writeFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { DEFAULT_TILE_SOURCE, type TileSource } from "@shared/schema";
+import type { TileCoordinates } from "@shared/tiles";
+import { createLimiter } from "./async";
+import { USER_AGENT } from "./http";
+
+// Map tiles proxied through the server and cached on disk, so browsers
+// never hit the upstream tile servers directly and repeat views of an
+// area cost nothing upstream.
+
+const tileLayerSourceSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]{1,50}$/, "Use lowercase letters, digits and dashes"),
+  name: z.string().min(1).max(50),
+  url: z
+    .string()
+    .regex(/^https?:\/\//, "Must be an http(s) URL")
+    .refine((url) => ["{z}", "{x}", "{y}"].every((part) => url.includes(part)), {
+      message: "Must contain {z}, {x} and {y}",
+    }),
+  attribution: z.string(),
+  maxZoom: z.number().int().min(0).max(22),
+  subdomains: z.string().min(1).optional(),
+  dark: z.boolean().optional(),
+  allowBulk: z.boolean().optional(),
+});
+
+// A base map the proxy serves as /tiles/<id>/{z}/{x}/{y}.png. `url` is an
+// upstream template with {z}, {x}, {y} and optionally {s}, which cycles
+// through `subdomains`. `dark` marks the base maps for the dark theme.
+// `allowBulk` marks upstreams whose terms allow bulk downloads; region
+// packs only include tiles from those. Of the built-in ones only `osm`
+// can, when TILE_UPSTREAM_BULK vouches for its TILE_UPSTREAM_URL.
+export type TileLayerSource = z.infer<typeof tileLayerSourceSchema>;
+
+// Entries in the TILE_SOURCES_PATH file. One with a built-in id changes
+// only the fields it gives, or drops the base map with `disabled: true`;
+// any other id adds a base map and needs every field.
+const tileSourcesConfigSchema = z.array(
+  tileLayerSourceSchema.partial().extend({
+    id: tileLayerSourceSchema.shape.id,
+    disabled: z.boolean().optional(),
+  }),
+);
+
+const OSM_ATTRIBUTION =
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+export function defaultTileLayers(env: NodeJS.ProcessEnv = process.env): TileLayerSource[] {
+  return [
+    {
+      id: DEFAULT_TILE_SOURCE,
+      name: "Standard",
+      url: env.TILE_UPSTREAM_URL || "https://tile.openstreetmap.org/{z}/{x}/{y}.png",
+      attribution: OSM_ATTRIBUTION,
+      maxZoom: 19,
+      // The OpenStreetMap servers forbid bulk downloads; a tile server of
+      // your own in TILE_UPSTREAM_URL can be marked as allowing them
+      allowBulk:
+        Boolean(env.TILE_UPSTREAM_URL) &&
+        (env.TILE_UPSTREAM_BULK === "true" || env.TILE_UPSTREAM_BULK === "1"),
+    },
+    {
+      id: "satellite",
+      name: "Satellite",
+      url: "https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}",
+      attribution:
+        "Tiles &copy; Esri &mdash; Source: Esri, Maxar, Earthstar Geographics, and the GIS User Community",
+      maxZoom: 19,
+    },
+    {
+      id: "topo",
+      name: "Topographic",
+      url: "https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png",
+      attribution: `${OSM_ATTRIBUTION}, SRTM | Style: &copy; <a href="https://opentopomap.org">OpenTopoMap</a> (CC-BY-SA)`,
+      maxZoom: 17,
+    },
+    {
+      id: "dark",
+      name: "Dark",
+      url: "https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}.png",
+      attribution: `${OSM_ATTRIBUTION} &copy; <a href="https://carto.com/attributions">CARTO</a>`,
+      maxZoom: 20,
+      subdomains: "abcd",
+      dark: true,
+    },
+    {
+      id: "high-contrast",
+      name: "High contrast",
+      // Stadia Maps wants an API key for requests from a server
+      url:
+        "https://tiles.stadiamaps.com/tiles/stamen_toner/{z}/{x}/{y}.png" +
+        (env.STADIA_API_KEY ? `?api_key=${encodeURIComponent(env.STADIA_API_KEY)}` : ""),
+      attribution: `&copy; <a href="https://stadiamaps.com/">Stadia Maps</a> &copy; <a href="https://stamen.com/">Stamen Design</a> ${OSM_ATTRIBUTION}`,
+      maxZoom: 20,
+    },
+  ];
+}
+
+// The built-in base maps, changed and added to by the JSON array in
+// TILE_SOURCES_PATH if set. A bad file stops the server from starting
+// rather than quietly serving the wrong maps.
+export function tileLayersFromEnv(env: NodeJS.ProcessEnv = process.env): TileLayerSource[] {
+  const layers = defaultTileLayers(env);
+  if (!env.TILE_SOURCES_PATH) {
+    return layers;
+  }
+
+  const file = path.resolve(env.TILE_SOURCES_PATH);
+  const entries = tileSourcesConfigSchema.parse(JSON.parse(readFileSync(file, "utf-8")));
+  for (const { disabled, ...entry } of entries) {
+    const index = layers.findIndex((layer) => layer.id === entry.id);
+    if (disabled) {
+      if (index >= 0) layers.splice(index, 1);
+      continue;
+    }
+    const result = tileLayerSourceSchema.safeParse(
+      index >= 0 ? { ...layers[index], ...entry } : entry,
+    );
+    if (!result.success) {
+      const problems = result.error.errors.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+      throw new Error(`Tile source "${entry.id}" in ${file} is invalid (${problems.join(", ")})`);
+    }
+    if (index >= 0) {
+      layers[index] = result.data;
+    } else {
+      layers.push(result.data);
+    }
+  }
+  if (layers.length === 0) {
+    throw new Error(`${file} leaves no tile sources`);
+  }
+  return layers;
+}
+
+export interface TileProxyOptions {
+  cacheDir: string;
+  // Cache size limit; the least recently used tiles are evicted past it
+  maxBytes: number;
+  // Tiles older than this are fetched again, served stale if that fails
+  maxAge: number;
+  // Serve only what is cached, never contacting the upstream
+  offline: boolean;
+}
+
+export interface Tile {
+  body: Buffer;
+  contentType: string;
+  fetchedAt: number;
+  // "stale" is an expired copy served because the upstream failed or the
+  // proxy is offline
+  status: "hit" | "miss" | "stale";
+}
+
+interface CacheEntry {
+  file: string;
+  size: number;
+  contentType: string;
+  fetchedAt: number;
+}
+
+// Upstream requests in flight at once, and how long to wait for one
+const UPSTREAM_CONCURRENCY = 4;
+const UPSTREAM_TIMEOUT = 10000;
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+};
+const CONTENT_TYPES: Record<string, string> = Object.fromEntries(
+  Object.entries(EXTENSIONS).map(([type, extension]) => [extension, type]),
+);
+
+//   TILE_CACHE_DIR (default .cache/tiles)
+//   TILE_CACHE_MAX_MB (default 500)
+//   TILE_CACHE_MAX_AGE_DAYS (default 7)
+//   TILE_OFFLINE=true to serve from the cache only
+export function tileProxyOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): TileProxyOptions {
+  return {
+    cacheDir: path.resolve(env.TILE_CACHE_DIR || ".cache/tiles"),
+    maxBytes: Number(env.TILE_CACHE_MAX_MB || 500) * 1024 * 1024,
+    maxAge: Number(env.TILE_CACHE_MAX_AGE_DAYS || 7) * 24 * 60 * 60 * 1000,
+    offline: env.TILE_OFFLINE === "true" || env.TILE_OFFLINE === "1",
+  };
+}
+
+export function isValidTile(layer: TileLayerSource, { z, x, y }: TileCoordinates): boolean {
+  const count = 2 ** z;
+  return (
+    Number.isInteger(z) &&
+    Number.isInteger(x) &&
+    Number.isInteger(y) &&
+    z >= 0 &&
+    z <= layer.maxZoom &&
+    x >= 0 &&
+    x < count &&
+    y >= 0 &&
+    y < count
+  );
+}
+
+function upstreamUrl(layer: TileLayerSource, { z, x, y }: TileCoordinates): string {
+  const subdomains = layer.subdomains ?? "abc";
+  return layer.url
+    .replace("{s}", subdomains[(x + y) % subdomains.length] ?? "")
+    .replace("{z}", String(z))
+    .replace("{x}", String(x))
+    .replace("{y}", String(y));
+}
+
+export class TileProxy {
+  // Keys in least recently used order, see LruMap
+  private entries = new Map<string, CacheEntry>();
+  private totalBytes = 0;
+  private loaded: Promise<void> | null = null;
+  private inFlight = new Map<string, Promise<Tile | undefined>>();
+  private limit = createLimiter(UPSTREAM_CONCURRENCY);
+
+  constructor(
+    private layers: TileLayerSource[] = tileLayersFromEnv(),
+    private options: TileProxyOptions = tileProxyOptionsFromEnv(),
+  ) {}
+
+  get offline(): boolean {
+    return this.options.offline;
+  }
+
+  getLayer(id: string): TileLayerSource | undefined {
+    return this.layers.find((layer) => layer.id === id);
+  }
+
+  // The base maps as the client sees them, pointing at this proxy
+  catalogue(): TileSource[] {
+    return this.layers.map(({ id, name, attribution, maxZoom, dark, allowBulk }) => ({
+      id,
+      name,
+      url: `/tiles/${id}/{z}/{x}/{y}.png`,
+      attribution,
+      maxZoom,
+      dark: dark ?? false,
+      allowBulk: allowBulk ?? false,
+    }));
+  }
+
+  // The cached tile, refreshed from the upstream when missing or expired.
+  // Undefined when there is no such tile upstream, or none cached while
+  // offline. Upstream failures throw unless a stale copy can be served.
+  async getTile(layerId: string, tile: TileCoordinates): Promise<Tile | undefined> {
+    const layer = this.getLayer(layerId);
+    if (!layer || !isValidTile(layer, tile)) {
+      return undefined;
+    }
+    await this.load();
+
+    const key = `${layer.id}/${tile.z}/${tile.x}/${tile.y}`;
+    const cached = await this.read(key);
+    const expired = !!cached && Date.now() - cached.fetchedAt > this.options.maxAge;
+    if (cached && !expired) {
+      return cached;
+    }
+    if (this.options.offline) {
+      return cached && { ...cached, status: "stale" };
+    }
+
+    // Concurrent requests for the same tile share one upstream fetch
+    let pending = this.inFlight.get(key);
+    if (!pending) {
+      pending = this.fetchUpstream(layer, tile, key).finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, pending);
+    }
+    try {
+      return await pending;
+    } catch (error) {
+      if (cached) {
+        return { ...cached, status: "stale" };
+      }
+      throw error;
+    }
+  }
+
+  private async fetchUpstream(
+    layer: TileLayerSource,
+    tile: TileCoordinates,
+    key: string,
+  ): Promise<Tile | undefined> {
+    const response = await this.limit(() =>
+      fetch(upstreamUrl(layer, tile), {
+        headers: { "User-Agent": USER_AGENT },
+        signal: AbortSignal.timeout(UPSTREAM_TIMEOUT),
+      }),
+    );
+    if (response.status === 404) {
+      return undefined;
+    }
+    if (!response.ok) {
+      throw new Error(`Tile server error: ${response.status} ${response.statusText}`);
+    }
+
+    const contentType = (response.headers.get("Content-Type") || "").split(";")[0].trim();
+    const extension = EXTENSIONS[contentType];
+    if (!extension) {
+      throw new Error(`Tile server returned ${contentType || "no content type"}`);
+    }
+    const body = Buffer.from(await response.arrayBuffer());
+    const fetchedAt = Date.now();
+    await this.write(key, extension, body, contentType, fetchedAt);
+    return { body, contentType, fetchedAt, status: "miss" };
+  }
+
+  private async read(key: string): Promise<Tile | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    try {
+      const body = await readFile(entry.file);
+      // Re-insert to mark it most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      return { body, contentType: entry.contentType, fetchedAt: entry.fetchedAt, status: "hit" };
+    } catch {
+      // Removed behind our back
+      this.forget(key);
+      return undefined;
+    }
+  }
+
+  private async write(
+    key: string,
+    extension: string,
+    body: Buffer,
+    contentType: string,
+    fetchedAt: number,
+  ): Promise<void> {
+    const file = path.join(this.options.cacheDir, `${key}.${extension}`);
+    try {
+      await mkdir(path.dirname(file), { recursive: true });
+      // Written aside and renamed so readers never see half a tile
+      const temporary = `${file}.${process.pid}.tmp`;
+      await writeFile(temporary, body);
+      await rename(temporary, file);
+    } catch (error) {
+      console.error("Error caching tile:", error);
+      return;
+    }
+
+    const previous = this.entries.get(key);
+    if (previous && previous.file !== file) {
+      unlink(previous.file).catch(() => undefined);
+    }
+    this.forget(key);
+    this.entries.set(key, { file, size: body.length, contentType, fetchedAt });
+    this.totalBytes += body.length;
+    this.evict();
+  }
+
+  private forget(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.totalBytes -= entry.size;
+    }
+  }
+
+  private evict(): void {
+    while (this.totalBytes > this.options.maxBytes && this.entries.size > 0) {
+      const [key, entry] = this.entries.entries().next().value as [string, CacheEntry];
+      this.forget(key);
+      unlink(entry.file).catch(() => undefined);
+    }
+  }
+
+  // Index the tiles already on disk, oldest first, on first use
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.scan().catch((error) => {
+        console.error("Error reading tile cache:", error);
+      });
+    }
+    return this.loaded;
+  }
+
+  private async scan(): Promise<void> {
+    const found: (CacheEntry & { key: string })[] = [];
+    const walk = async (directory: string, parts: string[]) => {
+      let names: string[];
+      try {
+        names = await readdir(directory);
+      } catch {
+        return;
+      }
+      for (const name of names) {
+        const file = path.join(directory, name);
+        if (parts.length < 3) {
+          await walk(file, [...parts, name]);
+          continue;
+        }
+        const match = /^(\d+)\.(\w+)$/.exec(name);
+        const contentType = match && CONTENT_TYPES[match[2]];
+        if (!match || !contentType) {
+          continue;
+        }
+        const stats = await stat(file);
+        found.push({
+          key: [...parts, match[1]].join("/"),
+          file,
+          size: stats.size,
+          contentType,
+          fetchedAt: stats.mtimeMs,
+        });
+      }
+    };
+    await walk(this.options.cacheDir, []);
+
+    found.sort((a, b) => a.fetchedAt - b.fetchedAt);
+    for (const { key, ...entry } of found) {
+      this.forget(key);
+      this.entries.set(key, entry);
+      this.totalBytes += entry.size;
+    }
+    this.evict();
+  }
+}
@@ -0,0 +1,245 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_SEARCH_RADIUS,
+  type Landmark,
+  type LandmarkSearchRequest,
+} from "@shared/schema";
+import { destinationPoint, haversineDistance } from "./geo";
+import type { LandmarkProvider } from "./providers";
+import {
+  fanOutSearch,
+  searchBounds,
+  searchRadius,
+  subdivideCircle,
+  tileBounds,
+  type SearchCircle,
+} from "./tiling";
+
+const CENTER = { lat: 51.5, lon: -0.12 };
+
+// Answers searches from a fixed set of landmarks, capped like the upstream
+function fakeProvider(landmarks: Landmark[], cap: number) {
+  const searches: LandmarkSearchRequest[] = [];
+  const provider: LandmarkProvider = {
+    name: "fake",
+    async search(params) {
+      searches.push(params);
+      const matches = landmarks.filter(
+        (landmark) =>
+          haversineDistance(params.lat, params.lon, landmark.lat, landmark.lon) <= params.radius,
+      );
+      return { landmarks: matches.slice(0, cap), complete: matches.length <= cap };
+    },
+    async getDetail() {
+      return undefined;
+    },
+    async getDetails() {
+      return [];
+    },
+    async lookup() {
+      return [];
+    },
+  };
+  return { provider, searches };
+}
+
+function at(distance: number, bearing: number) {
+  return destinationPoint(CENTER.lat, CENTER.lon, distance, bearing);
+}
+
+// Landmarks on rings around the centre, up to `radius` meters out
+function ringOfLandmarks(count: number, radius: number): Landmark[] {
+  return Array.from({ length: count }, (_, i) => ({
+    pageid: i + 1,
+    title: `Landmark ${i + 1}`,
+    ...at((radius * ((i % 4) + 1)) / 4, (i * 137) % 360),
+  }));
+}
+
+function covered(circles: SearchCircle[], lat: number, lon: number): boolean {
+  return circles.some(
+    (circle) => haversineDistance(circle.lat, circle.lon, lat, lon) <= circle.radius,
+  );
+}
+
+describe("tileBounds", () => {
+  it("covers a small box with one circle", () => {
+    const circles = tileBounds({ south: 51.49, west: -0.13, north: 51.51, east: -0.11 });
+
+    expect(circles).toHaveLength(1);
+    expect(covered(circles, 51.49, -0.13)).toBe(true);
+    expect(covered(circles, 51.51, -0.11)).toBe(true);
+  });
+
+  it("covers a large box with a grid of circles within the upstream radius", () => {
+    const bounds = { south: 51.3, west: -0.5, north: 51.7, east: 0.3 };
+    const circles = tileBounds(bounds);
+
+    expect(circles.length).toBeGreaterThan(1);
+    for (const circle of circles) {
+      expect(circle.radius).toBeLessThanOrEqual(MAX_SEARCH_RADIUS);
+    }
+    for (let lat = bounds.south; lat <= bounds.north; lat += 0.05) {
+      for (let lon = bounds.west; lon <= bounds.east; lon += 0.05) {
+        expect(covered(circles, lat, lon)).toBe(true);
+      }
+    }
+  });
+});
+
+describe("subdivideCircle", () => {
+  it("covers the circle with seven circles of about half its radius", () => {
+    const circle = { ...CENTER, radius: 2000 };
+    const children = subdivideCircle(circle);
+
+    expect(children).toHaveLength(7);
+    for (const child of children) {
+      expect(child.radius).toBeLessThan(circle.radius * 0.52);
+    }
+    for (let bearing = 0; bearing < 360; bearing += 15) {
+      for (const distance of [500, 1000, 1500, 2000]) {
+        const point = destinationPoint(circle.lat, circle.lon, distance, bearing);
+        expect(covered(children, point.lat, point.lon)).toBe(true);
+      }
+    }
+  });
+});
+
+describe("fanOutSearch", () => {
+  it("splits full circles until every landmark is found, once each", async () => {
+    const landmarks = ringOfLandmarks(40, 1900);
+    const { provider, searches } = fakeProvider(landmarks, 10);
+
+    const result = await fanOutSearch(provider, [{ ...CENTER, radius: 2000 }], "en");
+
+    expect(result.complete).toBe(true);
+    expect(searches.length).toBeGreaterThan(1);
+    expect(result.landmarks.map((landmark) => landmark.pageid).sort((a, b) => a - b)).toEqual(
+      landmarks.map((landmark) => landmark.pageid),
+    );
+  });
+
+  it("merges overlapping circles by language and pageid", async () => {
+    const landmarks: Landmark[] = [
+      { pageid: 1, title: "Tower", ...CENTER },
+      { pageid: 1, title: "Turm", lang: "de", ...CENTER },
+    ];
+    const { provider } = fakeProvider(landmarks, 10);
+
+    const result = await fanOutSearch(
+      provider,
+      [
+        { ...CENTER, radius: 100 },
+        { ...CENTER, radius: 200 },
+      ],
+      "en",
+    );
+
+    expect(result.landmarks.map((landmark) => landmark.title)).toEqual(["Tower", "Turm"]);
+  });
+
+  it("is incomplete when circles are still full at the smallest size", async () => {
+    // All at one point, so no split ever gets below the cap
+    const landmarks = Array.from({ length: 5 }, (_, i) => ({
+      pageid: i + 1,
+      title: `Landmark ${i + 1}`,
+      ...CENTER,
+    }));
+    const { provider } = fakeProvider(landmarks, 2);
+
+    const result = await fanOutSearch(provider, [{ ...CENTER, radius: 150 }], "en");
+
+    expect(result.complete).toBe(false);
+    expect(result.landmarks).toHaveLength(2);
+  });
+
+  it("repeats the whole search in English when no circle finds anything", async () => {
+    const { provider, searches } = fakeProvider([{ pageid: 1, title: "Tower", ...CENTER }], 10);
+    const englishOnly: LandmarkProvider = {
+      ...provider,
+      async search(params) {
+        const result = await provider.search(params);
+        return params.lang === "en" ? result : { landmarks: [], complete: true };
+      },
+    };
+    const circles = [CENTER, at(3000, 90)].map((point) => ({ ...point, radius: 1000 }));
+
+    const result = await fanOutSearch(englishOnly, circles, "de");
+
+    expect(result.landmarks.map((landmark) => landmark.title)).toEqual(["Tower"]);
+    expect(searches.map((search) => search.lang)).toEqual(["de", "de", "en", "en"]);
+  });
+
+  it("keeps the chosen edition when any circle finds something", async () => {
+    const { provider, searches } = fakeProvider([{ pageid: 1, title: "Turm", ...CENTER }], 10);
+    const circles = [CENTER, at(3000, 90)].map((point) => ({ ...point, radius: 1000 }));
+
+    const result = await fanOutSearch(provider, circles, "de");
+
+    expect(result.landmarks.map((landmark) => landmark.title)).toEqual(["Turm"]);
+    expect(searches.map((search) => search.lang)).toEqual(["de", "de"]);
+  });
+});
+
+describe("searchRadius", () => {
+  it("returns landmarks in the radius and category, nearest first", async () => {
+    const landmarks: Landmark[] = [
+      { pageid: 1, title: "Far museum", category: "museum", ...at(800, 0) },
+      { pageid: 2, title: "Near museum", category: "museum", ...at(200, 90) },
+      { pageid: 3, title: "Park", category: "park", ...at(100, 180) },
+      { pageid: 4, title: "Unclassified", ...at(300, 270) },
+    ];
+    const { provider } = fakeProvider(landmarks, 10);
+
+    const result = await searchRadius(provider, {
+      ...CENTER,
+      radius: 1000,
+      lang: "en",
+      categories: ["museum", "other"],
+    });
+
+    expect(result.landmarks.map((landmark) => landmark.title)).toEqual([
+      "Near museum",
+      "Unclassified",
+      "Far museum",
+    ]);
+    expect(result.landmarks[0].dist).toBeCloseTo(200, 0);
+  });
+});
+
+describe("searchBounds", () => {
+  it("keeps only landmarks inside the box, measured from its centre", async () => {
+    const landmarks: Landmark[] = [
+      { pageid: 1, title: "Inside", lat: 51.505, lon: -0.12 },
+      { pageid: 2, title: "Outside", lat: 51.52, lon: -0.12 },
+    ];
+    const { provider } = fakeProvider(landmarks, 10);
+
+    const result = await searchBounds(provider, {
+      south: 51.49,
+      west: -0.13,
+      north: 51.51,
+      east: -0.11,
+      lang: "en",
+    });
+
+    expect(result.complete).toBe(true);
+    expect(result.landmarks.map((landmark) => landmark.title)).toEqual(["Inside"]);
+    expect(result.landmarks[0].dist).toBeCloseTo(556, -1);
+  });
+
+  it("reports boxes too large for the tile grid as incomplete", async () => {
+    const { provider, searches } = fakeProvider([], 10);
+
+    const result = await searchBounds(provider, {
+      south: 40,
+      west: -10,
+      north: 60,
+      east: 20,
+      lang: "en",
+    });
+
+    expect(result.complete).toBe(false);
+    expect(searches.length).toBeLessThanOrEqual(36);
+  });
+});
@@ -0,0 +1,287 @@
+import {
+  DEFAULT_LANGUAGE,
+  MAX_SEARCH_RADIUS,
+  type Landmark,
+  type LandmarkBoundsRequest,
+  type LandmarkCategory,
+  type LandmarkSearchRequest,
+  type LandmarkSearchResult,
+} from "@shared/schema";
+import { createLimiter, type Limiter } from "./async";
+import { destinationPoint, haversineDistance } from "./geo";
+import type { LandmarkProvider } from "./providers";
+
+// Side of a square tile whose circumscribed circle fits the upstream radius
+const TILE_SIZE = Math.floor(MAX_SEARCH_RADIUS * Math.SQRT2);
+// Tiles per axis; larger areas are narrowed to the centre of the box
+const MAX_TILES_PER_AXIS = 6;
+const MIN_RADIUS = 10;
+
+// A circle whose search comes back full is split into smaller circles,
+// at most this many times
+const MAX_SUBDIVISION_DEPTH = 3;
+// Circles smaller than this are not split further
+const MIN_SUBDIVISION_RADIUS = 100;
+// Upper bound on upstream searches for one request, and how many run at once
+const MAX_UPSTREAM_SEARCHES = 100;
+const SEARCH_CONCURRENCY = 4;
+
+export interface Bounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface SearchCircle {
+  lat: number;
+  lon: number;
+  radius: number;
+}
+
+export function boundsCenter(bounds: Bounds): { lat: number; lon: number } {
+  return {
+    lat: (bounds.south + bounds.north) / 2,
+    lon: (bounds.west + bounds.east) / 2,
+  };
+}
+
+export function containsPoint(bounds: Bounds, lat: number, lon: number): boolean {
+  return (
+    lat >= bounds.south &&
+    lat <= bounds.north &&
+    lon >= bounds.west &&
+    lon <= bounds.east
+  );
+}
+
+// Height and (widest) width of bounds in meters
+function boundsSize(bounds: Bounds): { width: number; height: number } {
+  const center = boundsCenter(bounds);
+  return {
+    height: haversineDistance(bounds.south, center.lon, bounds.north, center.lon),
+    width: Math.max(
+      haversineDistance(bounds.south, bounds.west, bounds.south, bounds.east),
+      haversineDistance(bounds.north, bounds.west, bounds.north, bounds.east),
+    ),
+  };
+}
+
+// Shrink bounds around their centre so they need at most
+// MAX_TILES_PER_AXIS tiles in each direction
+export function clampBounds<B extends Bounds>(bounds: B): B {
+  const center = boundsCenter(bounds);
+  const { width, height } = boundsSize(bounds);
+  const maxSpan = TILE_SIZE * MAX_TILES_PER_AXIS;
+
+  const clamped = { ...bounds };
+
+  if (height > maxSpan) {
+    const latHalf = ((bounds.north - bounds.south) / 2) * (maxSpan / height);
+    clamped.south = center.lat - latHalf;
+    clamped.north = center.lat + latHalf;
+  }
+  if (width > maxSpan) {
+    const lonHalf = ((bounds.east - bounds.west) / 2) * (maxSpan / width);
+    clamped.west = center.lon - lonHalf;
+    clamped.east = center.lon + lonHalf;
+  }
+
+  return clamped;
+}
+
+// Cover bounds with a grid of circles, each no larger than the upstream radius
+export function tileBounds(bounds: Bounds): SearchCircle[] {
+  const { width, height } = boundsSize(bounds);
+  const rows = Math.min(MAX_TILES_PER_AXIS, Math.max(1, Math.ceil(height / TILE_SIZE)));
+  const cols = Math.min(MAX_TILES_PER_AXIS, Math.max(1, Math.ceil(width / TILE_SIZE)));
+  const latStep = (bounds.north - bounds.south) / rows;
+  const lonStep = (bounds.east - bounds.west) / cols;
+
+  const circles: SearchCircle[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const south = bounds.south + row * latStep;
+      const west = bounds.west + col * lonStep;
+      const lat = south + latStep / 2;
+      const lon = west + lonStep / 2;
+      // The corner nearest the equator is the farthest from the centre
+      const cornerLat = Math.abs(south) < Math.abs(south + latStep) ? south : south + latStep;
+      const radius = haversineDistance(lat, lon, cornerLat, west);
+
+      circles.push({
+        lat,
+        lon,
+        radius: Math.min(MAX_SEARCH_RADIUS, Math.max(MIN_RADIUS, Math.ceil(radius))),
+      });
+    }
+  }
+
+  return circles;
+}
+
+// Cover a circle with seven circles of half its radius: one in the centre and
+// six around it, which is the optimal covering of a disk by seven disks.
+// Radii are padded slightly to absorb rounding at the seams.
+export function subdivideCircle(circle: SearchCircle): SearchCircle[] {
+  const radius = Math.max(MIN_RADIUS, Math.ceil((circle.radius / 2) * 1.02));
+  const offset = (circle.radius * Math.sqrt(3)) / 2;
+
+  const ring = [0, 60, 120, 180, 240, 300].map((bearing) => ({
+    ...destinationPoint(circle.lat, circle.lon, offset, bearing),
+    radius,
+  }));
+
+  return [{ lat: circle.lat, lon: circle.lon, radius }, ...ring];
+}
+
+interface FanOutState {
+  lang: string;
+  limit: Limiter;
+  remaining: number;
+  complete: boolean;
+  // By "<lang>:<pageid>": pageids are only unique within one language
+  // edition, and providers may tag landmarks with another
+  landmarks: Map<string, Landmark>;
+}
+
+async function searchCircle(
+  provider: LandmarkProvider,
+  circle: SearchCircle,
+  depth: number,
+  state: FanOutState,
+): Promise<void> {
+  if (state.remaining <= 0) {
+    state.complete = false;
+    return;
+  }
+  state.remaining--;
+
+  const result = await state.limit(() =>
+    provider.search({ ...circle, lang: state.lang }),
+  );
+
+  for (const landmark of result.landmarks) {
+    const key = `${landmark.lang ?? state.lang}:${landmark.pageid}`;
+    if (!state.landmarks.has(key)) {
+      state.landmarks.set(key, landmark);
+    }
+  }
+
+  if (result.complete) {
+    return;
+  }
+
+  if (depth >= MAX_SUBDIVISION_DEPTH || circle.radius < MIN_SUBDIVISION_RADIUS) {
+    state.complete = false;
+    return;
+  }
+
+  await Promise.all(
+    subdivideCircle(circle).map((child) =>
+      searchCircle(provider, child, depth + 1, state),
+    ),
+  );
+}
+
+async function searchCircles(
+  provider: LandmarkProvider,
+  circles: SearchCircle[],
+  lang: string,
+): Promise<{ landmarks: Landmark[]; complete: boolean }> {
+  const state: FanOutState = {
+    lang,
+    limit: createLimiter(SEARCH_CONCURRENCY),
+    remaining: MAX_UPSTREAM_SEARCHES,
+    complete: true,
+    landmarks: new Map(),
+  };
+
+  await Promise.all(circles.map((circle) => searchCircle(provider, circle, 0, state)));
+
+  return {
+    landmarks: Array.from(state.landmarks.values()),
+    complete: state.complete,
+  };
+}
+
+// Search every circle, recursively splitting any that come back full, and
+// merge the results by language and pageid. The result is complete only if no split hit
+// the depth or request budget.
+//
+// Smaller language editions often have no geotagged articles in an area, so
+// when no circle finds anything the whole search is repeated in English.
+// Deciding this once for the request, rather than per circle, keeps one
+// edition on the map and the same place from showing up twice.
+export async function fanOutSearch(
+  provider: LandmarkProvider,
+  circles: SearchCircle[],
+  lang: string,
+): Promise<{ landmarks: Landmark[]; complete: boolean }> {
+  const result = await searchCircles(provider, circles, lang);
+
+  if (result.landmarks.length === 0 && lang !== DEFAULT_LANGUAGE) {
+    return searchCircles(provider, circles, DEFAULT_LANGUAGE);
+  }
+
+  return result;
+}
+
+// Landmarks the upstream couldn't classify count as "other"
+function inCategories(categories: LandmarkCategory[] | undefined) {
+  return (landmark: Landmark) =>
+    !categories?.length || categories.includes(landmark.category ?? "other");
+}
+
+// Radius search that isn't limited to a single page of upstream results
+export async function searchRadius(
+  provider: LandmarkProvider,
+  params: LandmarkSearchRequest,
+): Promise<LandmarkSearchResult> {
+  const { landmarks, complete } = await fanOutSearch(provider, [params], params.lang);
+
+  return {
+    landmarks: landmarks
+      .map((landmark) => ({
+        ...landmark,
+        dist: haversineDistance(params.lat, params.lon, landmark.lat, landmark.lon),
+      }))
+      .filter((landmark) => landmark.dist <= params.radius)
+      .filter(inCategories(params.categories))
+      .sort((a, b) => a.dist - b.dist),
+    complete,
+  };
+}
+
+// Search a bounding box by tiling it into circles and fanning out over them.
+// Distances are measured from the centre of the box. Boxes too large for the
+// tile grid are narrowed to their centre and reported as incomplete.
+export async function searchBounds(
+  provider: LandmarkProvider,
+  params: LandmarkBoundsRequest,
+): Promise<LandmarkSearchResult> {
+  const bounds = clampBounds(params);
+  const center = boundsCenter(params);
+  const { landmarks, complete } = await fanOutSearch(
+    provider,
+    tileBounds(bounds),
+    params.lang,
+  );
+  const clamped =
+    bounds.south > params.south ||
+    bounds.west > params.west ||
+    bounds.north < params.north ||
+    bounds.east < params.east;
+
+  return {
+    landmarks: landmarks
+      .filter((landmark) => containsPoint(bounds, landmark.lat, landmark.lon))
+      .filter(inCategories(params.categories))
+      .map((landmark) => ({
+        ...landmark,
+        dist: haversineDistance(center.lat, center.lon, landmark.lat, landmark.lon),
+      }))
+      .sort((a, b) => a.dist - b.dist),
+    complete: complete && !clamped,
+  };
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import type { TourPlanLandmark, TourPlanRequest } from "@shared/schema";
+import {
+  distanceMatrix,
+  orderRoute,
+  planTour,
+  routeLength,
+  twoOpt,
+  type DistanceMatrix,
+} from "./tours";
+
+// Points along the equator, where 0.001° of longitude is about 111 m
+function east(lon: number) {
+  return { lat: 0, lon: lon / 1000 };
+}
+
+function landmark(title: string, lon: number, priority: number): TourPlanLandmark {
+  return { pageid: title.charCodeAt(0), title, ...east(lon), priority };
+}
+
+// Planned at 1 m/s so durations read as distances
+function plan(request: Partial<TourPlanRequest> & Pick<TourPlanRequest, "landmarks">) {
+  return planTour({ start: east(0), budgetMinutes: 60, dwellMinutes: 0, ...request }, 1);
+}
+
+// Nodes on a line: node i sits at position i
+function lineMatrix(count: number): DistanceMatrix {
+  return Array.from({ length: count }, (_, a) =>
+    Array.from({ length: count }, (_, b) => Math.abs(a - b)),
+  );
+}
+
+describe("twoOpt", () => {
+  it("uncrosses a route, keeping fixed ends in place", () => {
+    const matrix = lineMatrix(5);
+    const route = twoOpt([0, 3, 1, 2, 4], matrix, { fixedStart: true, fixedEnd: true });
+
+    expect(route).toEqual([0, 1, 2, 3, 4]);
+    expect(routeLength(route, matrix)).toBe(4);
+  });
+
+  it("may move the ends when they aren't fixed", () => {
+    const matrix = lineMatrix(4);
+    const route = twoOpt([1, 0, 2, 3], matrix);
+
+    expect(routeLength(route, matrix)).toBe(3);
+  });
+
+  it("keeps the first node of a closed route", () => {
+    const matrix = distanceMatrix([east(0), east(2), east(1), east(3)]);
+    const route = twoOpt([0, 1, 2, 3], matrix, { closed: true });
+
+    expect(route[0]).toBe(0);
+    expect(routeLength(route, matrix, true)).toBeCloseTo(routeLength([0, 2, 1, 3], matrix, true));
+    expect(routeLength(route, matrix, true)).toBeLessThan(routeLength([0, 1, 2, 3], matrix, true));
+  });
+});
+
+describe("orderRoute", () => {
+  it("starts at node 0 when there is a start", () => {
+    const matrix = lineMatrix(4);
+    expect(orderRoute(matrix, { hasStart: true, roundTrip: false })).toEqual([0, 1, 2, 3]);
+  });
+
+  it("tries every first stop without a start", () => {
+    const matrix = distanceMatrix([east(2), east(0), east(3), east(1)]);
+    const route = orderRoute(matrix, { hasStart: false, roundTrip: false });
+
+    expect(routeLength(route, matrix)).toBeCloseTo(routeLength([1, 3, 0, 2], matrix));
+  });
+});
+
+describe("planTour", () => {
+  it("visits everything that fits, in walking order", () => {
+    const result = plan({
+      end: east(4),
+      landmarks: [landmark("C", 3, 1), landmark("A", 1, 1), landmark("B", 2, 1)],
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.plan.stops.map((stop) => stop.title)).toEqual(["A", "B", "C"]);
+    expect(result.plan.skipped).toEqual([]);
+    expect(result.plan.score).toBe(3);
+    expect(result.plan.distance).toBeCloseTo(445, -1);
+    expect(result.plan.stops[1].arrival).toBeCloseTo(222, -1);
+  });
+
+  it("picks stops worth the most priority per second and skips the rest", () => {
+    const result = plan({
+      budgetMinutes: 35,
+      landmarks: [landmark("A", 1, 1), landmark("B", 9, 10), landmark("C", -2, 2)],
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.plan.stops.map((stop) => stop.title).sort()).toEqual(["A", "B"]);
+    expect(result.plan.skipped.map((skipped) => skipped.title)).toEqual(["C"]);
+    expect(result.plan.score).toBe(11);
+    expect(result.plan.duration).toBeLessThanOrEqual(result.plan.budget);
+  });
+
+  it("swaps a cheap stop for a more valuable one that fits instead", () => {
+    const result = plan({
+      budgetMinutes: 1000 / 60,
+      landmarks: [landmark("Near", 1, 1), landmark("Far", -4, 3)],
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.plan.stops.map((stop) => stop.title)).toEqual(["Far"]);
+    expect(result.plan.skipped.map((skipped) => skipped.title)).toEqual(["Near"]);
+  });
+
+  it("counts time spent at the stops", () => {
+    const result = plan({
+      budgetMinutes: 32,
+      dwellMinutes: 10,
+      landmarks: [
+        landmark("A", 1, 1),
+        landmark("B", 2, 1),
+        { ...landmark("C", 3, 5), dwellMinutes: 20 },
+      ],
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.plan.stops.map((stop) => [stop.title, stop.dwellDuration])).toEqual([
+      ["C", 1200],
+    ]);
+    expect(result.plan.duration).toBe(result.plan.walkingDuration + 1200);
+  });
+
+  it("plans each landmark once", () => {
+    const result = plan({ landmarks: [landmark("A", 1, 1), landmark("A", 1, 1)] });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.plan.stops).toHaveLength(1);
+  });
+
+  it("fails when walking straight to the end takes longer than the budget", () => {
+    const result = plan({
+      end: east(10),
+      budgetMinutes: 10,
+      landmarks: [landmark("A", 1, 1)],
+    });
+
+    expect(result).toEqual({ ok: false, duration: 1112, budget: 600 });
+  });
+});
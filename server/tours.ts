@@ -0,0 +1,365 @@
+import type {
+  Coordinates,
+  Landmark,
+  PlannedStop,
+  TourPlan,
+  TourPlanRequest,
+  TourStop,
+  WalkingTour,
+  WalkingTourRequest,
+} from "@shared/schema";
+import { haversineDistance } from "./geo";
+
+// Tour ordering: a nearest-neighbour route improved with 2-opt over
+// straight-line distances. Good enough for the few dozen stops of a walk
+// and fast enough to run per request.
+
+// Average walking pace in meters per second (about 4.5 km/h)
+export const WALKING_SPEED = parseFloat(process.env.TOUR_WALKING_SPEED || "1.25");
+
+// Upper bound on 2-opt passes over the route
+const MAX_TWO_OPT_PASSES = 50;
+// Upper bound on rounds of swapping planned stops for better ones
+const MAX_SWAP_ROUNDS = 20;
+
+export type DistanceMatrix = number[][];
+
+export function distanceMatrix(points: Coordinates[]): DistanceMatrix {
+  return points.map((a) =>
+    points.map((b) => haversineDistance(a.lat, a.lon, b.lat, b.lon)),
+  );
+}
+
+// Length of a route through the matrix, optionally back to its first node
+export function routeLength(route: number[], matrix: DistanceMatrix, closed = false): number {
+  let length = 0;
+  for (let i = 1; i < route.length; i++) {
+    length += matrix[route[i - 1]][route[i]];
+  }
+  if (closed && route.length > 1) {
+    length += matrix[route[route.length - 1]][route[0]];
+  }
+  return length;
+}
+
+// Greedy route from `first` through every node in `nodes`
+export function nearestNeighbourRoute(
+  first: number,
+  nodes: number[],
+  matrix: DistanceMatrix,
+): number[] {
+  const route = [first];
+  const remaining = nodes.filter((node) => node !== first);
+
+  while (remaining.length > 0) {
+    const current = route[route.length - 1];
+    let best = 0;
+    for (let i = 1; i < remaining.length; i++) {
+      if (matrix[current][remaining[i]] < matrix[current][remaining[best]]) {
+        best = i;
+      }
+    }
+    route.push(remaining.splice(best, 1)[0]);
+  }
+
+  return route;
+}
+
+export interface TwoOptOptions {
+  fixedStart?: boolean;
+  fixedEnd?: boolean;
+  closed?: boolean;
+}
+
+// Reverse route segments while that shortens the route. The first node
+// stays put when `fixedStart` is set, and the last with `fixedEnd`; closed
+// routes always keep the first, since rotating a cycle doesn't change its
+// length.
+export function twoOpt(
+  route: number[],
+  matrix: DistanceMatrix,
+  { fixedStart = false, fixedEnd = false, closed = false }: TwoOptOptions = {},
+): number[] {
+  const result = route.slice();
+  const n = result.length;
+  const first = fixedStart || closed ? 1 : 0;
+  const last = fixedEnd && !closed ? n - 2 : n - 1;
+  const edge = (a: number | undefined, b: number | undefined) =>
+    a === undefined || b === undefined ? 0 : matrix[a][b];
+
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false;
+
+    for (let i = first; i < last; i++) {
+      for (let j = i + 1; j <= last; j++) {
+        const before = i > 0 ? result[i - 1] : closed ? result[n - 1] : undefined;
+        const after = j < n - 1 ? result[j + 1] : closed ? result[0] : undefined;
+        const delta =
+          edge(before, result[j]) +
+          edge(result[i], after) -
+          edge(before, result[i]) -
+          edge(result[j], after);
+
+        if (delta < -1e-6) {
+          const reversed = result.slice(i, j + 1).reverse();
+          result.splice(i, reversed.length, ...reversed);
+          improved = true;
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  return result;
+}
+
+// Visiting order over `points`. With a start, node 0 is the start and the
+// route begins there; without one, every point is tried as the first stop.
+export function orderRoute(
+  matrix: DistanceMatrix,
+  { hasStart, roundTrip }: { hasStart: boolean; roundTrip: boolean },
+): number[] {
+  const nodes = matrix.map((_, index) => index);
+  if (nodes.length <= 2) {
+    return nodes;
+  }
+
+  const options = { fixedStart: hasStart, closed: roundTrip };
+  const firsts = hasStart || roundTrip ? [0] : nodes;
+  let best: number[] = nodes;
+  let bestLength = Infinity;
+
+  for (const first of firsts) {
+    const route = twoOpt(nearestNeighbourRoute(first, nodes, matrix), matrix, options);
+    const length = routeLength(route, matrix, roundTrip);
+    if (length < bestLength) {
+      best = route;
+      bestLength = length;
+    }
+  }
+
+  return best;
+}
+
+function landmarkIdentity(landmark: Landmark): string {
+  return `${landmark.source ?? "wikipedia"}:${landmark.lang ?? ""}:${landmark.pageid}`;
+}
+
+export function walkingDuration(distance: number, speed = WALKING_SPEED): number {
+  return Math.round(distance / speed);
+}
+
+function uniqueLandmarks<T extends Landmark>(landmarks: T[]): T[] {
+  const seen = new Set<string>();
+  return landmarks.filter((landmark) => {
+    const key = landmarkIdentity(landmark);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export function buildWalkingTour(
+  { landmarks, start, roundTrip }: WalkingTourRequest,
+  speed = WALKING_SPEED,
+): WalkingTour {
+  const unique = uniqueLandmarks(landmarks);
+
+  const points: Coordinates[] = start ? [start, ...unique] : unique;
+  const matrix = distanceMatrix(points);
+  const route = orderRoute(matrix, { hasStart: !!start, roundTrip });
+
+  const offset = start ? 1 : 0;
+  const stops: TourStop[] = [];
+  let distance = 0;
+  for (let i = offset; i < route.length; i++) {
+    const legDistance = i > 0 ? matrix[route[i - 1]][route[i]] : 0;
+    distance += legDistance;
+    stops.push({
+      ...unique[route[i] - offset],
+      legDistance: Math.round(legDistance),
+      legDuration: walkingDuration(legDistance, speed),
+    });
+  }
+
+  let returnLeg: WalkingTour["returnLeg"] = null;
+  if (roundTrip && route.length > 1) {
+    const returnDistance = matrix[route[route.length - 1]][route[0]];
+    distance += returnDistance;
+    returnLeg = {
+      distance: Math.round(returnDistance),
+      duration: walkingDuration(returnDistance, speed),
+    };
+  }
+
+  return {
+    start: start ?? null,
+    stops,
+    returnLeg,
+    distance: Math.round(distance),
+    duration: walkingDuration(distance, speed),
+    walkingSpeed: speed,
+  };
+}
+
+// A failed plan carries the direct walk's duration, for the error
+export type TourPlanResult =
+  | { ok: true; plan: TourPlan }
+  | { ok: false; duration: number; budget: number };
+
+// Itinerary planning is an orienteering problem: pick the landmarks worth
+// the most priority whose walking and visiting time fits the budget.
+// Stops are inserted greedily by priority per added second, the route is
+// tightened with 2-opt after each insertion, and once nothing more fits,
+// low-priority stops are swapped for higher-priority ones where the budget
+// allows. The route runs from node 0 (start) to node 1 (end); landmarks are
+// nodes 2 and up. Planning fails when even walking straight from the start
+// to the end takes longer than the budget.
+export function planTour(request: TourPlanRequest, speed = WALKING_SPEED): TourPlanResult {
+  const candidates = uniqueLandmarks(request.landmarks);
+  const end = request.end ?? request.start;
+  const matrix = distanceMatrix([request.start, end, ...candidates]);
+  const budget = request.budgetMinutes * 60;
+
+  const travel = (a: number, b: number) => matrix[a][b] / speed;
+  const landmarkAt = (node: number) => candidates[node - 2];
+  const dwell = (node: number) =>
+    (landmarkAt(node).dwellMinutes ?? request.dwellMinutes) * 60;
+
+  const cost = (route: number[]) => {
+    let total = 0;
+    for (let i = 1; i < route.length; i++) {
+      total += travel(route[i - 1], route[i]);
+      if (i < route.length - 1) {
+        total += dwell(route[i]);
+      }
+    }
+    return total;
+  };
+
+  // Cheapest place to insert `node` and the time that adds
+  const cheapestInsertion = (route: number[], node: number) => {
+    let position = 1;
+    let added = Infinity;
+    for (let i = 1; i < route.length; i++) {
+      const detour =
+        travel(route[i - 1], node) + travel(node, route[i]) - travel(route[i - 1], route[i]);
+      if (detour < added) {
+        position = i;
+        added = detour;
+      }
+    }
+    return { position, added: added + dwell(node) };
+  };
+
+  const tighten = (route: number[]) =>
+    twoOpt(route, matrix, { fixedStart: true, fixedEnd: true });
+
+  const fill = (initial: number[]) => {
+    let route = initial;
+    for (;;) {
+      const used = cost(route);
+      let best: { node: number; position: number; added: number; ratio: number } | null = null;
+
+      for (let node = 2; node < matrix.length; node++) {
+        if (route.includes(node)) continue;
+        const { position, added } = cheapestInsertion(route, node);
+        if (used + added > budget) continue;
+
+        const ratio = landmarkAt(node).priority / Math.max(added, 1);
+        if (!best || ratio > best.ratio || (ratio === best.ratio && added < best.added)) {
+          best = { node, position, added, ratio };
+        }
+      }
+
+      if (!best) return route;
+      route = route.slice();
+      route.splice(best.position, 0, best.node);
+      route = tighten(route);
+    }
+  };
+
+  // Compared unrounded, as every insertion is, so a plan that fits is
+  // never turned down over rounding
+  const direct = cost([0, 1]);
+  if (direct > budget) {
+    return { ok: false, duration: Math.ceil(direct), budget };
+  }
+
+  let route = fill([0, 1]);
+
+  // Each swap raises the total priority, so this ends well before the cap
+  for (let round = 0; round < MAX_SWAP_ROUNDS; round++) {
+    const visited = route
+      .slice(1, -1)
+      .sort((a, b) => landmarkAt(a).priority - landmarkAt(b).priority);
+    const unvisited = matrix
+      .map((_, node) => node)
+      .filter((node) => node >= 2 && !route.includes(node))
+      .sort((a, b) => landmarkAt(b).priority - landmarkAt(a).priority);
+
+    let swapped: number[] | null = null;
+    for (const incoming of unvisited) {
+      for (const outgoing of visited) {
+        if (landmarkAt(incoming).priority <= landmarkAt(outgoing).priority) break;
+        const trial = route.filter((node) => node !== outgoing);
+        const { position, added } = cheapestInsertion(trial, incoming);
+        if (cost(trial) + added <= budget) {
+          trial.splice(position, 0, incoming);
+          swapped = trial;
+          break;
+        }
+      }
+      if (swapped) break;
+    }
+
+    if (!swapped) break;
+    route = fill(tighten(swapped));
+  }
+
+  const stops: PlannedStop[] = [];
+  let elapsed = 0;
+  let distance = 0;
+  let dwellDuration = 0;
+  for (let i = 1; i < route.length - 1; i++) {
+    const legDistance = matrix[route[i - 1]][route[i]];
+    const stopDwell = dwell(route[i]);
+    elapsed += travel(route[i - 1], route[i]);
+    distance += legDistance;
+    stops.push({
+      ...landmarkAt(route[i]),
+      legDistance: Math.round(legDistance),
+      legDuration: walkingDuration(legDistance, speed),
+      dwellDuration: Math.round(stopDwell),
+      arrival: Math.round(elapsed),
+    });
+    elapsed += stopDwell;
+    dwellDuration += stopDwell;
+  }
+
+  const returnDistance = matrix[route[route.length - 2]][1];
+  distance += returnDistance;
+  const planned = new Set(route);
+
+  const plan: TourPlan = {
+    start: request.start,
+    end,
+    stops,
+    returnLeg: {
+      distance: Math.round(returnDistance),
+      duration: walkingDuration(returnDistance, speed),
+    },
+    skipped: candidates
+      .filter((_, index) => !planned.has(index + 2))
+      .sort((a, b) => b.priority - a.priority),
+    distance: Math.round(distance),
+    walkingDuration: walkingDuration(distance, speed),
+    dwellDuration: Math.round(dwellDuration),
+    duration: walkingDuration(distance, speed) + Math.round(dwellDuration),
+    budget,
+    score: stops.reduce((total, stop) => total + stop.priority, 0),
+    walkingSpeed: speed,
+  };
+  return { ok: true, plan };
+}
@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { WikidataClassifier } from "./wikidata";
+
+const ENTITY = "http://www.wikidata.org/entity/";
+
+function stubSparql(bindings: unknown[]) {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () => Response.json({ results: { bindings } })),
+  );
+}
+
+describe("WikidataClassifier", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("picks the highest-priority category among an item's classes", async () => {
+    stubSparql([
+      { item: { value: `${ENTITY}Q1` }, class: { value: `${ENTITY}Q22698` } },
+      { item: { value: `${ENTITY}Q1` }, class: { value: `${ENTITY}Q33506` } },
+    ]);
+
+    const categories = await new WikidataClassifier().classify(["Q1", "Q2"]);
+
+    expect(categories.get("Q1")).toBe("museum");
+    expect(categories.get("Q2")).toBe("other");
+  });
+
+  it("skips rows that don't carry both an item and a class", async () => {
+    stubSparql([
+      { item: { value: `${ENTITY}Q1` } },
+      { class: { value: `${ENTITY}Q33506` } },
+      { item: { value: 7 }, class: { value: `${ENTITY}Q33506` } },
+      { item: { value: `${ENTITY}Q2` }, class: { value: `${ENTITY}Q22698` } },
+    ]);
+
+    const categories = await new WikidataClassifier().classify(["Q1", "Q2"]);
+
+    expect(categories.get("Q1")).toBe("other");
+    expect(categories.get("Q2")).toBe("park");
+  });
+
+  it("rejects a response that isn't a SPARQL result", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => Response.json({ results: { bindings: "nope" } })),
+    );
+
+    await expect(new WikidataClassifier().classify(["Q1"])).rejects.toThrow();
+  });
+});
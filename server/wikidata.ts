@@ -0,0 +1,182 @@
+import type { LandmarkCategory } from "@shared/schema";
+import { z } from "zod";
+import { USER_AGENT } from "./http";
+import { LruMap } from "./lru";
+
+const DEFAULT_SPARQL_URL = "https://query.wikidata.org/sparql";
+const ITEMS_PER_QUERY = 50;
+const MAX_CACHED_ITEMS = 50000;
+
+// Wikidata classes that define each category, in priority order. An item
+// belongs to a category if it is an instance of one of these classes or of
+// any of their subclasses (P31/P279*), so the lists only need root classes.
+const CATEGORY_CLASSES: [LandmarkCategory, string[]][] = [
+  ["museum", [
+    "Q33506", // museum
+    "Q1007870", // art gallery
+  ]],
+  ["religious", [
+    "Q24398318", // religious building
+    "Q16970", // church building
+    "Q32815", // mosque
+    "Q44539", // temple
+    "Q34627", // synagogue
+    "Q44613", // monastery
+  ]],
+  ["park", [
+    "Q22698", // park
+    "Q1107656", // garden
+    "Q473972", // protected area
+  ]],
+  ["monument", [
+    "Q4989906", // monument
+    "Q5003624", // memorial
+    "Q179700", // statue
+    "Q860861", // sculpture
+  ]],
+  ["historic", [
+    "Q23413", // castle
+    "Q16560", // palace
+    "Q839954", // archaeological site
+    "Q57821", // fortification
+  ]],
+  ["transport", [
+    "Q55488", // railway station
+    "Q928830", // metro station
+    "Q1248784", // airport
+    "Q12280", // bridge
+    "Q44782", // port
+  ]],
+  ["education", [
+    "Q3914", // school
+    "Q38723", // higher education institution
+    "Q7075", // library
+  ]],
+  ["venue", [
+    "Q24354", // theatre building
+    "Q483110", // stadium
+    "Q1060829", // concert hall
+    "Q41253", // movie theater
+  ]],
+  ["nature", [
+    "Q8502", // mountain
+    "Q23397", // lake
+    "Q4022", // river
+    "Q23442", // island
+    "Q34038", // waterfall
+  ]],
+  ["building", [
+    "Q41176", // building
+    "Q811979", // architectural structure
+  ]],
+];
+
+const CLASS_CATEGORIES = new Map<string, LandmarkCategory>(
+  CATEGORY_CLASSES.flatMap(([category, classes]) =>
+    classes.map((qid) => [qid, category] as [string, LandmarkCategory]),
+  ),
+);
+
+const CATEGORY_PRIORITY = new Map<LandmarkCategory, number>(
+  CATEGORY_CLASSES.map(([category], index) => [category, index]),
+);
+
+// One ?item ?class row of a SPARQL JSON result
+const bindingSchema = z.object({
+  item: z.object({ value: z.string() }),
+  class: z.object({ value: z.string() }),
+});
+
+const sparqlResultsSchema = z.object({
+  results: z.object({ bindings: z.array(z.unknown()) }).optional(),
+});
+
+function entityId(uri: string): string {
+  return uri.slice(uri.lastIndexOf("/") + 1);
+}
+
+// Resolves Wikidata items to landmark categories via the Wikidata Query
+// Service. Item classifications rarely change, so results are kept in an
+// in-process LRU rather than the request-scoped storage cache.
+export class WikidataClassifier {
+  private cache = new LruMap<string, LandmarkCategory>(MAX_CACHED_ITEMS);
+
+  constructor(private sparqlUrl = process.env.WIKIDATA_SPARQL_URL || DEFAULT_SPARQL_URL) {}
+
+  private async query(itemIds: string[]): Promise<Map<string, LandmarkCategory>> {
+    const sparql = `
+      SELECT DISTINCT ?item ?class WHERE {
+        VALUES ?item { ${itemIds.map((id) => `wd:${id}`).join(" ")} }
+        VALUES ?class { ${Array.from(CLASS_CATEGORIES.keys()).map((id) => `wd:${id}`).join(" ")} }
+        ?item wdt:P31/wdt:P279* ?class .
+      }`;
+
+    const response = await fetch(this.sparqlUrl, {
+      method: "POST",
+      headers: {
+        "Accept": "application/sparql-results+json",
+        "Content-Type": "application/x-www-form-urlencoded",
+        "User-Agent": USER_AGENT,
+      },
+      body: new URLSearchParams({ query: sparql }).toString(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Wikidata query error: ${response.statusText}`);
+    }
+
+    const data = sparqlResultsSchema.parse(await response.json());
+    const categories = new Map<string, LandmarkCategory>();
+
+    for (const row of data.results?.bindings || []) {
+      // Rows missing either variable say nothing about the item, so skip them
+      const binding = bindingSchema.safeParse(row);
+      if (!binding.success) {
+        continue;
+      }
+      const item = entityId(binding.data.item.value);
+      const category = CLASS_CATEGORIES.get(entityId(binding.data.class.value));
+      const current = categories.get(item);
+
+      if (
+        category &&
+        (!current || CATEGORY_PRIORITY.get(category)! < CATEGORY_PRIORITY.get(current)!)
+      ) {
+        categories.set(item, category);
+      }
+    }
+
+    return categories;
+  }
+
+  // Category for each item id; items that match no category are "other"
+  async classify(itemIds: string[]): Promise<Map<string, LandmarkCategory>> {
+    const result = new Map<string, LandmarkCategory>();
+    const unknown: string[] = [];
+
+    for (const id of Array.from(new Set(itemIds))) {
+      if (!/^Q\d+$/.test(id)) {
+        continue;
+      }
+      const cached = this.cache.get(id);
+      if (cached) {
+        result.set(id, cached);
+      } else {
+        unknown.push(id);
+      }
+    }
+
+    for (let i = 0; i < unknown.length; i += ITEMS_PER_QUERY) {
+      const chunk = unknown.slice(i, i + ITEMS_PER_QUERY);
+      const categories = await this.query(chunk);
+
+      for (const id of chunk) {
+        const category = categories.get(id) ?? "other";
+        this.cache.set(id, category);
+        result.set(id, category);
+      }
+    }
+
+    return result;
+  }
+}
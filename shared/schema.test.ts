@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_OVERLAY_FEATURES,
+  MAX_OVERLAY_POSITIONS,
+  overlayFeatureSchema,
+  overlayRequestSchema,
+  providerLandmarkRequestSchema,
+  type OverlayGeometry,
+} from "./schema";
+
+function feature(geometry: unknown, properties?: unknown) {
+  return { type: "Feature", geometry, properties };
+}
+
+function overlay(features: unknown[]) {
+  return { name: "  Hike  ", format: "gpx", features };
+}
+
+// The first error message zod reports
+function issue(result: { success: boolean; error?: { errors: { message: string }[] } }) {
+  return result.success ? undefined : result.error!.errors[0].message;
+}
+
+const SQUARE = [
+  [0, 0],
+  [1, 0],
+  [1, 1],
+  [0, 0],
+];
+
+describe("overlayFeatureSchema", () => {
+  it.each<OverlayGeometry>([
+    { type: "Point", coordinates: [2.29, 48.85, 35] },
+    { type: "MultiPoint", coordinates: [[2.29, 48.85]] },
+    { type: "LineString", coordinates: [[0, 0], [1, 1]] },
+    { type: "MultiLineString", coordinates: [[[0, 0], [1, 1]]] },
+    { type: "Polygon", coordinates: [SQUARE] },
+    { type: "MultiPolygon", coordinates: [[SQUARE], [SQUARE]] },
+  ])("accepts a $type", (geometry) => {
+    expect(overlayFeatureSchema.safeParse(feature(geometry)).success).toBe(true);
+  });
+
+  it("keeps only the name and description", () => {
+    const parsed = overlayFeatureSchema.parse(
+      feature({ type: "Point", coordinates: [0, 0] }, { name: "Summit", colour: "red" }),
+    );
+    expect(parsed.properties).toEqual({ name: "Summit" });
+  });
+
+  it("defaults missing properties", () => {
+    const parsed = overlayFeatureSchema.parse(feature({ type: "Point", coordinates: [0, 0] }));
+    expect(parsed.properties).toEqual({});
+  });
+
+  it("rejects positions out of range or swapped", () => {
+    const result = overlayFeatureSchema.safeParse(
+      feature({ type: "Point", coordinates: [48.85, 182.29] }),
+    );
+    expect(issue(result)).toBe("Coordinates must be longitude and latitude in degrees");
+  });
+
+  it("rejects positions with too few or too many values", () => {
+    for (const coordinates of [[1], [1, 2, 3, 4]]) {
+      expect(
+        overlayFeatureSchema.safeParse(feature({ type: "Point", coordinates })).success,
+      ).toBe(false);
+    }
+  });
+
+  it("rejects lines with a single point", () => {
+    const result = overlayFeatureSchema.safeParse(
+      feature({ type: "LineString", coordinates: [[0, 0]] }),
+    );
+    expect(issue(result)).toBe("Lines need at least two points");
+  });
+
+  it("rejects open or degenerate polygon rings", () => {
+    const open = overlayFeatureSchema.safeParse(
+      feature({ type: "Polygon", coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1]]] }),
+    );
+    expect(issue(open)).toBe("Polygon rings must be closed");
+
+    const short = overlayFeatureSchema.safeParse(
+      feature({ type: "Polygon", coordinates: [[[0, 0], [1, 1], [0, 0]]] }),
+    );
+    expect(issue(short)).toBe("Polygon rings need at least four points");
+  });
+
+  it("rejects unknown geometry types", () => {
+    const result = overlayFeatureSchema.safeParse(
+      feature({ type: "GeometryCollection", geometries: [] }),
+    );
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("overlayRequestSchema", () => {
+  const point = feature({ type: "Point", coordinates: [0, 0] });
+
+  it("trims the name", () => {
+    expect(overlayRequestSchema.parse(overlay([point])).name).toBe("Hike");
+  });
+
+  it("requires a name, a known format and at least one feature", () => {
+    expect(issue(overlayRequestSchema.safeParse({ ...overlay([point]), name: " " }))).toBe(
+      "Name is required",
+    );
+    expect(overlayRequestSchema.safeParse({ ...overlay([point]), format: "shp" }).success).toBe(
+      false,
+    );
+    expect(issue(overlayRequestSchema.safeParse(overlay([])))).toBe(
+      "The file has no points, lines or areas",
+    );
+  });
+
+  it("caps the number of features", () => {
+    const features = Array.from({ length: MAX_OVERLAY_FEATURES + 1 }, () => point);
+    expect(issue(overlayRequestSchema.safeParse(overlay(features)))).toBe(
+      `At most ${MAX_OVERLAY_FEATURES} features`,
+    );
+  });
+
+  it("caps the coordinates across all features", () => {
+    const line = (count: number) =>
+      feature({
+        type: "LineString",
+        coordinates: Array.from({ length: count }, (_, i) => [0, (i % 1000) / 100]),
+      });
+    const atLimit = [line(MAX_OVERLAY_POSITIONS / 2), line(MAX_OVERLAY_POSITIONS / 2)];
+
+    expect(overlayRequestSchema.safeParse(overlay(atLimit)).success).toBe(true);
+    expect(issue(overlayRequestSchema.safeParse(overlay([...atLimit, point])))).toBe(
+      `At most ${MAX_OVERLAY_POSITIONS} coordinates`,
+    );
+  });
+});
+
+describe("providerLandmarkRequestSchema", () => {
+  it("accepts provider landmarks with or without a source", () => {
+    expect(providerLandmarkRequestSchema.parse({ pageid: 42 })).toEqual({ pageid: 42, lang: "en" });
+    expect(providerLandmarkRequestSchema.safeParse({ pageid: 42, source: "wikipedia" }).success)
+      .toBe(true);
+  });
+
+  it("refuses custom landmarks, whose ids aren't pageids", () => {
+    const result = providerLandmarkRequestSchema.safeParse({ pageid: 42, source: "custom" });
+    expect(result.success).toBe(false);
+  });
+});
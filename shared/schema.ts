@@ -1,4 +1,59 @@
+import { sql } from "drizzle-orm";
+import {
+  boolean,
+  doublePrecision,
+  integer,
+  jsonb,
+  pgTable,
+  index,
+  primaryKey,
+  serial,
+  text,
+  timestamp,
+  unique,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { countTiles, type TileCoordinates } from "./tiles";
+
+// Wikipedia language edition code, e.g. "en", "de", "ja", "zh-yue", "simple"
+export const languageCodeSchema = z
+  .string()
+  .regex(/^[a-z][a-z-]{1,15}$/, "Invalid language code");
+
+export const DEFAULT_LANGUAGE = "en";
+
+// Largest radius in meters the upstream geosearch accepts
+export const MAX_SEARCH_RADIUS = 10000;
+
+// Most pageids accepted by the batch details endpoint
+export const MAX_DETAILS_BATCH = 50;
+
+// Landmark taxonomy, most specific first. Landmarks that match none of the
+// others are "other".
+export const LANDMARK_CATEGORIES = [
+  "museum",
+  "religious",
+  "park",
+  "monument",
+  "historic",
+  "transport",
+  "education",
+  "venue",
+  "nature",
+  "building",
+  "other",
+] as const;
+
+export const landmarkCategorySchema = z.enum(LANDMARK_CATEGORIES);
+
+// Where a landmark comes from: the configured provider (Wikipedia or a
+// GeoJSON stand-in) or a pin dropped by the signed-in user. Custom
+// landmarks reuse `pageid` for their own numeric id.
+export const LANDMARK_SOURCES = ["wikipedia", "custom"] as const;
+
+export const landmarkSourceSchema = z.enum(LANDMARK_SOURCES);
 
 export const landmarkSchema = z.object({
   pageid: z.number(),
@@ -7,6 +62,17 @@ export const landmarkSchema = z.object({
   lon: z.number(),
   dist: z.number().optional(),
   primary: z.string().optional(),
+  lang: languageCodeSchema.optional(),
+  category: landmarkCategorySchema.optional(),
+  wikidataId: z.string().optional(),
+  source: landmarkSourceSchema.optional(),
+});
+
+export const languageLinkSchema = z.object({
+  lang: languageCodeSchema,
+  title: z.string(),
+  url: z.string(),
+  name: z.string().optional(),
 });
 
 export const landmarkDetailSchema = landmarkSchema.extend({
@@ -17,14 +83,713 @@ export const landmarkDetailSchema = landmarkSchema.extend({
     height: z.number(),
   }).optional(),
   url: z.string().optional(),
+  languages: z.array(languageLinkSchema).optional(),
+});
+
+// `complete` is false when the upstream cap was hit and some landmarks
+// in the searched area may be missing
+export const landmarkSearchResultSchema = z.object({
+  landmarks: z.array(landmarkSchema),
+  complete: z.boolean(),
 });
 
 export const landmarkSearchRequestSchema = z.object({
   lat: z.number().min(-90).max(90),
   lon: z.number().min(-180).max(180),
-  radius: z.number().min(10).max(10000).default(5000),
+  radius: z.number().min(10).max(MAX_SEARCH_RADIUS).default(5000),
+  lang: languageCodeSchema.default(DEFAULT_LANGUAGE),
+  // Only return landmarks in these categories
+  categories: z.array(landmarkCategorySchema).optional(),
+});
+
+// Visible map area. Longitudes must not cross the antimeridian (west < east).
+export const landmarkBoundsRequestSchema = z
+  .object({
+    south: z.number().min(-90).max(90),
+    west: z.number().min(-180).max(180),
+    north: z.number().min(-90).max(90),
+    east: z.number().min(-180).max(180),
+    lang: languageCodeSchema.default(DEFAULT_LANGUAGE),
+    categories: z.array(landmarkCategorySchema).optional(),
+  })
+  .refine((bounds) => bounds.north > bounds.south, {
+    message: "north must be greater than south",
+    path: ["north"],
+  })
+  .refine((bounds) => bounds.east > bounds.west, {
+    message: "east must be greater than west",
+    path: ["east"],
+  });
+
+export const landmarkDetailRequestSchema = z.object({
+  pageid: z.number().int().positive(),
+  lang: languageCodeSchema.default(DEFAULT_LANGUAGE),
+});
+
+// Favorites, list items, visits and notes are keyed by the provider's
+// pageid. Custom landmarks number their ids separately, so a request naming
+// one is refused rather than resolved to whichever article has that pageid.
+export const providerLandmarkRequestSchema = landmarkDetailRequestSchema.extend({
+  source: landmarkSourceSchema
+    .exclude(["custom"], {
+      message: "Your own places can't be saved, listed, checked in to or noted",
+    })
+    .optional(),
+});
+
+// Save a landmark to the signed-in user's favorites; the server snapshots
+// its detail at save time
+export const favoriteRequestSchema = providerLandmarkRequestSchema;
+
+export const landmarkDetailsRequestSchema = z.object({
+  pageids: z.array(z.number().int().positive()).min(1).max(MAX_DETAILS_BATCH),
+  lang: languageCodeSchema.default(DEFAULT_LANGUAGE),
+});
+
+// Name search over geotagged landmarks
+export const landmarkLookupRequestSchema = z.object({
+  q: z.string().trim().min(2).max(100),
+  lang: languageCodeSchema.default(DEFAULT_LANGUAGE),
+  limit: z.number().int().min(1).max(20).default(10),
+});
+
+export const boundsSchema = z.object({
+  south: z.number(),
+  west: z.number(),
+  north: z.number(),
+  east: z.number(),
+});
+
+// A geocoded place (city, address, region) to move the map to
+export const placeSchema = z.object({
+  name: z.string(),
+  displayName: z.string(),
+  lat: z.number(),
+  lon: z.number(),
+  bounds: boundsSchema.optional(),
+  type: z.string().optional(),
+});
+
+export const geocodeRequestSchema = z.object({
+  q: z.string().trim().min(2).max(200),
+  lang: languageCodeSchema.default(DEFAULT_LANGUAGE),
+  limit: z.number().int().min(1).max(10).default(5),
+});
+
+// Map overlays: features imported from GeoJSON, GPX or KML files, kept in
+// the GeoJSON shape whatever the file format
+export const OVERLAY_FORMATS = ["geojson", "gpx", "kml"] as const;
+
+export const overlayFormatSchema = z.enum(OVERLAY_FORMATS);
+
+// [lon, lat] with an optional elevation, as in GeoJSON
+const positionSchema = z
+  .array(z.number())
+  .min(2)
+  .max(3)
+  .refine(
+    ([lon, lat]) => lon >= -180 && lon <= 180 && lat >= -90 && lat <= 90,
+    "Coordinates must be longitude and latitude in degrees",
+  );
+
+const lineSchema = z.array(positionSchema).min(2, "Lines need at least two points");
+
+// Closed: the last position repeats the first
+const ringSchema = z
+  .array(positionSchema)
+  .min(4, "Polygon rings need at least four points")
+  .refine(
+    (ring) => ring[0].every((value, index) => value === ring[ring.length - 1][index]),
+    "Polygon rings must be closed",
+  );
+
+const polygonSchema = z.array(ringSchema).min(1);
+
+export const overlayGeometrySchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("Point"), coordinates: positionSchema }),
+  z.object({ type: z.literal("MultiPoint"), coordinates: z.array(positionSchema).min(1) }),
+  z.object({ type: z.literal("LineString"), coordinates: lineSchema }),
+  z.object({ type: z.literal("MultiLineString"), coordinates: z.array(lineSchema).min(1) }),
+  z.object({ type: z.literal("Polygon"), coordinates: polygonSchema }),
+  z.object({ type: z.literal("MultiPolygon"), coordinates: z.array(polygonSchema).min(1) }),
+]);
+
+// Other properties from the file are dropped
+export const overlayFeatureSchema = z.object({
+  type: z.literal("Feature"),
+  geometry: overlayGeometrySchema,
+  properties: z
+    .object({
+      name: z.string().max(200).optional(),
+      description: z.string().max(2000).optional(),
+    })
+    .default({}),
 });
 
+export type LandmarkCategory = z.infer<typeof landmarkCategorySchema>;
+export type LandmarkSource = z.infer<typeof landmarkSourceSchema>;
 export type Landmark = z.infer<typeof landmarkSchema>;
+export type LanguageLink = z.infer<typeof languageLinkSchema>;
 export type LandmarkDetail = z.infer<typeof landmarkDetailSchema>;
+export type LandmarkSearchResult = z.infer<typeof landmarkSearchResultSchema>;
 export type LandmarkSearchRequest = z.infer<typeof landmarkSearchRequestSchema>;
+export type LandmarkBoundsRequest = z.infer<typeof landmarkBoundsRequestSchema>;
+export type LandmarkDetailRequest = z.infer<typeof landmarkDetailRequestSchema>;
+export type LandmarkDetailsRequest = z.infer<typeof landmarkDetailsRequestSchema>;
+export type LandmarkLookupRequest = z.infer<typeof landmarkLookupRequestSchema>;
+export type Bounds = z.infer<typeof boundsSchema>;
+export type Place = z.infer<typeof placeSchema>;
+export type GeocodeRequest = z.infer<typeof geocodeRequestSchema>;
+export type OverlayFormat = z.infer<typeof overlayFormatSchema>;
+export type OverlayGeometry = z.infer<typeof overlayGeometrySchema>;
+export type OverlayFeature = z.infer<typeof overlayFeatureSchema>;
+
+// Database tables (Postgres via Drizzle). Landmarks are identified by
+// pageid plus language edition, since pageids are per-wiki.
+
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const savedLandmarks = pgTable("saved_landmarks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  pageid: integer("pageid").notNull(),
+  lang: text("lang").notNull().default(DEFAULT_LANGUAGE),
+  title: text("title").notNull(),
+  lat: doublePrecision("lat").notNull(),
+  lon: doublePrecision("lon").notNull(),
+  // Snapshot of the landmark detail when it was saved
+  detail: jsonb("detail").$type<LandmarkDetail>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique().on(table.userId, table.pageid, table.lang),
+]);
+
+export const landmarkLists = pgTable("landmark_lists", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  // Unguessable token for read-only sharing; null when not shared
+  shareToken: text("share_token").unique(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const landmarkListItems = pgTable("landmark_list_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  listId: varchar("list_id").notNull().references(() => landmarkLists.id, { onDelete: "cascade" }),
+  pageid: integer("pageid").notNull(),
+  lang: text("lang").notNull().default(DEFAULT_LANGUAGE),
+  title: text("title").notNull(),
+  lat: doublePrecision("lat").notNull(),
+  lon: doublePrecision("lon").notNull(),
+  position: integer("position").notNull(),
+  addedAt: timestamp("added_at").notNull().defaultNow(),
+}, (table) => [
+  unique().on(table.listId, table.pageid, table.lang),
+]);
+
+// Pins dropped by users for places without a Wikipedia article; private to
+// their creator
+export const customLandmarks = pgTable("custom_landmarks", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  description: text("description"),
+  category: text("category").$type<LandmarkCategory>().notNull().default("other"),
+  lat: doublePrecision("lat").notNull(),
+  lon: doublePrecision("lon").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("custom_landmarks_user_idx").on(table.userId),
+]);
+
+// Visit log; a landmark can be visited many times
+export const visits = pgTable("visits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  pageid: integer("pageid").notNull(),
+  lang: text("lang").notNull().default(DEFAULT_LANGUAGE),
+  title: text("title").notNull(),
+  lat: doublePrecision("lat").notNull(),
+  lon: doublePrecision("lon").notNull(),
+  note: text("note"),
+  // Whether the browser's position was checked against the landmark, and
+  // how far away it was in meters
+  verified: boolean("verified").notNull().default(false),
+  distance: doublePrecision("distance"),
+  visitedAt: timestamp("visited_at").notNull().defaultNow(),
+}, (table) => [
+  index("visits_user_idx").on(table.userId),
+]);
+
+// Private markdown notes and free-form tags, one per user and landmark
+export const landmarkNotes = pgTable("landmark_notes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  pageid: integer("pageid").notNull(),
+  lang: text("lang").notNull().default(DEFAULT_LANGUAGE),
+  title: text("title").notNull(),
+  lat: doublePrecision("lat").notNull(),
+  lon: doublePrecision("lon").notNull(),
+  body: text("body").notNull().default(""),
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  unique().on(table.userId, table.pageid, table.lang),
+  index("landmark_notes_user_idx").on(table.userId),
+]);
+
+// Features imported from files and kept on their owner's account
+export const overlays = pgTable("overlays", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  format: text("format").$type<OverlayFormat>().notNull(),
+  features: jsonb("features").$type<OverlayFeature[]>().notNull(),
+  // Extent of the features, to fit the map to them
+  bounds: jsonb("bounds").$type<Bounds>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("overlays_user_idx").on(table.userId),
+]);
+
+// Cached provider responses, see IStorage.getCacheEntry
+export const landmarkCache = pgTable("landmark_cache", {
+  namespace: text("namespace").notNull(),
+  key: text("key").notNull(),
+  value: jsonb("value").notNull(),
+  storedAt: timestamp("stored_at").notNull().defaultNow(),
+  accessedAt: timestamp("accessed_at").notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.namespace, table.key] }),
+]);
+
+export const insertUserSchema = createInsertSchema(users).pick({
+  username: true,
+  password: true,
+});
+
+export const insertSavedLandmarkSchema = createInsertSchema(savedLandmarks).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertLandmarkListSchema = createInsertSchema(landmarkLists).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Items are appended to the end of a list; see IStorage.reorderListItems
+export const insertLandmarkListItemSchema = createInsertSchema(landmarkListItems).omit({
+  id: true,
+  position: true,
+  addedAt: true,
+});
+
+export const insertCustomLandmarkSchema = createInsertSchema(customLandmarks, {
+  category: landmarkCategorySchema,
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertVisitSchema = createInsertSchema(visits).omit({
+  id: true,
+});
+
+export const insertLandmarkNoteSchema = createInsertSchema(landmarkNotes).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertOverlaySchema = createInsertSchema(overlays, {
+  format: overlayFormatSchema,
+  features: z.array(overlayFeatureSchema),
+  bounds: boundsSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+export type InsertSavedLandmark = z.infer<typeof insertSavedLandmarkSchema>;
+export type SavedLandmark = typeof savedLandmarks.$inferSelect;
+export type InsertLandmarkList = z.infer<typeof insertLandmarkListSchema>;
+export type LandmarkList = typeof landmarkLists.$inferSelect;
+export type InsertLandmarkListItem = z.infer<typeof insertLandmarkListItemSchema>;
+export type LandmarkListItem = typeof landmarkListItems.$inferSelect;
+export type InsertCustomLandmark = z.infer<typeof insertCustomLandmarkSchema>;
+export type CustomLandmark = typeof customLandmarks.$inferSelect;
+export type InsertVisit = z.infer<typeof insertVisitSchema>;
+export type Visit = typeof visits.$inferSelect;
+export type InsertLandmarkNote = z.infer<typeof insertLandmarkNoteSchema>;
+export type LandmarkNote = typeof landmarkNotes.$inferSelect;
+export type InsertOverlay = z.infer<typeof insertOverlaySchema>;
+export type Overlay = typeof overlays.$inferSelect;
+
+// Register/login payload
+export const credentialsSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .min(3, "Username must be at least 3 characters")
+    .max(32, "Username must be at most 32 characters")
+    .regex(/^[A-Za-z0-9_.-]+$/, "Use letters, numbers, dots, dashes and underscores only"),
+  password: z
+    .string()
+    .min(8, "Password must be at least 8 characters")
+    .max(128, "Password must be at most 128 characters"),
+});
+
+export type Credentials = z.infer<typeof credentialsSchema>;
+export type FavoriteRequest = z.infer<typeof favoriteRequestSchema>;
+
+export const listRequestSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  description: z.string().trim().max(500).nullish(),
+});
+
+export const listUpdateRequestSchema = listRequestSchema.partial();
+
+// Landmarks are added by pageid; the server looks up title and coordinates
+export const listItemRequestSchema = providerLandmarkRequestSchema;
+
+export const listOrderRequestSchema = z.object({
+  itemIds: z.array(z.string()).min(1),
+});
+
+export type ListRequest = z.infer<typeof listRequestSchema>;
+export type ListUpdateRequest = z.infer<typeof listUpdateRequestSchema>;
+export type ListItemRequest = z.infer<typeof listItemRequestSchema>;
+export type ListOrderRequest = z.infer<typeof listOrderRequestSchema>;
+
+export interface LandmarkListWithItems {
+  list: LandmarkList;
+  items: LandmarkListItem[];
+}
+
+// Read-only view behind a share link, without owner or token
+export interface SharedLandmarkList {
+  list: Omit<LandmarkList, "userId" | "shareToken">;
+  items: LandmarkListItem[];
+}
+
+// User as returned by the API, never including the password hash
+export type PublicUser = Omit<User, "password">;
+
+export const customLandmarkRequestSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200),
+  description: z.string().trim().max(2000).nullish(),
+  category: landmarkCategorySchema.default("other"),
+  lat: z.number().min(-90).max(90),
+  lon: z.number().min(-180).max(180),
+});
+
+export const customLandmarkUpdateRequestSchema = customLandmarkRequestSchema
+  .omit({ category: true })
+  .partial()
+  .extend({ category: landmarkCategorySchema.optional() });
+
+export type CustomLandmarkRequest = z.infer<typeof customLandmarkRequestSchema>;
+export type CustomLandmarkUpdateRequest = z.infer<typeof customLandmarkUpdateRequestSchema>;
+
+// Browser position sent with a check-in, from the Geolocation API
+export const checkInPositionSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lon: z.number().min(-180).max(180),
+  accuracy: z.number().nonnegative().optional(),
+});
+
+export const checkInRequestSchema = providerLandmarkRequestSchema.extend({
+  note: z.string().trim().max(1000).nullish(),
+  // Backdating is only allowed without a position check
+  visitedAt: z.coerce.date().optional(),
+  position: checkInPositionSchema.optional(),
+});
+
+export type CheckInPosition = z.infer<typeof checkInPositionSchema>;
+export type CheckInRequest = z.infer<typeof checkInRequestSchema>;
+
+// Server configuration for check-ins, see GET /api/visits/policy
+export interface CheckInPolicy {
+  requirePosition: boolean;
+  maxDistance: number;
+}
+
+export const MAX_NOTE_TAGS = 20;
+
+// Tags are compared case-insensitively, so they are stored lowercased
+export const noteTagSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1)
+  .max(40, "Tags must be at most 40 characters")
+  .regex(/^[^,]+$/, "Tags cannot contain commas");
+
+export const noteRequestSchema = z.object({
+  body: z.string().max(10000, "Notes must be at most 10000 characters").default(""),
+  tags: z
+    .array(noteTagSchema)
+    .max(MAX_NOTE_TAGS, `At most ${MAX_NOTE_TAGS} tags`)
+    .default([])
+    .transform((tags) => Array.from(new Set(tags))),
+});
+
+export const noteSearchRequestSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  tag: noteTagSchema.optional(),
+});
+
+export type NoteRequest = z.infer<typeof noteRequestSchema>;
+export type NoteSearchRequest = z.infer<typeof noteSearchRequestSchema>;
+
+// Walking tours: visiting order over up to MAX_TOUR_STOPS landmarks
+export const MAX_TOUR_STOPS = 50;
+
+export const coordinatesSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lon: z.number().min(-180).max(180),
+});
+
+export const walkingTourRequestSchema = z.object({
+  landmarks: z.array(landmarkSchema).min(1).max(MAX_TOUR_STOPS),
+  // Defaults to starting at whichever landmark gives the shortest tour
+  start: coordinatesSchema.optional(),
+  // Come back to the start (or first stop) at the end
+  roundTrip: z.boolean().default(false),
+});
+
+export type Coordinates = z.infer<typeof coordinatesSchema>;
+export type WalkingTourRequest = z.infer<typeof walkingTourRequestSchema>;
+
+// A stop with the leg that leads to it, from the start or previous stop.
+// Distances are in meters along straight lines, durations in seconds.
+export interface TourStop extends Landmark {
+  legDistance: number;
+  legDuration: number;
+}
+
+export interface WalkingTour {
+  start: Coordinates | null;
+  stops: TourStop[];
+  // Back to the start on round trips
+  returnLeg: { distance: number; duration: number } | null;
+  distance: number;
+  duration: number;
+  // Meters per second the durations were estimated with
+  walkingSpeed: number;
+}
+
+// Itinerary planning: the best subset of landmarks that fits a time budget
+export const MAX_PLAN_CANDIDATES = 100;
+
+export const tourPlanLandmarkSchema = landmarkSchema.extend({
+  // Relative value of visiting; higher priorities are picked first
+  priority: z.number().min(0).max(100).default(1),
+  // Overrides the request's dwellMinutes for this landmark
+  dwellMinutes: z.number().min(0).max(600).optional(),
+});
+
+export const tourPlanRequestSchema = z.object({
+  landmarks: z.array(tourPlanLandmarkSchema).min(1).max(MAX_PLAN_CANDIDATES),
+  start: coordinatesSchema,
+  // Defaults to returning to the start
+  end: coordinatesSchema.optional(),
+  // Total time for walking and visits
+  budgetMinutes: z.number().positive().max(24 * 60),
+  // Time spent at each landmark
+  dwellMinutes: z.number().min(0).max(600).default(15),
+});
+
+export type TourPlanLandmark = z.infer<typeof tourPlanLandmarkSchema>;
+export type TourPlanRequest = z.infer<typeof tourPlanRequestSchema>;
+
+export interface PlannedStop extends TourStop {
+  priority: number;
+  // Seconds spent at the stop, and seconds after setting off it's reached
+  dwellDuration: number;
+  arrival: number;
+}
+
+// A planned itinerary; `returnLeg` is the walk from the last stop to the
+// end point, and `duration` includes time spent at the stops
+export interface TourPlan extends WalkingTour {
+  start: Coordinates;
+  end: Coordinates;
+  stops: PlannedStop[];
+  returnLeg: { distance: number; duration: number };
+  // Landmarks that didn't fit the budget, highest priority first
+  skipped: TourPlanLandmark[];
+  walkingDuration: number;
+  dwellDuration: number;
+  budget: number;
+  // Sum of the priorities of the planned stops
+  score: number;
+}
+
+// Exporting landmarks to files for GIS tools and GPS devices
+export const EXPORT_FORMATS = ["geojson", "gpx", "kml", "csv"] as const;
+
+export const MAX_EXPORT_LANDMARKS = 500;
+
+export const exportFormatSchema = z.enum(EXPORT_FORMATS);
+
+// The server fills in missing URLs and extracts for Wikipedia landmarks
+export const exportLandmarkSchema = landmarkSchema.extend({
+  url: z.string().url().optional(),
+  extract: z.string().optional(),
+});
+
+export const exportRequestSchema = z.object({
+  format: exportFormatSchema,
+  name: z.string().trim().min(1).max(100).default("Landmarks"),
+  landmarks: z.array(exportLandmarkSchema).min(1).max(MAX_EXPORT_LANDMARKS),
+  // The landmarks are in visiting order, as in a tour; adds a route line
+  route: z.boolean().default(false),
+});
+
+export type ExportFormat = z.infer<typeof exportFormatSchema>;
+export type ExportLandmark = z.infer<typeof exportLandmarkSchema>;
+export type ExportRequest = z.infer<typeof exportRequestSchema>;
+
+// Imported overlays: the most features and coordinates one may hold, the
+// largest file the client reads, and the largest upload. Parsed overlays
+// are much smaller than GPX or KML files of the same features.
+export const MAX_OVERLAY_FEATURES = 2000;
+export const MAX_OVERLAY_POSITIONS = 50000;
+export const MAX_OVERLAY_FILE_SIZE = 10 * 1024 * 1024;
+export const MAX_OVERLAY_UPLOAD_SIZE = 2 * 1024 * 1024;
+
+function countPositions(geometry: OverlayGeometry): number {
+  switch (geometry.type) {
+    case "Point":
+      return 1;
+    case "MultiPoint":
+    case "LineString":
+      return geometry.coordinates.length;
+    case "MultiLineString":
+    case "Polygon":
+      return geometry.coordinates.reduce((total, line) => total + line.length, 0);
+    case "MultiPolygon":
+      return geometry.coordinates
+        .flat()
+        .reduce((total, ring) => total + ring.length, 0);
+  }
+}
+
+export const overlayRequestSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  format: overlayFormatSchema,
+  features: z
+    .array(overlayFeatureSchema)
+    .min(1, "The file has no points, lines or areas")
+    .max(MAX_OVERLAY_FEATURES, `At most ${MAX_OVERLAY_FEATURES} features`)
+    .refine(
+      (features) =>
+        features.reduce((total, feature) => total + countPositions(feature.geometry), 0) <=
+        MAX_OVERLAY_POSITIONS,
+      `At most ${MAX_OVERLAY_POSITIONS} coordinates`,
+    ),
+});
+
+export type OverlayRequest = z.infer<typeof overlayRequestSchema>;
+
+// The base map used when none is chosen, and for packs made before there
+// was a choice
+export const DEFAULT_TILE_SOURCE = "osm";
+
+// Region packs: an area's landmarks, their summaries and thumbnails, and
+// map tiles for a zoom range, prepared by the server as a background job
+// and kept on the device for offline use
+export const MAX_PACK_TILES = 1500;
+export const MAX_PACK_ZOOM = 17;
+
+export const regionPackRequestSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(100),
+    south: z.number().min(-90).max(90),
+    west: z.number().min(-180).max(180),
+    north: z.number().min(-90).max(90),
+    east: z.number().min(-180).max(180),
+    minZoom: z.number().int().min(0).max(MAX_PACK_ZOOM),
+    maxZoom: z.number().int().min(0).max(MAX_PACK_ZOOM),
+    lang: languageCodeSchema.default(DEFAULT_LANGUAGE),
+    // The base map whose tiles go into the pack
+    layer: z.string().trim().min(1).max(50).default(DEFAULT_TILE_SOURCE),
+  })
+  .refine((pack) => pack.north > pack.south, {
+    message: "north must be greater than south",
+    path: ["north"],
+  })
+  .refine((pack) => pack.east > pack.west, {
+    message: "east must be greater than west",
+    path: ["east"],
+  })
+  .refine((pack) => pack.maxZoom >= pack.minZoom, {
+    message: "maxZoom must not be less than minZoom",
+    path: ["maxZoom"],
+  })
+  .refine((pack) => countTiles(pack, pack.minZoom, pack.maxZoom) <= MAX_PACK_TILES, {
+    message: `At most ${MAX_PACK_TILES} map tiles; pick a smaller area or fewer zoom levels`,
+    path: ["maxZoom"],
+  });
+
+export type RegionPackRequest = z.infer<typeof regionPackRequestSchema>;
+
+// What a pack job is working on, in order
+export const REGION_PACK_STAGES = ["landmarks", "details", "thumbnails", "tiles"] as const;
+
+export type RegionPackStage = (typeof REGION_PACK_STAGES)[number];
+
+// A pack being prepared; `done` and `total` count the items of the current
+// stage. Finished jobs are kept for a while so the client can download them.
+export interface RegionPackJob {
+  id: string;
+  status: "running" | "done" | "failed";
+  request: RegionPackRequest;
+  stage: RegionPackStage;
+  done: number;
+  total: number;
+  error?: string;
+  createdAt: string;
+}
+
+// The contents of a finished pack. Thumbnails and tiles are downloaded
+// separately: thumbnails by their index here, tiles by coordinates. Items
+// that couldn't be fetched are left out.
+export interface RegionPackManifest {
+  request: RegionPackRequest;
+  landmarks: Landmark[];
+  // False when the area had more landmarks than the search could return
+  complete: boolean;
+  details: LandmarkDetail[];
+  thumbnails: string[];
+  tiles: TileCoordinates[];
+}
+
+// A base map from the server's catalogue, as the client's layer control
+// shows it. `url` is the tile proxy's template for it.
+export interface TileSource {
+  id: string;
+  name: string;
+  url: string;
+  attribution: string;
+  maxZoom: number;
+  // Suited to the dark theme
+  dark: boolean;
+  // Region packs can include its tiles
+  allowBulk: boolean;
+}
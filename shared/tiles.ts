@@ -0,0 +1,75 @@
+// Web Mercator ("slippy map") tile numbering, as used by OpenStreetMap and
+// Leaflet: at zoom z the world is 2^z by 2^z tiles, x from the antimeridian
+// eastwards and y from the north.
+
+export interface TileCoordinates {
+  z: number;
+  x: number;
+  y: number;
+}
+
+interface TileBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+// Mercator stops short of the poles
+const MAX_LATITUDE = 85.0511287798;
+
+function tileX(lon: number, zoom: number): number {
+  const count = 2 ** zoom;
+  return Math.min(count - 1, Math.max(0, Math.floor(((lon + 180) / 360) * count)));
+}
+
+function tileY(lat: number, zoom: number): number {
+  const count = 2 ** zoom;
+  const clamped = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+  const radians = (clamped * Math.PI) / 180;
+  const y = ((1 - Math.log(Math.tan(radians) + 1 / Math.cos(radians)) / Math.PI) / 2) * count;
+  return Math.min(count - 1, Math.max(0, Math.floor(y)));
+}
+
+// Inclusive tile ranges covering the bounds at one zoom level
+export function tileRange(bounds: TileBounds, zoom: number) {
+  return {
+    minX: tileX(bounds.west, zoom),
+    maxX: tileX(bounds.east, zoom),
+    minY: tileY(bounds.north, zoom),
+    maxY: tileY(bounds.south, zoom),
+  };
+}
+
+export function countTiles(bounds: TileBounds, minZoom: number, maxZoom: number): number {
+  let count = 0;
+  for (let zoom = minZoom; zoom <= maxZoom; zoom++) {
+    const { minX, maxX, minY, maxY } = tileRange(bounds, zoom);
+    count += (maxX - minX + 1) * (maxY - minY + 1);
+  }
+  return count;
+}
+
+// Every tile covering the bounds from minZoom to maxZoom, lowest zoom first
+export function tilesInBounds(
+  bounds: TileBounds,
+  minZoom: number,
+  maxZoom: number,
+): TileCoordinates[] {
+  const tiles: TileCoordinates[] = [];
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { minX, maxX, minY, maxY } = tileRange(bounds, z);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        tiles.push({ z, x, y });
+      }
+    }
+  }
+  return tiles;
+}
+
+// Whether a tile is one of those covering the bounds at its zoom
+export function tileInBounds(tile: TileCoordinates, bounds: TileBounds): boolean {
+  const { minX, maxX, minY, maxY } = tileRange(bounds, tile.z);
+  return tile.x >= minX && tile.x <= maxX && tile.y >= minY && tile.y <= maxY;
+}